@@ -15,8 +15,15 @@ const NETWORK_ONLY_ROUTES = [
   '/api/refresh',
   '/api/settings',
   '/api/scores',
+  '/api/details',
   '/api/subscribe',
   '/api/poll',
+  '/api/catalog',
+  '/api/properties',
+  '/api/schedule',
+  '/api/stats',
+  '/api/polls',
+  '/api/archive',
 ]
 
 // --- Install ---
@@ -211,7 +218,7 @@ self.addEventListener('push', (event) => {
     icon: '/icons/icon-192.svg',
     badge: '/icons/icon-192.svg',
     vibrate: [200, 100, 200],
-    tag: 'aparto-new-listing',
+    tag: data.tag || 'aparto-new-listing',
     renotify: true,
     data: {
       url: data.url || '/',
@@ -0,0 +1,49 @@
+/**
+ * Captures an e-housing search page as a parser regression fixture.
+ *
+ * Usage:
+ *   npm run fixture:capture -- <saved-page.html> <fixture-name>
+ *
+ * Save the page with "View Source" (not "Save Page As", which re-serializes
+ * the DOM and drops the flight scripts), then run this script. It copies the
+ * HTML into src/lib/__fixtures__/ehousing/ and writes the parser's current
+ * output next to it as <fixture-name>.expected.json. Review the expected
+ * file before committing - it becomes the assertion for the test suite.
+ */
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { parseRscPayload } from '../src/lib/ehousing'
+
+const FIXTURE_DIR = join(__dirname, '..', 'src', 'lib', '__fixtures__', 'ehousing')
+
+const main = () => {
+  const [sourcePath, name] = process.argv.slice(2)
+  if (!sourcePath || !name) {
+    console.error(
+      'Usage: npm run fixture:capture -- <saved-page.html> <fixture-name>'
+    )
+    process.exit(1)
+  }
+
+  if (!/^[a-z0-9-]+$/.test(name)) {
+    console.error('Fixture name must be kebab-case (a-z, 0-9, -)')
+    process.exit(1)
+  }
+
+  const html = readFileSync(sourcePath, 'utf8')
+  const result = parseRscPayload(html)
+
+  mkdirSync(FIXTURE_DIR, { recursive: true })
+  writeFileSync(join(FIXTURE_DIR, `${name}.html`), html)
+  writeFileSync(
+    join(FIXTURE_DIR, `${name}.expected.json`),
+    JSON.stringify(result, null, 2) + '\n'
+  )
+
+  console.log(
+    `Captured ${name}: ${result.properties.length} properties, ` +
+      `page ${result.meta?.current_page ?? '?'} of ${result.meta?.last_page ?? '?'}`
+  )
+}
+
+main()
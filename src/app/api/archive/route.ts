@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server'
+import type { ArchiveQuery, ArchiveStatus, ArchivedProperty } from '@/lib/types'
+import { getArchiveEntries, getArchivedProperties } from '@/lib/redis'
+import { searchArchive } from '@/lib/archive'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const STATUSES: ArchiveStatus[] = ['active', 'delisted']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Reads the search parameters into a query, or returns the first invalid
+ * parameter's error message.
+ */
+const parseQuery = (params: URLSearchParams): ArchiveQuery | string => {
+  const query: ArchiveQuery = {
+    text: params.get('q') || undefined,
+    ward: params.get('ward') || undefined,
+  }
+
+  for (const name of ['priceFrom', 'priceTo'] as const) {
+    const value = params.get(name)
+    if (!value) continue
+    const price = Number(value)
+    if (!Number.isInteger(price) || price < 0) {
+      return `${name} must be a non-negative integer`
+    }
+    query[name] = price
+  }
+
+  for (const [param, field] of [
+    ['from', 'seenFrom'],
+    ['to', 'seenTo'],
+  ] as const) {
+    const value = params.get(param)
+    if (!value) continue
+    if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+      return `${param} must be a date (YYYY-MM-DD)`
+    }
+    query[field] = value
+  }
+
+  const status = params.get('status')
+  if (status) {
+    if (!STATUSES.includes(status as ArchiveStatus)) {
+      return `status must be one of: ${STATUSES.join(', ')}`
+    }
+    query.status = status as ArchiveStatus
+  }
+
+  return query
+}
+
+/**
+ * GET /api/archive?q=2LDK+ebisu&priceTo=250000&from=2026-09-01&to=2026-09-30
+ *   (also ward, priceFrom, status=active|delisted, limit, offset)
+ *
+ * Searches every property ever seen, including delisted ones. `q` words
+ * must all appear in the name, address, station or layout; `from` and `to`
+ * (JST days) keep properties that were listed at some point in between.
+ * Returns the total match count and one page of matches, most recently
+ * seen first, each with its last full property record.
+ */
+export const GET = async (request: Request): Promise<NextResponse> => {
+  const params = new URL(request.url).searchParams
+  const query = parseQuery(params)
+  if (typeof query === 'string') {
+    return NextResponse.json({ error: query }, { status: 400 })
+  }
+
+  const limit = Number(params.get('limit') ?? DEFAULT_LIMIT)
+  const offset = Number(params.get('offset') ?? 0)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be an integer from 1 to ${MAX_LIMIT}` },
+      { status: 400 }
+    )
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json(
+      { error: 'offset must be a non-negative integer' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const matches = searchArchive(await getArchiveEntries(), query)
+    const page = matches.slice(offset, offset + limit)
+    const properties = await getArchivedProperties(page.map((e) => e.key))
+    const results: ArchivedProperty[] = page.flatMap((entry) => {
+      const property = properties.get(entry.key)
+      return property ? [{ ...entry, property }] : []
+    })
+
+    return NextResponse.json({ total: matches.length, results })
+  } catch (error) {
+    console.error('[archive] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to search the property archive' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { getCatalog, refreshCatalog } from '@/lib/catalog'
+import { verifyQstashRequest } from '@/lib/qstash'
+import { checkHealth } from '@/lib/health'
+
+export const GET = async (): Promise<NextResponse> => {
+  // getCatalog never throws; it falls back to the bundled data
+  const catalog = await getCatalog()
+  return NextResponse.json(catalog)
+}
+
+/**
+ * Scheduled catalog sync, called by QStash (daily is plenty). Also runs
+ * the monitoring health check.
+ */
+export const POST = async (request: Request): Promise<NextResponse> => {
+  const rejection = await verifyQstashRequest(request)
+  if (rejection) return rejection
+
+  try {
+    // This daily job also catches a poll schedule that stopped running,
+    // which the polls themselves can't notice
+    await checkHealth()
+
+    const result = await refreshCatalog()
+    console.log(
+      `[catalog] Sync ${result.changed ? `stored v${result.snapshot.version}` : 'found no changes'} (wards +${result.addedWards}/-${result.removedWards}, stations +${result.addedStations}/-${result.removedStations})`
+    )
+    return NextResponse.json({
+      success: true,
+      changed: result.changed,
+      version: result.snapshot.version,
+      addedWards: result.addedWards,
+      removedWards: result.removedWards,
+      addedStations: result.addedStations,
+      removedStations: result.removedStations,
+    })
+  } catch (error) {
+    console.error('[catalog] Sync error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { enrichProperties } from '@/lib/enrichment'
+import { getArchivedProperties, getCachedListings } from '@/lib/redis'
+import { listingKey } from '@/lib/sources'
+import type { Property } from '@/lib/types'
+
+// Property pages scraped per request; the rest come from later requests
+const MAX_FETCHES_PER_REQUEST = 5
+
+/**
+ * Looks up properties by ID in the latest search results, then in the
+ * archive for ones that have left them. Unknown IDs are skipped, so only
+ * pages of listings we've actually seen get scraped.
+ */
+const findProperties = async (ids: number[]): Promise<Property[]> => {
+  const latest = new Map(
+    (await getCachedListings()).map((property) => [property.id, property])
+  )
+  const archived = await getArchivedProperties(
+    ids.filter((id) => !latest.has(id)).map((id) => listingKey('ehousing', id))
+  )
+  return ids.flatMap(
+    (id) => latest.get(id) ?? archived.get(listingKey('ehousing', id)) ?? []
+  )
+}
+
+/**
+ * POST /api/details
+ *
+ * Body: { ids: number[] } - typically the user's favorites, which may no
+ * longer be in the cached search results.
+ * Returns scraped property details keyed by property ID, fetching and
+ * caching any that are missing.
+ */
+export const POST = async (request: Request): Promise<NextResponse> => {
+  try {
+    const body: unknown = await request.json()
+    const ids = (body as { ids?: unknown } | null)?.ids
+
+    if (!Array.isArray(ids) || !ids.every((id) => Number.isInteger(id))) {
+      return NextResponse.json(
+        { error: 'Invalid property IDs' },
+        { status: 400 }
+      )
+    }
+
+    const details = await enrichProperties(
+      await findProperties(ids),
+      MAX_FETCHES_PER_REQUEST
+    )
+
+    return NextResponse.json({
+      details: Object.fromEntries(
+        Array.from(details.entries()).map(([id, d]) => [String(id), d])
+      ),
+    })
+  } catch (error) {
+    console.error('[details] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch property details' },
+      { status: 500 }
+    )
+  }
+}
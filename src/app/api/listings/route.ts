@@ -4,24 +4,39 @@ import {
   getLastPollTimestamp,
   getNotificationHistory,
   getFilterSettings,
+  getCachedDetails,
+  getListingLifecycles,
 } from '@/lib/redis'
-import { buildSearchUrl } from '@/lib/ehousing'
+import { buildSearchUrl } from '@/lib/ehousing-urls'
+import { dealsById, lifecyclesById, toListing } from '@/lib/sources/ehousing'
+import { rateDeals } from '@/lib/deal'
 
 export const GET = async (): Promise<NextResponse> => {
   try {
-    const [listings, lastPoll, notifications, filters] = await Promise.all([
-      getCachedListings(),
-      getLastPollTimestamp(),
-      getNotificationHistory(),
-      getFilterSettings(),
-    ])
+    const [listings, lastPoll, notifications, filters, lifecycles] =
+      await Promise.all([
+        getCachedListings(),
+        getLastPollTimestamp(),
+        getNotificationHistory(),
+        getFilterSettings(),
+        getListingLifecycles(),
+      ])
 
     const searchUrl = buildSearchUrl(filters)
 
+    // Details are scraped for new listings during polls; serve what's cached
+    const details = await getCachedDetails(listings.map((p) => p.id))
+
     return NextResponse.json({
       listings,
       lastPoll,
       notifications,
+      details: Object.fromEntries(
+        Array.from(details.entries()).map(([id, d]) => [String(id), d])
+      ),
+      // Includes recently delisted properties, for favorites
+      lifecycles: lifecyclesById(lifecycles.values()),
+      deals: dealsById(rateDeals(listings.map(toListing))),
       count: listings.length,
       searchUrl,
     })
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { getHealthState, getPollRuns } from '@/lib/redis'
+
+const DEFAULT_LIMIT = 50
+
+/**
+ * GET /api/polls?limit=50
+ *
+ * Returns the most recent poll, refresh and re-seed runs, newest first,
+ * plus when the last successful scheduled poll finished and the latest
+ * health check's result.
+ */
+export const GET = async (request: Request): Promise<NextResponse> => {
+  const limitParam = new URL(request.url).searchParams.get('limit')
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT
+
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json(
+      { error: 'limit must be a positive integer' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const [runs, health] = await Promise.all([
+      getPollRuns(limit),
+      getHealthState(),
+    ])
+    const lastSuccess = runs.find((run) => run.kind === 'poll' && run.success)
+
+    return NextResponse.json({
+      runs,
+      lastSuccessfulPoll: lastSuccess?.startedAt ?? null,
+      health,
+    })
+  } catch (error) {
+    console.error('[polls] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch poll runs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getListingLifecycle, getPropertyHistory } from '@/lib/redis'
+import { listingKey } from '@/lib/sources'
+
+/**
+ * GET /api/properties/[id]/history
+ *
+ * Returns a listing's history, oldest first, along with its lifecycle.
+ * `id` is a listing key (`source:id`); a bare ID is taken to be e-housing's.
+ */
+export const GET = async (
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> => {
+  const { id } = await params
+  const key = id.includes(':') ? id : listingKey('ehousing', id)
+
+  try {
+    const [history, lifecycle] = await Promise.all([
+      getPropertyHistory(key),
+      getListingLifecycle(key),
+    ])
+
+    return NextResponse.json({ key, lifecycle, history })
+  } catch (error) {
+    console.error('[history] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch property history' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,40 +1,39 @@
 import { NextResponse } from 'next/server'
-import { fetchProperties } from '@/lib/ehousing'
 import {
-  syncKnownPropertyIds,
-  setCachedListings,
-  setLastPollTimestamp,
-  getNotificationHistory,
-} from '@/lib/redis'
+  toProperties,
+  lifecyclesById,
+  dealsById,
+} from '@/lib/sources/ehousing'
+import { rateDeals } from '@/lib/deal'
+import { getNotificationHistory } from '@/lib/redis'
+import { runPipeline } from '@/lib/pipeline'
+import { PipelineBusyError, busyResponse } from '@/lib/lock'
 
 /**
  * Manual refresh endpoint - triggered by pull-to-refresh.
- * Fetches fresh data from e-housing and updates Redis cache,
+ * Fetches fresh data from every listing source and updates Redis cache,
  * but does NOT send push notifications (those only come from
- * the scheduled QStash poll to avoid duplicate alerts).
+ * the scheduled QStash poll to avoid duplicate alerts). New listings are
+ * left for the next poll to announce.
  */
 export const POST = async (): Promise<NextResponse> => {
-  const timestamp = new Date().toISOString()
-
   try {
-    const { properties } = await fetchProperties()
-
-    // Update Redis cache
-    const currentIds = properties.map((p) => p.id)
-    await syncKnownPropertyIds(currentIds)
-    await setCachedListings(properties)
-    await setLastPollTimestamp(timestamp)
+    const { result, listings, lifecycles } = await runPipeline('record')
+    const properties = toProperties(listings)
 
     // Return fresh data including notification history
     const notifications = await getNotificationHistory()
 
     return NextResponse.json({
       listings: properties,
-      lastPoll: timestamp,
+      lastPoll: result.timestamp,
       notifications,
+      lifecycles: lifecyclesById(lifecycles),
+      deals: dealsById(rateDeals(listings)),
       count: properties.length,
     })
   } catch (error) {
+    if (error instanceof PipelineBusyError) return busyResponse(error)
     console.error('[refresh] Error:', error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Refresh failed' },
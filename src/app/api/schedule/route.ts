@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import {
+  getSchedulerMode,
+  listPollSchedules,
+  loadPollSchedule,
+  savePollSchedule,
+} from '@/lib/scheduler'
+import { pollIntervalAt, validateSchedule } from '@/lib/schedule'
+import type { PollScheduleSettings, PollScheduleState } from '@/lib/types'
+
+/**
+ * Describes the schedule state for the settings panel, including the
+ * schedules QStash actually has (null if unmanaged or unreachable).
+ */
+const describeSchedule = async (state: PollScheduleState) => {
+  let schedules = null
+  try {
+    schedules = await listPollSchedules()
+  } catch (error) {
+    console.error('[schedule] Failed to list QStash schedules:', error)
+  }
+
+  return {
+    ...state,
+    mode: getSchedulerMode(),
+    currentIntervalMinutes: pollIntervalAt(state),
+    schedules,
+  }
+}
+
+/**
+ * GET /api/schedule
+ *
+ * Returns the poll schedule settings and how polls are currently run.
+ */
+export const GET = async (): Promise<NextResponse> => {
+  try {
+    return NextResponse.json(await describeSchedule(await loadPollSchedule()))
+  } catch (error) {
+    console.error('[schedule] Fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/schedule
+ *
+ * Body: PollScheduleSettings. Saves them and updates the QStash schedules
+ * when they're managed from the app.
+ */
+export const POST = async (request: Request): Promise<NextResponse> => {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+    if (typeof body !== 'object' || body === null) {
+      return NextResponse.json({ error: 'Invalid schedule' }, { status: 400 })
+    }
+    const settings = body as PollScheduleSettings
+    const invalid = validateSchedule(settings)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const state = await savePollSchedule(settings)
+    return NextResponse.json(await describeSchedule(state))
+  } catch (error) {
+    console.error('[schedule] Save error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save schedule' },
+      { status: 500 }
+    )
+  }
+}
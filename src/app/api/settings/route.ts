@@ -1,12 +1,12 @@
 import { NextResponse } from 'next/server'
-import {
-  getFilterSettings,
-  setFilterSettings,
-  syncKnownPropertyIds,
-  setCachedListings,
-  setLastPollTimestamp,
-} from '@/lib/redis'
-import { fetchProperties } from '@/lib/ehousing'
+import { getFilterSettings } from '@/lib/redis'
+import { dealsById, toProperties } from '@/lib/sources/ehousing'
+import { rateDeals } from '@/lib/deal'
+import { validateFilters } from '@/lib/filters'
+import { translate } from '@/lib/i18n'
+import { runPipeline } from '@/lib/pipeline'
+import { startBurst } from '@/lib/scheduler'
+import { PipelineBusyError, busyResponse } from '@/lib/lock'
 import type { FilterSettings } from '@/lib/types'
 
 export const GET = async (): Promise<NextResponse> => {
@@ -24,39 +24,49 @@ export const GET = async (): Promise<NextResponse> => {
 
 export const POST = async (request: Request): Promise<NextResponse> => {
   try {
-    const filters = (await request.json()) as FilterSettings
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+    if (typeof body !== 'object' || body === null) {
+      return NextResponse.json({ error: 'Invalid settings' }, { status: 400 })
+    }
+    const filters = body as FilterSettings
 
-    // Validate required fields
-    if (!filters.wards || filters.wards.length === 0) {
+    // Same rules as the filter editor, so a saved search always builds a
+    // valid e-housing URL
+    const [issue] = validateFilters(filters)
+    if (issue) {
       return NextResponse.json(
-        { error: 'At least one ward must be selected' },
+        { error: translate('en', issue.message), field: issue.field },
         { status: 400 }
       )
     }
 
-    // Save new filter settings
-    await setFilterSettings(filters)
-
-    // Clear known property IDs since the search changed
-    // This prevents a flood of notifications on the next poll
-    await syncKnownPropertyIds([])
-
-    // Run an immediate fresh poll with the new filters
-    const { properties } = await fetchProperties()
+    // Run an immediate fresh poll with the new filters, restarting
+    // lifecycle tracking from its results without notifications. This
+    // prevents a flood of alerts on the next poll, and listings the old
+    // search matched aren't reported as delisted. The filters are saved
+    // with its results, so a failed poll keeps the old search.
+    const { listings } = await runPipeline('reseed', filters)
+    const properties = toProperties(listings)
 
-    // Seed the known IDs with current results (no notifications)
-    const currentIds = properties.map((p) => p.id)
-    await syncKnownPropertyIds(currentIds)
-    await setCachedListings(properties)
-    await setLastPollTimestamp(new Date().toISOString())
+    // Poll more often for a while so listings matching the new search are
+    // caught early
+    await startBurst()
 
     return NextResponse.json({
       success: true,
       filters,
       listings: properties,
+      deals: dealsById(rateDeals(listings)),
       count: properties.length,
     })
   } catch (error) {
+    if (error instanceof PipelineBusyError) return busyResponse(error)
     console.error('Settings save error:', error)
     return NextResponse.json(
       { error: 'Failed to save settings' },
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { getMarketStatsForDay, getMarketStatsSeries } from '@/lib/redis'
+import { ALL, recentStatsDates } from '@/lib/stats'
+
+const DEFAULT_DAYS = 90
+const MAX_DAYS = 730
+
+/**
+ * GET /api/stats?ward=meguro&layout=2LDK&days=90
+ *
+ * Returns the daily market statistics of one ward and layout (both default
+ * to 'all'), oldest first, plus every series on the most recent day with
+ * data (today or yesterday) for comparing wards and layouts.
+ */
+export const GET = async (request: Request): Promise<NextResponse> => {
+  const params = new URL(request.url).searchParams
+  const ward = params.get('ward') || ALL
+  const layout = params.get('layout') || ALL
+  const daysParam = params.get('days')
+  const days = daysParam ? Number(daysParam) : DEFAULT_DAYS
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return NextResponse.json(
+      { error: `days must be an integer from 1 to ${MAX_DAYS}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const dates = recentStatsDates(days)
+    const series = await getMarketStatsSeries(dates, ward, layout)
+
+    // Today has no statistics until its first poll
+    const [yesterday, today] = recentStatsDates(2)
+    let latest = await getMarketStatsForDay(today)
+    if (latest.length === 0) latest = await getMarketStatsForDay(yesterday)
+
+    return NextResponse.json({ ward, layout, series, latest })
+  } catch (error) {
+    console.error('[stats] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch market statistics' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,16 +1,18 @@
 import { NextResponse } from 'next/server'
 import { addSubscription, removeSubscription } from '@/lib/redis'
+import { DEFAULT_LOCALE, isLocale } from '@/lib/i18n'
 import type { PushSubscriptionRecord } from '@/lib/types'
 
 export const POST = async (request: Request): Promise<NextResponse> => {
   try {
     const body = await request.json()
-    const { subscription, action } = body as {
+    const { subscription, action, locale } = body as {
       subscription: {
         endpoint: string
         keys: { p256dh: string; auth: string }
       }
       action: 'subscribe' | 'unsubscribe'
+      locale?: unknown
     }
 
     if (!subscription?.endpoint || !subscription?.keys) {
@@ -29,8 +31,11 @@ export const POST = async (request: Request): Promise<NextResponse> => {
       endpoint: subscription.endpoint,
       keys: subscription.keys,
       createdAt: new Date().toISOString(),
+      locale: isLocale(locale) ? locale : DEFAULT_LOCALE,
     }
 
+    // Re-subscribing an existing endpoint overwrites it, which is how a
+    // language change reaches the server
     await addSubscription(record)
     return NextResponse.json({ success: true, action: 'subscribed' })
   } catch (error) {
@@ -1,6 +1,7 @@
 import type { Metadata, Viewport } from 'next'
 import { Inter } from 'next/font/google'
 import './globals.css'
+import { LocaleProvider } from '@/components/LocaleProvider'
 
 const inter = Inter({
   subsets: ['latin'],
@@ -42,7 +43,7 @@ const RootLayout = ({
         />
       </head>
       <body className={`${inter.variable} font-sans antialiased`}>
-        {children}
+        <LocaleProvider>{children}</LocaleProvider>
       </body>
     </html>
   )
@@ -1,11 +1,18 @@
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
 import type {
   Property,
   AppNotification,
+  DealRating,
   FilterSettings,
   LivabilityScore,
+  ListingLifecycle,
+  Locale,
+  PipelineLease,
+  PollRun,
+  PropertyDetails,
 } from '@/lib/types'
 import { useFavorites } from '@/hooks/useFavorites'
 import PropertyCard from '@/components/PropertyCard'
@@ -14,17 +21,55 @@ import NotificationBanner from '@/components/NotificationBanner'
 import SubscribeButton from '@/components/SubscribeButton'
 import InstallPrompt from '@/components/InstallPrompt'
 import SettingsPanel from '@/components/SettingsPanel'
+import { useLocale } from '@/components/LocaleProvider'
+import { formatTimeAgo } from '@/lib/i18n'
 
 type Tab = 'listings' | 'favorites'
 
+type SortOrder = 'newest' | 'deal'
+
 type ListingsData = {
   listings: Property[]
   lastPoll: string | null
   notifications: AppNotification[]
+  details?: Record<string, PropertyDetails>
+  lifecycles?: Record<string, ListingLifecycle>
+  // Ratings against the current results, so replaced rather than merged
+  deals?: Record<string, DealRating>
   count: number
   searchUrl?: string
 }
 
+// How often to check whether a run we're waiting for has finished
+const RUN_CHECK_INTERVAL_MS = 3000
+
+// Favorites sent per details request, matching what the server scrapes
+const DETAILS_BATCH_SIZE = 5
+
+/**
+ * Waits for the pipeline run that held the lease when we asked (it shows
+ * up in the poll log once done), so a refresh or settings change can wait
+ * out a concurrent poll instead of failing.
+ */
+const waitForRun = async (run: PipelineLease | null): Promise<void> => {
+  const deadline = run
+    ? Date.parse(run.expiresAt)
+    : Date.now() + RUN_CHECK_INTERVAL_MS
+
+  while (Date.now() < deadline) {
+    await new Promise((r) => setTimeout(r, RUN_CHECK_INTERVAL_MS))
+    if (!run) return
+    try {
+      const response = await fetch('/api/polls?limit=10')
+      if (!response.ok) continue
+      const { runs } = (await response.json()) as { runs: PollRun[] }
+      if (runs.some((r) => r.id === run.runId)) return
+    } catch {
+      // Keep waiting until the lease runs out
+    }
+  }
+}
+
 const HomePage = () => {
   const [tab, setTab] = useState<Tab>('listings')
   const [data, setData] = useState<ListingsData | null>(null)
@@ -33,8 +78,16 @@ const HomePage = () => {
   const [settingsOpen, setSettingsOpen] = useState(false)
   const [scores, setScores] = useState<Record<string, LivabilityScore>>({})
   const [scoresLoading, setScoresLoading] = useState(false)
+  const [details, setDetails] = useState<Record<string, PropertyDetails>>({})
+  const requestedDetails = useRef(new Set<number>())
+  const [lifecycles, setLifecycles] = useState<
+    Record<string, ListingLifecycle>
+  >({})
+  const [deals, setDeals] = useState<Record<string, DealRating>>({})
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest')
   const [refreshing, setRefreshing] = useState(false)
   const [showUpdateToast, setShowUpdateToast] = useState(false)
+  const { locale, t } = useLocale()
 
   const {
     favorites,
@@ -90,6 +143,9 @@ const HomePage = () => {
       if (!response.ok) throw new Error('Failed to fetch listings')
       const json = (await response.json()) as ListingsData
       setData(json)
+      setDetails((prev) => ({ ...prev, ...json.details }))
+      setLifecycles((prev) => ({ ...prev, ...json.lifecycles }))
+      setDeals(json.deals ?? {})
       // Fetch scores asynchronously after listings load
       fetchScores(json.listings)
     } catch (err) {
@@ -103,10 +159,18 @@ const HomePage = () => {
     try {
       setRefreshing(true)
       setError(null)
-      const response = await fetch('/api/refresh', { method: 'POST' })
+      let response = await fetch('/api/refresh', { method: 'POST' })
+      if (response.status === 409) {
+        // Another run is already fetching; show its results once it's done
+        const { run } = (await response.json()) as { run: PipelineLease | null }
+        await waitForRun(run)
+        response = await fetch('/api/listings')
+      }
       if (!response.ok) throw new Error('Refresh failed')
       const json = (await response.json()) as ListingsData
       setData(json)
+      setLifecycles((prev) => ({ ...prev, ...json.lifecycles }))
+      setDeals(json.deals ?? {})
       fetchScores(json.listings)
 
       // Update the SW listings cache so next app open shows fresh data
@@ -120,11 +184,20 @@ const HomePage = () => {
 
   const handleApplyFilters = useCallback(
     async (filters: FilterSettings) => {
-      const response = await fetch('/api/settings', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(filters),
-      })
+      const saveSettings = () =>
+        fetch('/api/settings', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(filters),
+        })
+
+      let response = await saveSettings()
+      if (response.status === 409) {
+        // Re-seed once the run in progress has finished
+        const { run } = (await response.json()) as { run: PipelineLease | null }
+        await waitForRun(run)
+        response = await saveSettings()
+      }
 
       if (!response.ok) throw new Error('Failed to save settings')
 
@@ -138,6 +211,7 @@ const HomePage = () => {
         notifications: prev?.notifications ?? [],
         searchUrl: undefined,
       }))
+      setDeals(json.deals ?? {})
 
       // Fetch scores for the new listings
       fetchScores(json.listings)
@@ -148,6 +222,42 @@ const HomePage = () => {
     [fetchScores]
   )
 
+  // Scrape details for favorites, which may have left the search results.
+  // Each favorite is only asked for once, found or not.
+  useEffect(() => {
+    if (!favoritesLoaded) return
+    const missing = favorites
+      .map((property) => property.id)
+      .filter(
+        (id) => !(String(id) in details) && !requestedDetails.current.has(id)
+      )
+    if (missing.length === 0) return
+    missing.forEach((id) => requestedDetails.current.add(id))
+
+    const fetchFavoriteDetails = async () => {
+      // The server scrapes only a few pages per request
+      for (let i = 0; i < missing.length; i += DETAILS_BATCH_SIZE) {
+        const ids = missing.slice(i, i + DETAILS_BATCH_SIZE)
+        try {
+          const response = await fetch('/api/details', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ids }),
+          })
+          if (!response.ok) throw new Error('Failed to fetch details')
+          const json = await response.json()
+          setDetails((prev) => ({ ...prev, ...json.details }))
+        } catch (err) {
+          console.error('Details fetch error:', err)
+          // Retried on the next change to favorites
+          ids.forEach((id) => requestedDetails.current.delete(id))
+        }
+      }
+    }
+
+    fetchFavoriteDetails()
+  }, [favoritesLoaded, favorites, details])
+
   // Swipe-to-open settings from left edge
   const edgeSwipeStartX = useRef(0)
   const edgeSwipeActive = useRef(false)
@@ -215,7 +325,7 @@ const HomePage = () => {
   }, [fetchListings])
 
   const lastPollFormatted = data?.lastPoll
-    ? formatLastPoll(data.lastPoll)
+    ? formatLastPoll(locale, data.lastPoll)
     : null
 
   return (
@@ -227,7 +337,7 @@ const HomePage = () => {
             {/* Hamburger menu */}
             <button
               onClick={() => setSettingsOpen(true)}
-              aria-label="Open search filters"
+              aria-label={t('openFilters')}
               tabIndex={0}
               className="flex h-8 w-8 items-center justify-center rounded-lg text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-hover)] hover:text-[var(--color-text)]"
             >
@@ -258,13 +368,13 @@ const HomePage = () => {
           <TabButton
             active={tab === 'listings'}
             onClick={() => setTab('listings')}
-            label="Listings"
+            label={t('tabListings')}
             count={data?.count ?? 0}
           />
           <TabButton
             active={tab === 'favorites'}
             onClick={() => setTab('favorites')}
-            label="Favorites"
+            label={t('tabFavorites')}
             count={favoritesCount}
           />
         </div>
@@ -276,12 +386,12 @@ const HomePage = () => {
           <div className="flex items-center gap-2">
             <span>
               {loading
-                ? 'Loading...'
+                ? t('loading')
                 : error
-                  ? 'Error loading data'
+                  ? t('errorLoading')
                   : tab === 'listings'
-                    ? `${data?.count ?? 0} listings`
-                    : `${favoritesCount} saved`}
+                    ? t('listingsCount', { count: data?.count ?? 0 })
+                    : t('savedCount', { count: favoritesCount })}
             </span>
             {/* View on e-housing link */}
             {tab === 'listings' && data?.searchUrl && (
@@ -290,7 +400,7 @@ const HomePage = () => {
                 target="_blank"
                 rel="noopener noreferrer"
                 className="flex items-center gap-1 text-[var(--color-accent)] hover:underline"
-                aria-label="View search on e-housing.jp"
+                aria-label={t('viewSearchOnEhousing')}
               >
                 <svg
                   width="10"
@@ -309,13 +419,39 @@ const HomePage = () => {
                 e-housing
               </a>
             )}
+            {tab === 'listings' && (
+              <select
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                aria-label={t('sortBy')}
+                className="rounded-md bg-transparent text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text)]"
+              >
+                <option value="newest">{t('sortNewest')}</option>
+                <option value="deal">{t('sortBestDeal')}</option>
+              </select>
+            )}
           </div>
           <div className="flex items-center gap-2">
-            {lastPollFormatted && <span>Checked {lastPollFormatted}</span>}
+            <Link
+              href="/stats"
+              aria-label={t('viewMarketStats')}
+              className="hover:text-[var(--color-accent)] hover:underline"
+            >
+              {t('marketStats')}
+            </Link>
+            {lastPollFormatted && (
+              <Link
+                href="/status"
+                aria-label={t('viewStatus')}
+                className="hover:text-[var(--color-accent)] hover:underline"
+              >
+                {t('checkedAt', { time: lastPollFormatted })}
+              </Link>
+            )}
             <button
               onClick={handleRefresh}
               disabled={refreshing}
-              aria-label="Refresh listings"
+              aria-label={t('refreshListings')}
               tabIndex={0}
               className="flex h-6 w-6 items-center justify-center rounded-md text-[var(--color-text-secondary)] transition-colors hover:bg-[var(--color-surface-hover)] hover:text-[var(--color-accent)] disabled:opacity-40"
             >
@@ -344,7 +480,7 @@ const HomePage = () => {
               onClick={fetchListings}
               className="mt-2 text-sm font-medium text-[var(--color-accent)] hover:underline"
             >
-              Try again
+              {t('tryAgain')}
             </button>
           </div>
         )}
@@ -376,14 +512,16 @@ const HomePage = () => {
               <NotificationBanner notifications={data.notifications} />
             )}
 
-            {/* Property cards - sorted newest first */}
+            {/* Property cards - newest or best deal first */}
             {data.listings.length > 0 ? (
               <div className="space-y-4">
                 {[...data.listings]
-                  .sort(
-                    (a, b) =>
-                      new Date(b.created_at).getTime() -
-                      new Date(a.created_at).getTime()
+                  .sort((a, b) =>
+                    sortOrder === 'deal'
+                      ? (deals[String(b.id)]?.score ?? -1) -
+                        (deals[String(a.id)]?.score ?? -1)
+                      : new Date(b.created_at).getTime() -
+                        new Date(a.created_at).getTime()
                   )
                   .map((property) => (
                   <PropertyCard
@@ -393,12 +531,15 @@ const HomePage = () => {
                     onToggleFavorite={toggleFavorite}
                     score={scores[String(property.id)]}
                     scoreLoading={scoresLoading}
+                    details={details[String(property.id)]}
+                    lifecycle={lifecycles[String(property.id)]}
+                    deal={deals[String(property.id)]}
                   />
                 ))}
               </div>
             ) : (
               !loading && (
-                <EmptyState message="No listings found. Try adjusting your filters or wait for the next poll." />
+                <EmptyState message={t('noListings')} />
               )
             )}
           </div>
@@ -410,6 +551,9 @@ const HomePage = () => {
             favorites={favorites}
             isFavorite={isFavorite}
             onToggleFavorite={toggleFavorite}
+            details={details}
+            lifecycles={lifecycles}
+            deals={deals}
           />
         )}
       </main>
@@ -508,6 +652,8 @@ const UpdateToast = ({
   onRefresh: () => void
   onDismiss: () => void
 }) => {
+  const { t } = useLocale()
+
   useEffect(() => {
     if (!visible) return
     const timer = setTimeout(onDismiss, 15000)
@@ -534,18 +680,18 @@ const UpdateToast = ({
           </svg>
         </div>
         <span className="text-sm text-[var(--color-text)]">
-          Listings updated
+          {t('listingsUpdated')}
         </span>
         <button
           onClick={onRefresh}
           className="rounded-full bg-[var(--color-accent)] px-3 py-1 text-xs font-semibold text-white"
           tabIndex={0}
         >
-          Refresh
+          {t('refresh')}
         </button>
         <button
           onClick={onDismiss}
-          aria-label="Dismiss"
+          aria-label={t('dismiss')}
           tabIndex={0}
           className="p-0.5 text-[var(--color-text-secondary)] hover:text-[var(--color-text)]"
         >
@@ -567,17 +713,12 @@ const UpdateToast = ({
   )
 }
 
-const formatLastPoll = (timestamp: string): string => {
-  const now = Date.now()
-  const then = new Date(timestamp).getTime()
-  const diffMs = now - then
-  const diffMin = Math.floor(diffMs / 60000)
-  const diffHr = Math.floor(diffMin / 60)
-
-  if (diffMin < 1) return 'just now'
-  if (diffMin < 60) return `${diffMin}m ago`
-  if (diffHr < 24) return `${diffHr}h ago`
-  return new Date(timestamp).toLocaleDateString()
+const formatLastPoll = (locale: Locale, timestamp: string): string => {
+  const diffHr = (Date.now() - new Date(timestamp).getTime()) / 3600000
+  if (diffHr < 24) return formatTimeAgo(locale, timestamp)
+  return new Date(timestamp).toLocaleDateString(
+    locale === 'ja' ? 'ja-JP' : undefined
+  )
 }
 
 export default HomePage
@@ -0,0 +1,255 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { MarketStats } from '@/lib/types'
+import { useCatalog } from '@/hooks/useCatalog'
+import { useLocale } from '@/components/LocaleProvider'
+import StatsChart from '@/components/StatsChart'
+
+type StatsData = {
+  ward: string
+  layout: string
+  series: MarketStats[]
+  latest: MarketStats[]
+}
+
+// The combined series, as named by the stats API
+const ALL = 'all'
+
+const DAY_OPTIONS = [30, 90, 365]
+
+const formatYen = (value: number) => `¥${Math.round(value).toLocaleString()}`
+
+const selectClass =
+  'rounded-lg border border-[var(--color-border)] bg-[var(--color-surface-hover)] px-2 py-1.5 text-sm text-[var(--color-text)]'
+
+const StatsPage = () => {
+  const [ward, setWard] = useState(ALL)
+  const [layout, setLayout] = useState(ALL)
+  const [days, setDays] = useState(DAY_OPTIONS[1])
+  const [data, setData] = useState<StatsData | null>(null)
+  const [failed, setFailed] = useState(false)
+  const catalog = useCatalog()
+  const { t } = useLocale()
+
+  useEffect(() => {
+    const loadStats = async () => {
+      try {
+        const params = new URLSearchParams({ ward, layout, days: String(days) })
+        const response = await fetch(`/api/stats?${params}`)
+        if (!response.ok) throw new Error('Failed to fetch statistics')
+        setData((await response.json()) as StatsData)
+        setFailed(false)
+      } catch (err) {
+        console.error('Stats fetch error:', err)
+        setFailed(true)
+      }
+    }
+
+    loadStats()
+  }, [ward, layout, days])
+
+  const wardName = (slug: string) =>
+    slug === ALL
+      ? t('allWards')
+      : (catalog.wards.find((w) => w.slug === slug)?.name ?? slug)
+
+  const latest = data?.latest ?? []
+  const wardOptions = Array.from(
+    new Set(latest.filter((s) => s.ward !== ALL).map((s) => s.ward))
+  ).sort()
+  const layoutOptions = Array.from(
+    new Set(latest.filter((s) => s.layout !== ALL).map((s) => s.layout))
+  ).sort()
+  const comparison = latest
+    .filter((s) => s.ward !== ALL && s.layout === layout)
+    .sort((a, b) => b.medianRentPerSqm - a.medianRentPerSqm)
+
+  const series = data?.series ?? []
+  const current = series[series.length - 1]
+
+  return (
+    <div className="mx-auto min-h-dvh max-w-lg pb-24">
+      <header className="sticky top-0 z-40 border-b border-[var(--color-border)] bg-[var(--color-bg)]/95 backdrop-blur-sm">
+        <div className="flex items-center gap-2 px-4 py-3">
+          <Link
+            href="/"
+            aria-label={t('backToListings')}
+            className="flex h-8 w-8 items-center justify-center rounded-lg text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-hover)] hover:text-[var(--color-text)]"
+          >
+            <svg
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M15 18l-6-6 6-6" />
+            </svg>
+          </Link>
+          <h1 className="text-lg font-bold text-[var(--color-text)]">
+            {t('marketStats')}
+          </h1>
+        </div>
+      </header>
+
+      <main className="space-y-4 px-4 py-4">
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={ward}
+            onChange={(e) => setWard(e.target.value)}
+            aria-label={t('wards')}
+            className={selectClass}
+          >
+            <option value={ALL}>{t('allWards')}</option>
+            {wardOptions.map((slug) => (
+              <option key={slug} value={slug}>
+                {wardName(slug)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={layout}
+            onChange={(e) => setLayout(e.target.value)}
+            aria-label={t('allLayouts')}
+            className={selectClass}
+          >
+            <option value={ALL}>{t('allLayouts')}</option>
+            {layoutOptions.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            aria-label={t('lastDays', { count: days })}
+            className={selectClass}
+          >
+            {DAY_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t('lastDays', { count: option })}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-[var(--color-text-secondary)]">
+          {t('statsScope')}
+        </p>
+
+        {failed ? (
+          <p className="text-sm text-red-400">{t('statsFailed')}</p>
+        ) : !data ? (
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            {t('loadingStats')}
+          </p>
+        ) : !current ? (
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            {t('noStats')}
+          </p>
+        ) : (
+          <>
+            <StatsChart
+              title={t('medianRent')}
+              points={series.map((s) => ({
+                date: s.date,
+                value: s.rent.median,
+                low: s.rent.p25,
+                high: s.rent.p75,
+              }))}
+              format={formatYen}
+            />
+            <p className="-mt-2 text-xs text-[var(--color-text-secondary)]">
+              {t('rentRange', {
+                low: current.rent.p25.toLocaleString(),
+                high: current.rent.p75.toLocaleString(),
+              })}
+            </p>
+            <StatsChart
+              title={t('rentPerSqm')}
+              points={series.map((s) => ({
+                date: s.date,
+                value: s.medianRentPerSqm,
+              }))}
+              format={formatYen}
+            />
+            <StatsChart
+              title={t('listingCountLabel')}
+              points={series.map((s) => ({
+                date: s.date,
+                value: s.listingCount,
+              }))}
+              format={(v) => String(Math.round(v))}
+            />
+            <StatsChart
+              title={t('newListingsPerDay')}
+              points={series.map((s) => ({
+                date: s.date,
+                value: s.newListings,
+              }))}
+              format={(v) => String(Math.round(v))}
+            />
+            <StatsChart
+              title={t('daysOnMarket')}
+              points={series.map((s) => ({
+                date: s.date,
+                value: s.medianDaysOnMarket,
+              }))}
+              format={(v) => v.toFixed(1)}
+            />
+
+            {comparison.length > 1 && (
+              <section>
+                <h2 className="mb-2 text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
+                  {t('compareWards')}
+                </h2>
+                <table className="w-full text-sm">
+                  <thead className="text-xs text-[var(--color-text-secondary)]">
+                    <tr>
+                      <th className="py-1 text-left font-medium">
+                        {t('wardColumn')}
+                      </th>
+                      <th className="py-1 text-right font-medium">
+                        {t('listingCountLabel')}
+                      </th>
+                      <th className="py-1 text-right font-medium">
+                        {t('medianRent')}
+                      </th>
+                      <th className="py-1 text-right font-medium">
+                        {t('rentPerSqm')}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-[var(--color-text)]">
+                    {comparison.map((s) => (
+                      <tr
+                        key={s.ward}
+                        className="border-t border-[var(--color-border)]"
+                      >
+                        <td className="py-1.5">{wardName(s.ward)}</td>
+                        <td className="py-1.5 text-right">{s.listingCount}</td>
+                        <td className="py-1.5 text-right">
+                          {formatYen(s.rent.median)}
+                        </td>
+                        <td className="py-1.5 text-right">
+                          {formatYen(s.medianRentPerSqm)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default StatsPage
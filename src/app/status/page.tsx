@@ -0,0 +1,210 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { HealthState, PollRun, PollRunKind } from '@/lib/types'
+import type { MessageKey } from '@/lib/i18n'
+import { describeHealthBreach, formatTimeAgo } from '@/lib/i18n'
+import { useLocale } from '@/components/LocaleProvider'
+
+type PollsData = {
+  runs: PollRun[]
+  lastSuccessfulPoll: string | null
+  health: HealthState | null
+}
+
+// Polls run at most 3 hours apart (see the schedule settings)
+const STALE_AFTER_MS = 4 * 60 * 60 * 1000
+
+const RUN_LABELS: Record<PollRunKind, MessageKey> = {
+  poll: 'runPoll',
+  refresh: 'runRefresh',
+  reseed: 'runReseed',
+}
+
+const isStale = (timestamp: string | null): boolean =>
+  !timestamp || Date.now() - new Date(timestamp).getTime() > STALE_AFTER_MS
+
+const StatusPage = () => {
+  const [data, setData] = useState<PollsData | null>(null)
+  const [failed, setFailed] = useState(false)
+  const { locale, t } = useLocale()
+
+  useEffect(() => {
+    const loadRuns = async () => {
+      try {
+        const response = await fetch('/api/polls')
+        if (!response.ok) throw new Error('Failed to fetch poll runs')
+        setData((await response.json()) as PollsData)
+      } catch (err) {
+        console.error('Status fetch error:', err)
+        setFailed(true)
+      }
+    }
+
+    loadRuns()
+  }, [])
+
+  const breaches = data?.health?.breaches ?? []
+  const healthy = data
+    ? !isStale(data.lastSuccessfulPoll) && breaches.length === 0
+    : false
+
+  return (
+    <div className="mx-auto min-h-dvh max-w-lg pb-24">
+      <header className="sticky top-0 z-40 border-b border-[var(--color-border)] bg-[var(--color-bg)]/95 backdrop-blur-sm">
+        <div className="flex items-center gap-2 px-4 py-3">
+          <Link
+            href="/"
+            aria-label={t('backToListings')}
+            className="flex h-8 w-8 items-center justify-center rounded-lg text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-hover)] hover:text-[var(--color-text)]"
+          >
+            <svg
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M15 18l-6-6 6-6" />
+            </svg>
+          </Link>
+          <h1 className="text-lg font-bold text-[var(--color-text)]">
+            {t('status')}
+          </h1>
+        </div>
+      </header>
+
+      <main className="space-y-6 px-4 py-4">
+        {failed ? (
+          <p className="text-sm text-red-400">{t('statusFailed')}</p>
+        ) : !data ? (
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            {t('loadingStatus')}
+          </p>
+        ) : (
+          <>
+            {/* Overall health */}
+            <div
+              className={`rounded-xl border p-4 ${
+                healthy
+                  ? 'border-[var(--color-success)]/30 bg-[var(--color-success)]/10'
+                  : 'border-red-500/30 bg-red-500/10'
+              }`}
+            >
+              <p
+                className={`text-sm font-semibold ${healthy ? 'text-[var(--color-success)]' : 'text-red-400'}`}
+              >
+                {healthy
+                  ? t('statusHealthy')
+                  : !isStale(data.lastSuccessfulPoll)
+                    ? t('statusBroken')
+                    : data.lastSuccessfulPoll
+                      ? t('statusStale', {
+                          time: formatTimeAgo(locale, data.lastSuccessfulPoll),
+                        })
+                      : t('statusNever')}
+              </p>
+              {breaches.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {breaches.map((breach) => (
+                    <li key={breach.rule} className="text-xs text-red-400">
+                      {describeHealthBreach(locale, breach)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Run log */}
+            <section>
+              <h2 className="mb-3 text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
+                {t('recentRuns')}
+              </h2>
+              {data.runs.length === 0 ? (
+                <p className="text-sm text-[var(--color-text-secondary)]">
+                  {t('noRuns')}
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {data.runs.map((run) => (
+                    <RunItem key={run.id} run={run} />
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+const RunItem = ({ run }: { run: PollRun }) => {
+  const { locale, t } = useLocale()
+
+  return (
+    <li className="rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span
+            className={`h-2 w-2 rounded-full ${
+              !run.success
+                ? 'bg-red-400'
+                : run.degraded
+                  ? 'bg-[var(--color-warning)]'
+                  : 'bg-[var(--color-success)]'
+            }`}
+          />
+          <span className="text-sm font-medium text-[var(--color-text)]">
+            {t(RUN_LABELS[run.kind])}
+          </span>
+          {!run.success && (
+            <span className="text-xs text-red-400">{t('runFailed')}</span>
+          )}
+          {run.success && run.degraded && (
+            <span className="text-xs text-[var(--color-warning)]">
+              {t('runDegraded')}
+            </span>
+          )}
+        </div>
+        <time
+          dateTime={run.startedAt}
+          className="shrink-0 text-xs text-[var(--color-text-secondary)]"
+        >
+          {formatTimeAgo(locale, run.startedAt)}
+        </time>
+      </div>
+
+      <div className="mt-1 space-y-0.5 text-xs text-[var(--color-text-secondary)]">
+        {run.success ? (
+          <>
+            <p>
+              {t('runSummary', {
+                total: run.totalListings,
+                pages: run.pageCount,
+                duration: (run.durationMs / 1000).toFixed(1),
+              })}
+            </p>
+            <p>
+              {t('runChanges', {
+                new: run.newListings,
+                removed: run.removedListings,
+                changed: run.changedListings,
+              })}
+              {run.notificationsSent > 0 &&
+                ` · ${t('runNotifications', { count: run.notificationsSent })}`}
+            </p>
+          </>
+        ) : (
+          <p className="break-words text-red-400/80">{run.error}</p>
+        )}
+      </div>
+    </li>
+  )
+}
+
+export default StatusPage
@@ -0,0 +1,53 @@
+'use client'
+
+import { useLocale } from './LocaleProvider'
+
+// Deal scores a new listing must reach to be pushed; undefined pushes all
+const THRESHOLD_OPTIONS = [undefined, 5, 6, 7, 8]
+
+type DealThresholdSelectorProps = {
+  minDealScore?: number
+  onChange: (minDealScore: number | undefined) => void
+}
+
+const DealThresholdSelector = ({
+  minDealScore,
+  onChange,
+}: DealThresholdSelectorProps) => {
+  const { t } = useLocale()
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
+        {t('dealAlerts')}
+      </h3>
+      <p className="text-xs text-[var(--color-text-secondary)]">
+        {t('dealAlertsHint')}
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        {THRESHOLD_OPTIONS.map((option) => {
+          const isSelected = option === minDealScore
+          return (
+            <button
+              key={option ?? 'any'}
+              onClick={() => onChange(option)}
+              aria-pressed={isSelected}
+              tabIndex={0}
+              className={`rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
+                isSelected
+                  ? 'bg-[var(--color-accent)]/20 text-[var(--color-accent)] border border-[var(--color-accent)]/40'
+                  : 'bg-[var(--color-surface-hover)] text-[var(--color-text-secondary)] border border-transparent hover:border-[var(--color-border)]'
+              }`}
+            >
+              {option === undefined
+                ? t('dealAlertsAny')
+                : t('dealAlertsMin', { score: option })}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default DealThresholdSelector
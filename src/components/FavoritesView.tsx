@@ -1,19 +1,33 @@
 'use client'
 
-import type { Property } from '@/lib/types'
+import type {
+  DealRating,
+  ListingLifecycle,
+  Property,
+  PropertyDetails,
+} from '@/lib/types'
 import PropertyCard from './PropertyCard'
+import { useLocale } from './LocaleProvider'
 
 type FavoritesViewProps = {
   favorites: Property[]
   isFavorite: (id: number) => boolean
   onToggleFavorite: (property: Property) => void
+  details?: Record<string, PropertyDetails>
+  lifecycles?: Record<string, ListingLifecycle>
+  deals?: Record<string, DealRating>
 }
 
 const FavoritesView = ({
   favorites,
   isFavorite,
   onToggleFavorite,
+  details,
+  lifecycles,
+  deals,
 }: FavoritesViewProps) => {
+  const { t } = useLocale()
+
   if (favorites.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-16 text-center">
@@ -32,11 +46,10 @@ const FavoritesView = ({
           </svg>
         </div>
         <h3 className="mb-1 text-base font-semibold text-[var(--color-text)]">
-          No favorites yet
+          {t('noFavorites')}
         </h3>
         <p className="max-w-xs text-sm text-[var(--color-text-secondary)]">
-          Tap the heart icon on any listing to save it here for easy access
-          later.
+          {t('noFavoritesHint')}
         </p>
       </div>
     )
@@ -50,6 +63,9 @@ const FavoritesView = ({
           property={property}
           isFavorite={isFavorite(property.id)}
           onToggleFavorite={onToggleFavorite}
+          details={details?.[String(property.id)]}
+          lifecycle={lifecycles?.[String(property.id)]}
+          deal={deals?.[String(property.id)]}
         />
       ))}
     </div>
@@ -0,0 +1,236 @@
+'use client'
+
+import type { FilterSettings } from '@/lib/types'
+import {
+  AREA_STEPS,
+  BEDROOM_OPTIONS,
+  FEATURE_OPTIONS,
+  PRICE_MAX,
+  PRICE_STEP,
+  WALKING_OPTIONS,
+  formatAreaTo,
+  parseAreaTo,
+} from '@/lib/filters'
+import { useLocale } from './LocaleProvider'
+
+const PRICE_STEPS = Array.from(
+  { length: PRICE_MAX / PRICE_STEP + 1 },
+  (_, i) => i * PRICE_STEP
+)
+
+const MAX_AREA = AREA_STEPS[AREA_STEPS.length - 1]
+
+const headingClass =
+  'text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]'
+
+const optionClass = (isSelected: boolean) =>
+  `rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
+    isSelected
+      ? 'bg-[var(--color-accent)]/20 text-[var(--color-accent)] border border-[var(--color-accent)]/40'
+      : 'bg-[var(--color-surface-hover)] text-[var(--color-text-secondary)] border border-transparent hover:border-[var(--color-border)]'
+  }`
+
+type FilterEditorProps = {
+  filters: FilterSettings
+  onChange: (changes: Partial<FilterSettings>) => void
+}
+
+/**
+ * Edits the search criteria besides wards and the search area: rent and
+ * floor area ranges, walking time, bedrooms and features.
+ */
+const FilterEditor = ({ filters, onChange }: FilterEditorProps) => {
+  const { t } = useLocale()
+
+  const formatArea = (area: number) =>
+    area >= MAX_AREA ? t('areaOpenValue', { area }) : t('areaValue', { area })
+
+  const knownFeatures = new Set(FEATURE_OPTIONS.map((option) => option.id))
+  const features = [
+    ...FEATURE_OPTIONS.map(({ id, label }) => ({ id, label: t(label) })),
+    // Features saved by hand or before the editor existed
+    ...filters.features
+      .filter((id) => !knownFeatures.has(id))
+      .map((id) => ({ id, label: t('featureId', { id }) })),
+  ]
+
+  const toggleFeature = (id: number) =>
+    onChange({
+      features: filters.features.includes(id)
+        ? filters.features.filter((f) => f !== id)
+        : [...filters.features, id],
+    })
+
+  return (
+    <>
+      <RangeSlider
+        label={t('rent')}
+        steps={PRICE_STEPS}
+        from={filters.priceFrom}
+        to={filters.priceTo}
+        format={(amount) => t('rentValue', { amount: amount.toLocaleString() })}
+        onChange={(priceFrom, priceTo) => onChange({ priceFrom, priceTo })}
+      />
+
+      <RangeSlider
+        label={t('floorArea')}
+        steps={AREA_STEPS}
+        from={filters.areaFrom}
+        to={parseAreaTo(filters.areaTo) ?? MAX_AREA}
+        format={formatArea}
+        onChange={(areaFrom, areaTo) =>
+          onChange({ areaFrom, areaTo: formatAreaTo(areaTo) })
+        }
+      />
+
+      <div className="space-y-2">
+        <h3 className={headingClass}>{t('walkToStation')}</h3>
+        <div className="grid grid-cols-3 gap-2">
+          {WALKING_OPTIONS.map((minutes) => {
+            const isSelected = minutes === filters.walkingDistanceTo
+            return (
+              <button
+                key={minutes}
+                onClick={() => onChange({ walkingDistanceTo: minutes })}
+                aria-pressed={isSelected}
+                tabIndex={0}
+                className={optionClass(isSelected)}
+              >
+                {t('walkUpTo', { count: minutes })}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className={headingClass}>{t('bedroomsFilter')}</h3>
+        <div className="grid grid-cols-5 gap-2">
+          {BEDROOM_OPTIONS.map((count) => {
+            const isSelected = count === filters.bedRooms
+            return (
+              <button
+                key={count ?? 'any'}
+                onClick={() => onChange({ bedRooms: count })}
+                aria-pressed={isSelected}
+                tabIndex={0}
+                className={optionClass(isSelected)}
+              >
+                {count === undefined ? t('anyBedrooms') : count}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className={headingClass}>
+          {t('features')}
+          {filters.features.length > 0 && (
+            <span className="ml-2 text-[var(--color-accent)]">
+              ({filters.features.length})
+            </span>
+          )}
+        </h3>
+        <div className="grid grid-cols-2 gap-2">
+          {features.map(({ id, label }) => {
+            const isSelected = filters.features.includes(id)
+            return (
+              <button
+                key={id}
+                onClick={() => toggleFeature(id)}
+                aria-pressed={isSelected}
+                tabIndex={0}
+                className={`text-left ${optionClass(isSelected)}`}
+              >
+                {label}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    </>
+  )
+}
+
+// --- Range Slider ---
+
+type RangeSliderProps = {
+  label: string
+  steps: number[]
+  from: number
+  to: number
+  format: (value: number) => string
+  onChange: (from: number, to: number) => void
+}
+
+// Index of the step closest to a value that may not be on a step
+const nearestStep = (steps: number[], value: number): number =>
+  steps.reduce(
+    (best, step, i) =>
+      Math.abs(step - value) < Math.abs(steps[best] - value) ? i : best,
+    0
+  )
+
+/**
+ * A minimum and a maximum slider over the same steps. Moving one past the
+ * other drags it along, so the range never inverts.
+ */
+const RangeSlider = ({
+  label,
+  steps,
+  from,
+  to,
+  format,
+  onChange,
+}: RangeSliderProps) => {
+  const { t } = useLocale()
+  const fromIndex = nearestStep(steps, from)
+  const toIndex = nearestStep(steps, to)
+  const last = steps.length - 1
+
+  return (
+    <div className="space-y-2">
+      <h3 className={headingClass}>
+        {label}
+        <span className="ml-2 normal-case tracking-normal text-[var(--color-accent)]">
+          {format(from)} – {format(to)}
+        </span>
+      </h3>
+      <label className="flex items-center gap-3 text-xs text-[var(--color-text-secondary)]">
+        <span className="w-8">{t('rangeMin')}</span>
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={fromIndex}
+          onChange={(e) => {
+            const index = Number(e.target.value)
+            onChange(steps[index], steps[Math.max(index, toIndex)])
+          }}
+          aria-label={`${label} ${t('rangeMin')}`}
+          aria-valuetext={format(from)}
+          className="flex-1 accent-[var(--color-accent)]"
+        />
+      </label>
+      <label className="flex items-center gap-3 text-xs text-[var(--color-text-secondary)]">
+        <span className="w-8">{t('rangeMax')}</span>
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={toIndex}
+          onChange={(e) => {
+            const index = Number(e.target.value)
+            onChange(steps[Math.min(index, fromIndex)], steps[index])
+          }}
+          aria-label={`${label} ${t('rangeMax')}`}
+          aria-valuetext={format(to)}
+          className="flex-1 accent-[var(--color-accent)]"
+        />
+      </label>
+    </div>
+  )
+}
+
+export default FilterEditor
@@ -0,0 +1,46 @@
+'use client'
+
+import type { Locale } from '@/lib/types'
+import type { MessageKey } from '@/lib/i18n'
+import { LOCALES } from '@/lib/i18n'
+import { useLocale } from './LocaleProvider'
+
+const LOCALE_LABELS: Record<Locale, MessageKey> = {
+  en: 'localeEn',
+  ja: 'localeJa',
+  both: 'localeBoth',
+}
+
+const LanguageSelector = () => {
+  const { locale, setLocale, t } = useLocale()
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
+        {t('language')}
+      </h3>
+      <div className="grid grid-cols-3 gap-2">
+        {LOCALES.map((option) => {
+          const isSelected = option === locale
+          return (
+            <button
+              key={option}
+              onClick={() => setLocale(option)}
+              aria-pressed={isSelected}
+              tabIndex={0}
+              className={`rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
+                isSelected
+                  ? 'bg-[var(--color-accent)]/20 text-[var(--color-accent)] border border-[var(--color-accent)]/40'
+                  : 'bg-[var(--color-surface-hover)] text-[var(--color-text-secondary)] border border-transparent hover:border-[var(--color-border)]'
+              }`}
+            >
+              {t(LOCALE_LABELS[option])}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default LanguageSelector
@@ -0,0 +1,118 @@
+'use client'
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+} from 'react'
+import type { Locale } from '@/lib/types'
+import type { MessageKey } from '@/lib/i18n'
+import { DEFAULT_LOCALE, isLocale, localizeName, translate } from '@/lib/i18n'
+
+const STORAGE_KEY = 'aparto_locale'
+
+type LocaleContextValue = {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: (key: MessageKey, params?: Record<string, string | number>) => string
+  localize: (
+    value: string,
+    langs: Record<string, string> | null | undefined
+  ) => string
+}
+
+const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+  localize: (value, langs) => localizeName(value, langs, DEFAULT_LOCALE),
+})
+
+// Components re-read the stored locale whenever it changes, in this tab
+// (via setLocale) or another one (via the storage event)
+const listeners = new Set<() => void>()
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener)
+  window.addEventListener('storage', listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', listener)
+  }
+}
+
+const readLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return isLocale(stored) ? stored : DEFAULT_LOCALE
+  } catch {
+    return DEFAULT_LOCALE
+  }
+}
+
+/**
+ * Re-registers this device's push subscription (if any) so the server
+ * sends notifications in the new language.
+ */
+const syncSubscriptionLocale = async (locale: Locale) => {
+  if (!('serviceWorker' in navigator)) return
+  try {
+    const registration = await navigator.serviceWorker.ready
+    const subscription = await registration.pushManager.getSubscription()
+    if (!subscription) return
+
+    await fetch('/api/subscribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        subscription: subscription.toJSON(),
+        action: 'subscribe',
+        locale,
+      }),
+    })
+  } catch (e) {
+    console.error('Failed to update notification language:', e)
+  }
+}
+
+export const LocaleProvider = ({ children }: { children: React.ReactNode }) => {
+  // The server always renders the default; the saved choice applies on hydration
+  const locale = useSyncExternalStore(
+    subscribe,
+    readLocale,
+    () => DEFAULT_LOCALE
+  )
+
+  useEffect(() => {
+    document.documentElement.lang = locale === 'ja' ? 'ja' : 'en'
+  }, [locale])
+
+  const setLocale = useCallback((next: Locale) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, next)
+    } catch (e) {
+      console.error('Failed to write locale to localStorage:', e)
+    }
+    listeners.forEach((listener) => listener())
+    syncSubscriptionLocale(next)
+  }, [])
+
+  const value = useMemo<LocaleContextValue>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      localize: (value, langs) => localizeName(value, langs, locale),
+    }),
+    [locale, setLocale]
+  )
+
+  return (
+    <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+  )
+}
+
+export const useLocale = () => useContext(LocaleContext)
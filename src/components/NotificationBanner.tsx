@@ -1,19 +1,23 @@
 'use client'
 
 import type { AppNotification } from '@/lib/types'
-import { buildPropertyUrl } from '@/lib/ehousing'
+import { buildPropertyUrl } from '@/lib/ehousing-urls'
+import { formatTimeAgo } from '@/lib/i18n'
+import { useLocale } from './LocaleProvider'
 
 type NotificationBannerProps = {
   notifications: AppNotification[]
 }
 
 const NotificationBanner = ({ notifications }: NotificationBannerProps) => {
+  const { t } = useLocale()
+
   if (notifications.length === 0) return null
 
   return (
-    <section aria-label="Recent notifications">
+    <section aria-label={t('recentNotifications')}>
       <h2 className="mb-3 text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
-        Recent Alerts
+        {t('recentAlerts')}
       </h2>
       <div className="space-y-2">
         {notifications.slice(0, 10).map((notif) => (
@@ -29,14 +33,20 @@ const NotificationItem = ({
 }: {
   notification: AppNotification
 }) => {
-  const url = buildPropertyUrl(
-    notification.prefectureSlug,
-    notification.wardSlug,
-    notification.slug,
-    notification.roomNumber
-  )
+  const { locale, t, localize } = useLocale()
 
-  const timeAgo = getTimeAgo(notification.timestamp)
+  // Older history entries predate the stored URL and only carry e-housing slugs
+  const url =
+    notification.url ??
+    buildPropertyUrl(
+      notification.prefectureSlug ?? '',
+      notification.wardSlug ?? '',
+      notification.slug ?? '',
+      notification.roomNumber ?? ''
+    )
+
+  const timeAgo = formatTimeAgo(locale, notification.timestamp)
+  const isPriceDrop = notification.type === 'price-drop'
 
   return (
     <a
@@ -45,27 +55,60 @@ const NotificationItem = ({
       rel="noopener noreferrer"
       className="flex items-center gap-3 rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] p-3 transition-colors hover:border-[var(--color-accent)]/30"
     >
-      <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-[var(--color-success)]/20">
-        <svg
-          width="14"
-          height="14"
-          viewBox="0 0 24 24"
-          fill="none"
-          stroke="var(--color-success)"
-          strokeWidth="2.5"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-        >
-          <path d="M12 5v14M5 12h14" />
-        </svg>
-      </div>
+      {isPriceDrop ? (
+        <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-[var(--color-accent)]/20">
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="var(--color-accent)"
+            strokeWidth="2.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            aria-label={t('priceDropped')}
+          >
+            <path d="M12 5v14M19 12l-7 7-7-7" />
+          </svg>
+        </div>
+      ) : (
+        <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-[var(--color-success)]/20">
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="var(--color-success)"
+            strokeWidth="2.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M12 5v14M5 12h14" />
+          </svg>
+        </div>
+      )}
       <div className="min-w-0 flex-1">
         <p className="truncate text-sm font-medium text-[var(--color-text)]">
-          {notification.propertyName}
+          {localize(notification.propertyName, notification.propertyNameLangs)}
         </p>
         <p className="text-xs text-[var(--color-text-secondary)]">
-          ¥{notification.rentAmount.toLocaleString()}/mo ·{' '}
-          {notification.bedRooms} bed · {notification.sizeSqm}m²
+          {isPriceDrop && notification.previousRentAmount !== undefined && (
+            <span className="mr-1 line-through">
+              ¥{notification.previousRentAmount.toLocaleString()}
+            </span>
+          )}
+          {notification.type === 'relisted' &&
+            notification.previousRentAmount !== undefined && (
+              <span className="mr-1 text-amber-400">
+                {t('relistedPreviously', {
+                  amount: notification.previousRentAmount.toLocaleString(),
+                })}{' '}
+                ·
+              </span>
+            )}
+          ¥{notification.rentAmount.toLocaleString()}
+          {t('perMonth')} · {t('bedrooms', { count: notification.bedRooms })}{' '}
+          · {notification.sizeSqm}m²
         </p>
       </div>
       <span className="shrink-0 text-xs text-[var(--color-text-secondary)]">
@@ -75,18 +118,4 @@ const NotificationItem = ({
   )
 }
 
-const getTimeAgo = (timestamp: string): string => {
-  const now = Date.now()
-  const then = new Date(timestamp).getTime()
-  const diffMs = now - then
-  const diffMin = Math.floor(diffMs / 60000)
-  const diffHr = Math.floor(diffMin / 60)
-  const diffDays = Math.floor(diffHr / 24)
-
-  if (diffMin < 1) return 'just now'
-  if (diffMin < 60) return `${diffMin}m ago`
-  if (diffHr < 24) return `${diffHr}h ago`
-  return `${diffDays}d ago`
-}
-
 export default NotificationBanner
@@ -2,8 +2,19 @@
 
 import { useRef, useState, useCallback, useEffect } from 'react'
 import Image from 'next/image'
-import type { Property, LivabilityScore } from '@/lib/types'
-import { buildPropertyUrl } from '@/lib/ehousing'
+import type {
+  Property,
+  PropertyDetails,
+  LivabilityScore,
+  DealRating,
+  ListingLifecycle,
+  Locale,
+} from '@/lib/types'
+import { buildPropertyUrl } from '@/lib/ehousing-urls'
+import { daysSince } from '@/lib/lifecycle'
+import type { MessageKey } from '@/lib/i18n'
+import { useLocale } from './LocaleProvider'
+import PropertyHistory from './PropertyHistory'
 
 const EHOUSING_CDN_PREFIX =
   'https://cdn.shortpixel.ai/client/to_webp,w_1500,q_lossless,ret_wait/https://s3.ap-northeast-1.amazonaws.com/ehousing-dev/'
@@ -14,6 +25,9 @@ type PropertyCardProps = {
   onToggleFavorite: (property: Property) => void
   score?: LivabilityScore | null
   scoreLoading?: boolean
+  details?: PropertyDetails | null
+  lifecycle?: ListingLifecycle | null
+  deal?: DealRating | null
 }
 
 const PropertyCard = ({
@@ -22,10 +36,16 @@ const PropertyCard = ({
   onToggleFavorite,
   score,
   scoreLoading,
+  details,
+  lifecycle,
+  deal,
 }: PropertyCardProps) => {
   const [showBreakdown, setShowBreakdown] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
   const [lightboxOpen, setLightboxOpen] = useState(false)
   const [lightboxIndex, setLightboxIndex] = useState(0)
+  const { t, localize } = useLocale()
+  const name = localize(property.name, property.name_langs)
   const nearestStation = property.trainStations.reduce(
     (nearest, station) => {
       if (
@@ -79,7 +99,7 @@ const PropertyCard = ({
       <div className="relative">
         <ImageCarousel
           images={carouselImages}
-          alt={property.name}
+          alt={name}
           href={propertyUrl}
         />
 
@@ -92,7 +112,7 @@ const PropertyCard = ({
             setLightboxOpen(true)
           }}
           tabIndex={0}
-          aria-label="View images fullscreen"
+          aria-label={t('viewFullscreen')}
           className="absolute left-3 top-3 z-10 flex h-8 w-8 items-center justify-center rounded-full bg-black/40 backdrop-blur-sm transition-colors hover:bg-black/60"
         >
           <svg
@@ -116,12 +136,12 @@ const PropertyCard = ({
         <div className="absolute left-14 top-3 z-10 flex flex-wrap gap-1.5">
           {property.key_money === 0 && (
             <span className="rounded-full bg-[var(--color-success)]/90 px-2.5 py-0.5 text-xs font-medium text-white backdrop-blur-sm">
-              No Key Money
+              {t('noKeyMoney')}
             </span>
           )}
           {property.security_deposit === 0 && (
             <span className="rounded-full bg-[var(--color-accent)]/90 px-2.5 py-0.5 text-xs font-medium text-white backdrop-blur-sm">
-              No Deposit
+              {t('noDeposit')}
             </span>
           )}
         </div>
@@ -131,9 +151,7 @@ const PropertyCard = ({
           onClick={handleFavoriteClick}
           onKeyDown={handleKeyDown}
           tabIndex={0}
-          aria-label={
-            isFavorite ? 'Remove from favorites' : 'Add to favorites'
-          }
+          aria-label={isFavorite ? t('removeFavorite') : t('addFavorite')}
           className="absolute right-3 top-3 z-10 flex h-9 w-9 items-center justify-center rounded-full bg-black/40 backdrop-blur-sm transition-colors hover:bg-black/60"
         >
           <svg
@@ -161,13 +179,14 @@ const PropertyCard = ({
               rel="noopener noreferrer"
               className="hover:text-[var(--color-accent)] transition-colors"
             >
-              {property.name}
+              {name}
             </a>
           </h3>
+          {lifecycle && <LifecycleLabel lifecycle={lifecycle} />}
         </div>
 
         <p className="mb-3 text-sm text-[var(--color-text-secondary)]">
-          {property.obscured_address}
+          {localize(property.obscured_address, property.obscured_address_langs)}
         </p>
 
         {/* Price */}
@@ -176,17 +195,27 @@ const PropertyCard = ({
             ¥{property.rent_amount.toLocaleString()}
           </span>
           <span className="text-sm text-[var(--color-text-secondary)]">
-            /mo
+            {t('perMonth')}
           </span>
         </div>
 
         {/* Details grid */}
         <div className="mb-3 flex flex-wrap gap-x-4 gap-y-1 text-sm text-[var(--color-text-secondary)]">
-          <span>{property.bed_rooms} bed</span>
+          <span>{t('bedrooms', { count: property.bed_rooms })}</span>
           <span>{property.size_sqm} m²</span>
+          {deal && (
+            <span>
+              {t('rentPerSqmValue', {
+                amount: deal.rentPerSqm.toLocaleString(),
+              })}
+            </span>
+          )}
           <span>{property.layout}</span>
         </div>
 
+        {/* Scraped listing details */}
+        {details && <DetailsRow details={details} />}
+
         {/* Nearest station */}
         {nearestStation && (
           <a
@@ -194,7 +223,7 @@ const PropertyCard = ({
             target="_blank"
             rel="noopener noreferrer"
             className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)] hover:text-[var(--color-accent)] transition-colors"
-            aria-label={`View ${property.name} location on Google Maps`}
+            aria-label={t('viewLocation', { name })}
             tabIndex={0}
           >
             <svg
@@ -211,8 +240,10 @@ const PropertyCard = ({
               <circle cx="12" cy="10" r="3" />
             </svg>
             <span className="underline decoration-dotted underline-offset-2">
-              {nearestStation.name} -{' '}
-              {nearestStation.meta_data.pivot_walking_distance_minutes} min walk
+              {localize(nearestStation.name, nearestStation.name_langs)} -{' '}
+              {t('walkMinutes', {
+                count: nearestStation.meta_data.pivot_walking_distance_minutes,
+              })}
             </span>
           </a>
         )}
@@ -225,7 +256,7 @@ const PropertyCard = ({
             target="_blank"
             rel="noopener noreferrer"
             className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)] hover:text-[var(--color-accent)] transition-colors"
-            aria-label="View transit commute to Nishimachi International School"
+            aria-label={t('commuteLabel')}
             tabIndex={0}
           >
             <svg
@@ -238,17 +269,20 @@ const PropertyCard = ({
               <path d="M12 2C8 2 4 2.5 4 6v9.5C4 17.43 5.57 19 7.5 19L6 20.5v.5h2l2-2h4l2 2h2v-.5L16.5 19c1.93 0 3.5-1.57 3.5-3.5V6c0-3.5-4-4-8-4zM7.5 17c-.83 0-1.5-.67-1.5-1.5S6.67 14 7.5 14s1.5.67 1.5 1.5S8.33 17 7.5 17zm3.5-6H6V6h5v5zm2 0V6h5v5h-5zm3.5 6c-.83 0-1.5-.67-1.5-1.5s.67-1.5 1.5-1.5 1.5.67 1.5 1.5-.67 1.5-1.5 1.5z" />
             </svg>
             <span className="underline decoration-dotted underline-offset-2">
-              Commute to Nishimachi
+              {t('commute')}
             </span>
           </a>
 
-          {/* Livability score badge */}
-          <ScoreBadge
-            score={score}
-            loading={scoreLoading}
-            showBreakdown={showBreakdown}
-            onToggleBreakdown={() => setShowBreakdown((prev) => !prev)}
-          />
+          {/* Deal and livability score badges */}
+          <div className="flex shrink-0 items-center gap-1">
+            {deal && <DealBadge deal={deal} />}
+            <ScoreBadge
+              score={score}
+              loading={scoreLoading}
+              showBreakdown={showBreakdown}
+              onToggleBreakdown={() => setShowBreakdown((prev) => !prev)}
+            />
+          </div>
         </div>
 
         {/* Score breakdown (expandable) */}
@@ -259,6 +293,17 @@ const PropertyCard = ({
             lng={property.longitude}
           />
         )}
+
+        {/* History timeline (expandable) */}
+        <button
+          onClick={() => setShowHistory((prev) => !prev)}
+          aria-expanded={showHistory}
+          tabIndex={0}
+          className="mt-3 text-xs font-medium text-[var(--color-accent)] hover:underline"
+        >
+          {showHistory ? t('hideHistory') : t('showHistory')}
+        </button>
+        {showHistory && <PropertyHistory propertyId={property.id} />}
       </div>
 
       {/* Fullscreen Lightbox */}
@@ -266,7 +311,7 @@ const PropertyCard = ({
         <Lightbox
           images={carouselImages}
           initialIndex={lightboxIndex}
-          alt={property.name}
+          alt={name}
           onClose={() => setLightboxOpen(false)}
         />
       )}
@@ -274,6 +319,112 @@ const PropertyCard = ({
   )
 }
 
+// --- Listing Lifecycle ---
+
+const LifecycleLabel = ({ lifecycle }: { lifecycle: ListingLifecycle }) => {
+  const { t } = useLocale()
+
+  if (lifecycle.delistedAt) {
+    const days = daysSince(lifecycle.delistedAt)
+    return (
+      <span className="shrink-0 rounded-full bg-red-500/15 px-2 py-0.5 text-xs font-medium text-red-400">
+        {days === 0
+          ? t('delistedToday')
+          : days === 1
+            ? t('delistedYesterday')
+            : t('delistedDaysAgo', { count: days })}
+      </span>
+    )
+  }
+
+  if (lifecycle.relistOf) {
+    return (
+      <span className="shrink-0 rounded-full bg-amber-500/15 px-2 py-0.5 text-xs font-medium text-amber-400">
+        {t('relistedPreviously', {
+          amount: lifecycle.relistOf.rentAmount.toLocaleString(),
+        })}
+      </span>
+    )
+  }
+
+  const days = daysSince(lifecycle.firstSeenAt)
+  return (
+    <span className="shrink-0 text-xs text-[var(--color-text-secondary)]">
+      {days === 0
+        ? t('listedToday')
+        : days === 1
+          ? t('onMarketOneDay')
+          : t('onMarketDays', { count: days })}
+    </span>
+  )
+}
+
+// --- Listing Details ---
+
+const DetailsRow = ({ details }: { details: PropertyDetails }) => {
+  const { locale, t } = useLocale()
+
+  const facts = [
+    details.availableFrom &&
+      t('availableFrom', {
+        date: formatAvailableFrom(details.availableFrom, locale, t),
+      }),
+    details.floor !== null &&
+      (details.totalFloors !== null
+        ? t('floorOf', { floor: details.floor, total: details.totalFloors })
+        : t('floor', { floor: details.floor })),
+    details.yearBuilt !== null
+      ? t('builtIn', { year: details.yearBuilt })
+      : details.buildingAgeYears !== null &&
+        t('yearsOld', { count: details.buildingAgeYears }),
+    details.maintenanceFee !== null &&
+      t('managementFee', { amount: details.maintenanceFee.toLocaleString() }),
+    details.agencyFee !== null &&
+      t('agencyFee', { amount: details.agencyFee.toLocaleString() }),
+    details.contractLength &&
+      t('contract', { length: details.contractLength }),
+  ].filter(Boolean) as string[]
+
+  if (facts.length === 0 && details.features.length === 0) return null
+
+  return (
+    <div className="mb-3 space-y-2">
+      {facts.length > 0 && (
+        <p className="text-xs text-[var(--color-text-secondary)]">
+          {facts.join(' · ')}
+        </p>
+      )}
+      {details.features.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {details.features.map((feature) => (
+            <span
+              key={feature}
+              className="rounded-full bg-[var(--color-surface-hover)] px-2 py-0.5 text-[10px] text-[var(--color-text-secondary)]"
+            >
+              {feature}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const formatAvailableFrom = (
+  value: string,
+  locale: Locale,
+  t: (key: MessageKey) => string
+): string => {
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return value
+  return date <= new Date()
+    ? t('availableNow')
+    : date.toLocaleDateString(locale === 'ja' ? 'ja-JP' : undefined, {
+        month: 'short',
+        day: 'numeric',
+      })
+}
+
 // --- Fullscreen Lightbox ---
 
 const Lightbox = ({
@@ -289,6 +440,7 @@ const Lightbox = ({
 }) => {
   const [index, setIndex] = useState(initialIndex)
   const touchStartX = useRef(0)
+  const { t } = useLocale()
 
   // Lock body scroll
   useEffect(() => {
@@ -345,7 +497,7 @@ const Lightbox = ({
         </span>
         <button
           onClick={onClose}
-          aria-label="Close fullscreen"
+          aria-label={t('closeFullscreen')}
           tabIndex={0}
           className="flex h-8 w-8 items-center justify-center rounded-full text-white/70 hover:text-white"
         >
@@ -385,7 +537,7 @@ const Lightbox = ({
                 key={i}
                 onClick={() => setIndex(i)}
                 tabIndex={0}
-                aria-label={`Go to image ${i + 1}`}
+                aria-label={t('goToImage', { index: i + 1 })}
                 className={`h-1.5 rounded-full transition-colors ${
                   i === index ? 'w-3 bg-white' : 'w-1.5 bg-white/30'
                 }`}
@@ -394,7 +546,7 @@ const Lightbox = ({
           </div>
         ) : (
           <span className="text-xs text-white/50">
-            Swipe to navigate
+            {t('swipeToNavigate')}
           </span>
         )}
       </div>
@@ -416,11 +568,14 @@ const ImageCarousel = ({
   const scrollRef = useRef<HTMLDivElement>(null)
   const [activeIndex, setActiveIndex] = useState(0)
   const isScrolling = useRef(false)
+  const { t } = useLocale()
 
   if (images.length === 0) {
     return (
       <div className="flex aspect-[16/10] items-center justify-center bg-[var(--color-surface-hover)]">
-        <span className="text-[var(--color-text-secondary)]">No image</span>
+        <span className="text-[var(--color-text-secondary)]">
+          {t('noImage')}
+        </span>
       </div>
     )
   }
@@ -472,7 +627,11 @@ const ImageCarousel = ({
             target="_blank"
             rel="noopener noreferrer"
             className="relative aspect-[16/10] w-full shrink-0 snap-center"
-            aria-label={`${alt} - image ${i + 1} of ${images.length}`}
+            aria-label={t('imageOf', {
+              name: alt,
+              index: i + 1,
+              total: images.length,
+            })}
           >
             <Image
               src={src}
@@ -537,6 +696,8 @@ const ScoreBadge = ({
   showBreakdown: boolean
   onToggleBreakdown: () => void
 }) => {
+  const { t } = useLocale()
+
   if (loading) {
     return (
       <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-[var(--color-surface-hover)]">
@@ -563,7 +724,7 @@ const ScoreBadge = ({
     <button
       onClick={onToggleBreakdown}
       aria-expanded={showBreakdown}
-      aria-label={`Livability score: ${score.overall} out of 10. Tap for breakdown.`}
+      aria-label={t('scoreLabel', { score: score.overall })}
       tabIndex={0}
       className={`flex h-9 shrink-0 items-center gap-1.5 rounded-full px-2.5 transition-colors ${
         showBreakdown
@@ -583,6 +744,34 @@ const ScoreBadge = ({
   )
 }
 
+// --- Deal Badge ---
+
+const DealBadge = ({ deal }: { deal: DealRating }) => {
+  const { t } = useLocale()
+  const label = t('dealLabel', {
+    score: deal.score,
+    rate: deal.rentPerSqm.toLocaleString(),
+    comparable: deal.comparableRentPerSqm.toLocaleString(),
+    count: deal.comparables,
+  })
+
+  return (
+    <span
+      role="img"
+      aria-label={label}
+      title={label}
+      className="flex h-9 shrink-0 items-center gap-1.5 rounded-full px-2.5"
+    >
+      <span className="text-xs text-[var(--color-text-secondary)]">
+        {t('deal')}
+      </span>
+      <span className={`text-sm font-bold ${getScoreTextColor(deal.score)}`}>
+        {deal.score.toFixed(1)}
+      </span>
+    </span>
+  )
+}
+
 // --- Score Breakdown ---
 
 const ScoreBreakdown = ({
@@ -594,31 +783,33 @@ const ScoreBreakdown = ({
   lat: number
   lng: number
 }) => {
+  const { t } = useLocale()
+
   const items = [
     {
-      label: 'Station',
+      label: t('scoreStation'),
       value: score.station,
-      detail: `${score.counts.nearestStationMinutes} min walk`,
+      detail: t('walkMinutes', { count: score.counts.nearestStationMinutes }),
     },
     {
-      label: 'Grocery',
+      label: t('scoreGrocery'),
       value: score.supermarkets,
-      detail: `${score.counts.supermarkets} within 500m`,
+      detail: t('withinMeters', { count: score.counts.supermarkets, meters: 500 }),
     },
     {
-      label: 'Dining',
+      label: t('scoreDining'),
       value: score.restaurants,
-      detail: `${score.counts.restaurants} within 500m`,
+      detail: t('withinMeters', { count: score.counts.restaurants, meters: 500 }),
     },
     {
-      label: 'Konbini',
+      label: t('scoreKonbini'),
       value: score.convenience,
-      detail: `${score.counts.convenience} within 300m`,
+      detail: t('withinMeters', { count: score.counts.convenience, meters: 300 }),
     },
     {
-      label: 'Parks',
+      label: t('scoreParks'),
       value: score.parks,
-      detail: `${score.counts.parks} within 500m`,
+      detail: t('withinMeters', { count: score.counts.parks, meters: 500 }),
     },
   ]
 
@@ -629,14 +820,14 @@ const ScoreBreakdown = ({
     <div className="mt-3 rounded-lg border border-[var(--color-border)] bg-[var(--color-bg)] p-3">
       <div className="mb-2 flex items-center justify-between">
         <span className="text-xs font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
-          Livability Breakdown
+          {t('livabilityBreakdown')}
         </span>
         <a
           href={overpassUrl}
           target="_blank"
           rel="noopener noreferrer"
           className="flex items-center gap-1 text-[10px] text-[var(--color-accent)] hover:underline"
-          aria-label="View amenities on map"
+          aria-label={t('viewAmenities')}
           tabIndex={0}
         >
           <svg
@@ -653,7 +844,7 @@ const ScoreBreakdown = ({
             <polyline points="15 3 21 3 21 9" />
             <line x1="10" y1="14" x2="21" y2="3" />
           </svg>
-          View on map
+          {t('viewOnMap')}
         </a>
       </div>
       <div className="space-y-2">
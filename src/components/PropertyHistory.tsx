@@ -0,0 +1,161 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type {
+  PropertyHistoryEntry,
+  PropertyHistoryEvent,
+  PropertySnapshot,
+} from '@/lib/types'
+import type { MessageKey } from '@/lib/i18n'
+import { useLocale } from './LocaleProvider'
+
+type PropertyHistoryProps = {
+  propertyId: number | string
+}
+
+const EVENT_LABELS: Record<PropertyHistoryEvent, MessageKey> = {
+  listed: 'historyListed',
+  changed: 'historyChanged',
+  delisted: 'historyDelisted',
+  relisted: 'historyRelisted',
+}
+
+const EVENT_COLORS: Record<PropertyHistoryEvent, string> = {
+  listed: 'bg-[var(--color-success)]',
+  changed: 'bg-[var(--color-accent)]',
+  delisted: 'bg-red-400',
+  relisted: 'bg-[var(--color-success)]',
+}
+
+/**
+ * Timeline of a listing's recorded history, newest first.
+ */
+const PropertyHistory = ({ propertyId }: PropertyHistoryProps) => {
+  const [history, setHistory] = useState<PropertyHistoryEntry[] | null>(null)
+  const [failed, setFailed] = useState(false)
+  const { locale, t } = useLocale()
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`/api/properties/${propertyId}/history`)
+        if (!response.ok) throw new Error('Failed to fetch history')
+        const json = await response.json()
+        if (!cancelled) setHistory(json.history ?? [])
+      } catch (err) {
+        console.error('History fetch error:', err)
+        if (!cancelled) setFailed(true)
+      }
+    }
+
+    loadHistory()
+    return () => {
+      cancelled = true
+    }
+  }, [propertyId])
+
+  const messageClass = 'mt-3 text-xs text-[var(--color-text-secondary)]'
+
+  if (failed) return <p className={messageClass}>{t('historyFailed')}</p>
+  if (!history) return <p className={messageClass}>{t('loadingHistory')}</p>
+  if (history.length === 0) {
+    return <p className={messageClass}>{t('noHistory')}</p>
+  }
+
+  // Pair each entry with the snapshot before it to describe what changed
+  let previous: PropertySnapshot | null = null
+  const items = history.map((entry) => {
+    const descriptions =
+      previous && entry.snapshot
+        ? describeChanges(entry.changes, previous, entry.snapshot, t)
+        : []
+    if (entry.snapshot) previous = entry.snapshot
+    return { entry, descriptions }
+  })
+
+  return (
+    <ol className="mt-3 space-y-3 border-l border-[var(--color-border)] pl-4">
+      {items.reverse().map(({ entry, descriptions }, i) => (
+        <li key={`${entry.timestamp}-${i}`} className="relative">
+          <span
+            className={`absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full ${EVENT_COLORS[entry.event]}`}
+          />
+          <div className="flex items-baseline justify-between gap-2 text-xs">
+            <span className="font-medium text-[var(--color-text)]">
+              {t(EVENT_LABELS[entry.event])}
+              {entry.snapshot && (
+                <span className="ml-2 font-normal text-[var(--color-text-secondary)]">
+                  ¥{entry.snapshot.rentAmount.toLocaleString()}
+                  {t('perMonth')}
+                </span>
+              )}
+            </span>
+            <time
+              dateTime={entry.timestamp}
+              className="shrink-0 text-[var(--color-text-secondary)]"
+            >
+              {new Date(entry.timestamp).toLocaleDateString(
+                locale === 'ja' ? 'ja-JP' : undefined
+              )}
+            </time>
+          </div>
+          {descriptions.length > 0 && (
+            <p className="mt-0.5 text-xs text-[var(--color-text-secondary)]">
+              {descriptions.join(' · ')}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+/**
+ * Describes what changed between two snapshots. Room fields (size,
+ * bedrooms, layout) share one description.
+ */
+const describeChanges = (
+  fields: (keyof PropertySnapshot)[],
+  previous: PropertySnapshot,
+  current: PropertySnapshot,
+  t: (key: MessageKey, params?: Record<string, string | number>) => string
+): string[] => {
+  const descriptions = fields.map((field) =>
+    describeChange(field, previous, current, t)
+  )
+  return Array.from(new Set(descriptions))
+}
+
+const describeChange = (
+  field: keyof PropertySnapshot,
+  previous: PropertySnapshot,
+  current: PropertySnapshot,
+  t: (key: MessageKey, params?: Record<string, string | number>) => string
+): string => {
+  const amounts = (from: number, to: number) => ({
+    from: from.toLocaleString(),
+    to: to.toLocaleString(),
+  })
+
+  switch (field) {
+    case 'rentAmount':
+      return t('historyRent', amounts(previous.rentAmount, current.rentAmount))
+    case 'keyMoney':
+      return t('historyKeyMoney', amounts(previous.keyMoney, current.keyMoney))
+    case 'securityDeposit':
+      return t(
+        'historyDeposit',
+        amounts(previous.securityDeposit, current.securityDeposit)
+      )
+    case 'status':
+      return t('historyStatus')
+    case 'imageUrls':
+      return t('historyPhotos')
+    default:
+      return t('historyRoom')
+  }
+}
+
+export default PropertyHistory
@@ -0,0 +1,245 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type {
+  ManagedSchedule,
+  PollScheduleSettings,
+  PollScheduleState,
+  PollSchedulerMode,
+} from '@/lib/types'
+import {
+  BURST_DURATION_OPTIONS,
+  POLL_INTERVAL_OPTIONS,
+} from '@/lib/schedule'
+import { useLocale } from './LocaleProvider'
+
+type ScheduleData = PollScheduleState & {
+  mode: PollSchedulerMode
+  currentIntervalMinutes: number
+  schedules: ManagedSchedule[] | null
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'failed'
+
+const HOURS = Array.from({ length: 25 }, (_, i) => i)
+
+const selectClass =
+  'rounded-lg border border-[var(--color-border)] bg-[var(--color-surface-hover)] px-2 py-1.5 text-sm text-[var(--color-text)]'
+
+/**
+ * Shows how polls are scheduled and edits the adaptive schedule. Saved
+ * separately from the search filters, since it doesn't re-seed anything.
+ */
+const ScheduleEditor = () => {
+  const [data, setData] = useState<ScheduleData | null>(null)
+  const [settings, setSettings] = useState<PollScheduleSettings | null>(null)
+  const [status, setStatus] = useState<SaveStatus>('idle')
+  const { t } = useLocale()
+
+  useEffect(() => {
+    const loadSchedule = async () => {
+      try {
+        const resp = await fetch('/api/schedule')
+        if (!resp.ok) throw new Error('Failed to fetch schedule')
+        const json = (await resp.json()) as ScheduleData
+        setData(json)
+        setSettings(json.settings)
+      } catch (e) {
+        console.error('Failed to load schedule:', e)
+      }
+    }
+
+    loadSchedule()
+  }, [])
+
+  if (!data || !settings) return null
+
+  const update = (changes: Partial<PollScheduleSettings>) => {
+    setSettings({ ...settings, ...changes })
+    setStatus('idle')
+  }
+
+  const handleSave = async () => {
+    setStatus('saving')
+    try {
+      const resp = await fetch('/api/schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      })
+      if (!resp.ok) throw new Error('Failed to save schedule')
+      const json = (await resp.json()) as ScheduleData
+      setData(json)
+      setSettings(json.settings)
+      setStatus('saved')
+    } catch (e) {
+      console.error('Failed to save schedule:', e)
+      setStatus('failed')
+    }
+  }
+
+  const intervalLabel = (minutes: number) =>
+    minutes < 60
+      ? t('everyMinutes', { count: minutes })
+      : t('everyHours', { count: minutes / 60 })
+
+  const intervalSelect = (
+    value: number,
+    onChange: (minutes: number) => void,
+    label: string
+  ) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      aria-label={label}
+      className={selectClass}
+    >
+      {POLL_INTERVAL_OPTIONS.map((minutes) => (
+        <option key={minutes} value={minutes}>
+          {intervalLabel(minutes)}
+        </option>
+      ))}
+    </select>
+  )
+
+  const burstActive =
+    !!data.burstUntil && Date.parse(data.burstUntil) > Date.now()
+  const isValid = settings.businessHoursStart < settings.businessHoursEnd
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
+        {t('pollSchedule')}
+      </h3>
+
+      <div className="space-y-1 text-xs text-[var(--color-text-secondary)]">
+        <p>
+          {data.mode === 'qstash'
+            ? t('scheduleQstash', { count: data.currentIntervalMinutes })
+            : data.mode === 'local'
+              ? t('scheduleLocal', { count: data.currentIntervalMinutes })
+              : t('scheduleManual')}
+        </p>
+        {burstActive && data.burstUntil && (
+          <p className="text-[var(--color-accent)]">
+            {t('scheduleBurst', {
+              count: data.settings.burstIntervalMinutes,
+              time: new Date(data.burstUntil).toLocaleTimeString([], {
+                hour: '2-digit',
+                minute: '2-digit',
+              }),
+            })}
+          </p>
+        )}
+        {data.schedules?.map((schedule) => (
+          <p key={schedule.id} className="font-mono">
+            {schedule.cron}
+          </p>
+        ))}
+      </div>
+
+      <div className="space-y-2 text-sm text-[var(--color-text)]">
+        <div className="flex items-center justify-between gap-2">
+          <span>{t('businessHours')}</span>
+          <div className="flex items-center gap-1">
+            <select
+              value={settings.businessHoursStart}
+              onChange={(e) =>
+                update({ businessHoursStart: Number(e.target.value) })
+              }
+              aria-label={t('businessHours')}
+              className={selectClass}
+            >
+              {HOURS.slice(0, 24).map((hour) => (
+                <option key={hour} value={hour}>
+                  {`${hour}:00`}
+                </option>
+              ))}
+            </select>
+            <span>–</span>
+            <select
+              value={settings.businessHoursEnd}
+              onChange={(e) =>
+                update({ businessHoursEnd: Number(e.target.value) })
+              }
+              aria-label={t('businessHours')}
+              className={selectClass}
+            >
+              {HOURS.slice(1).map((hour) => (
+                <option key={hour} value={hour}>
+                  {`${hour}:00`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span>{t('duringBusinessHours')}</span>
+          {intervalSelect(
+            settings.businessIntervalMinutes,
+            (minutes) => update({ businessIntervalMinutes: minutes }),
+            t('duringBusinessHours')
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span>{t('outsideBusinessHours')}</span>
+          {intervalSelect(
+            settings.offHoursIntervalMinutes,
+            (minutes) => update({ offHoursIntervalMinutes: minutes }),
+            t('outsideBusinessHours')
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span>{t('afterFilterChange')}</span>
+          <div className="flex items-center gap-1">
+            {intervalSelect(
+              settings.burstIntervalMinutes,
+              (minutes) => update({ burstIntervalMinutes: minutes }),
+              t('afterFilterChange')
+            )}
+            <select
+              value={settings.burstDurationMinutes}
+              onChange={(e) =>
+                update({ burstDurationMinutes: Number(e.target.value) })
+              }
+              aria-label={t('burstFor')}
+              className={selectClass}
+            >
+              {BURST_DURATION_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0
+                    ? t('burstOff')
+                    : t('forMinutes', { count: minutes })}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={status === 'saving' || !isValid}
+          tabIndex={0}
+          className="rounded-lg bg-[var(--color-surface-hover)] px-3 py-1.5 text-xs font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text)] disabled:opacity-30"
+        >
+          {t('saveSchedule')}
+        </button>
+        {status === 'saved' && (
+          <span className="text-xs text-[var(--color-success)]">
+            {t('scheduleSaved')}
+          </span>
+        )}
+        {status === 'failed' && (
+          <span className="text-xs text-red-400">{t('scheduleFailed')}</span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ScheduleEditor
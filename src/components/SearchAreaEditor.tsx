@@ -0,0 +1,328 @@
+'use client'
+
+import { useState, useRef, useCallback } from 'react'
+import type { GeoPoint } from '@/lib/types'
+import {
+  DEFAULT_SEARCH_AREA,
+  MIN_POLYGON_POINTS,
+  projectPoint,
+  unprojectPoint,
+} from '@/lib/geo'
+import { useLocale } from './LocaleProvider'
+
+type SearchAreaEditorProps = {
+  searchArea?: GeoPoint[]
+  onChange: (searchArea: GeoPoint[] | undefined) => void
+}
+
+type MapView = {
+  center: GeoPoint
+  zoom: number
+}
+
+const MAP_WIDTH = 320
+const MAP_HEIGHT = 240
+const TILE_SIZE = 256
+const MIN_ZOOM = 9
+const MAX_ZOOM = 17
+
+// Pointer travel (in map pixels) beyond which a tap becomes a pan
+const DRAG_THRESHOLD = 4
+
+/**
+ * Picks a view that shows the whole polygon.
+ */
+const fitView = (polygon: GeoPoint[]): MapView => {
+  const lats = polygon.map((p) => p.lat)
+  const lngs = polygon.map((p) => p.lng)
+  const north = Math.max(...lats)
+  const south = Math.min(...lats)
+  const east = Math.max(...lngs)
+  const west = Math.min(...lngs)
+  const center = { lat: (north + south) / 2, lng: (east + west) / 2 }
+
+  let zoom = MAX_ZOOM
+  while (zoom > MIN_ZOOM) {
+    const topLeft = projectPoint({ lat: north, lng: west }, zoom)
+    const bottomRight = projectPoint({ lat: south, lng: east }, zoom)
+    if (
+      bottomRight.x - topLeft.x <= MAP_WIDTH * 0.9 &&
+      bottomRight.y - topLeft.y <= MAP_HEIGHT * 0.9
+    ) {
+      break
+    }
+    zoom--
+  }
+
+  return { center, zoom }
+}
+
+const SearchAreaEditor = ({ searchArea, onChange }: SearchAreaEditorProps) => {
+  const area = searchArea ?? DEFAULT_SEARCH_AREA
+  const [view, setView] = useState<MapView>(() => fitView(area))
+  const [draft, setDraft] = useState<GeoPoint[] | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const { t } = useLocale()
+  const dragRef = useRef<{
+    startX: number
+    startY: number
+    origin: { x: number; y: number }
+    moved: boolean
+  } | null>(null)
+
+  const isDrawing = draft !== null
+  const polygon = draft ?? area
+
+  // Global pixel coordinates of the map's top-left corner
+  const centerPx = projectPoint(view.center, view.zoom)
+  const originX = centerPx.x - MAP_WIDTH / 2
+  const originY = centerPx.y - MAP_HEIGHT / 2
+
+  const tiles: { key: string; href: string; x: number; y: number }[] = []
+  const tileCount = 2 ** view.zoom
+  for (
+    let ty = Math.floor(originY / TILE_SIZE);
+    ty * TILE_SIZE < originY + MAP_HEIGHT;
+    ty++
+  ) {
+    for (
+      let tx = Math.floor(originX / TILE_SIZE);
+      tx * TILE_SIZE < originX + MAP_WIDTH;
+      tx++
+    ) {
+      if (ty < 0 || ty >= tileCount) continue
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount
+      tiles.push({
+        key: `${view.zoom}/${tx}/${ty}`,
+        href: `https://tile.openstreetmap.org/${view.zoom}/${wrappedX}/${ty}.png`,
+        x: tx * TILE_SIZE - originX,
+        y: ty * TILE_SIZE - originY,
+      })
+    }
+  }
+
+  const toScreen = (point: GeoPoint) => {
+    const { x, y } = projectPoint(point, view.zoom)
+    return { x: x - originX, y: y - originY }
+  }
+
+  // Converts a pointer position to map pixels (the SVG scales with its box)
+  const toMapPixels = (clientX: number, clientY: number) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return { x: 0, y: 0 }
+    return {
+      x: ((clientX - rect.left) * MAP_WIDTH) / rect.width,
+      y: ((clientY - rect.top) * MAP_HEIGHT) / rect.height,
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const { x, y } = toMapPixels(e.clientX, e.clientY)
+    dragRef.current = { startX: x, startY: y, origin: centerPx, moved: false }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const { x, y } = toMapPixels(e.clientX, e.clientY)
+    const dx = x - drag.startX
+    const dy = y - drag.startY
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+
+    drag.moved = true
+    setView((prev) => ({
+      ...prev,
+      center: unprojectPoint(drag.origin.x - dx, drag.origin.y - dy, prev.zoom),
+    }))
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag || drag.moved || !isDrawing) return
+
+    const { x, y } = toMapPixels(e.clientX, e.clientY)
+    const point = unprojectPoint(originX + x, originY + y, view.zoom)
+    setDraft((prev) => [...(prev ?? []), point])
+  }
+
+  const handleZoom = useCallback((delta: number) => {
+    setView((prev) => ({
+      ...prev,
+      zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom + delta)),
+    }))
+  }, [])
+
+  const handleStartDrawing = useCallback(() => setDraft([]), [])
+
+  const handleUndo = useCallback(() => {
+    setDraft((prev) => (prev ? prev.slice(0, -1) : prev))
+  }, [])
+
+  const handleCancel = useCallback(() => setDraft(null), [])
+
+  const handleFinish = useCallback(() => {
+    if (!draft || draft.length < MIN_POLYGON_POINTS) return
+    onChange(draft)
+    setDraft(null)
+  }, [draft, onChange])
+
+  const handleUseDefault = useCallback(() => {
+    onChange(undefined)
+    setDraft(null)
+    setView(fitView(DEFAULT_SEARCH_AREA))
+  }, [onChange])
+
+  const screenPoints = polygon.map(toScreen)
+  const pointsAttr = screenPoints.map((p) => `${p.x},${p.y}`).join(' ')
+
+  const buttonClass =
+    'rounded-lg bg-[var(--color-surface-hover)] px-3 py-1.5 text-xs font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text)] disabled:opacity-30'
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
+        {t('searchArea')}
+        {searchArea && (
+          <span className="ml-2 text-[var(--color-accent)]">
+            {t('customArea')}
+          </span>
+        )}
+      </h3>
+
+      {/* Stop touches reaching the panel's swipe-to-close handlers */}
+      <div
+        className="relative overflow-hidden rounded-lg border border-[var(--color-border)]"
+        onTouchStart={(e) => e.stopPropagation()}
+        onTouchMove={(e) => e.stopPropagation()}
+        onTouchEnd={(e) => e.stopPropagation()}
+      >
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+          className={`block w-full touch-none select-none ${isDrawing ? 'cursor-crosshair' : 'cursor-grab'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => (dragRef.current = null)}
+          role="img"
+          aria-label={t('searchAreaMap')}
+        >
+          {tiles.map((tile) => (
+            <image
+              key={tile.key}
+              href={tile.href}
+              x={tile.x}
+              y={tile.y}
+              width={TILE_SIZE}
+              height={TILE_SIZE}
+            />
+          ))}
+          {screenPoints.length >= MIN_POLYGON_POINTS || !isDrawing ? (
+            <polygon
+              points={pointsAttr}
+              fill="var(--color-accent)"
+              fillOpacity={0.15}
+              stroke="var(--color-accent)"
+              strokeWidth={2}
+            />
+          ) : (
+            <polyline
+              points={pointsAttr}
+              fill="none"
+              stroke="var(--color-accent)"
+              strokeWidth={2}
+            />
+          )}
+          {isDrawing &&
+            screenPoints.map((p, i) => (
+              <circle
+                key={i}
+                cx={p.x}
+                cy={p.y}
+                r={4}
+                fill="var(--color-accent)"
+                stroke="white"
+                strokeWidth={1.5}
+              />
+            ))}
+        </svg>
+
+        <div className="absolute right-2 top-2 flex flex-col gap-1">
+          <button
+            onClick={() => handleZoom(1)}
+            disabled={view.zoom >= MAX_ZOOM}
+            aria-label={t('zoomIn')}
+            tabIndex={0}
+            className="h-7 w-7 rounded bg-[var(--color-bg)]/90 text-sm font-bold text-[var(--color-text)] disabled:opacity-30"
+          >
+            +
+          </button>
+          <button
+            onClick={() => handleZoom(-1)}
+            disabled={view.zoom <= MIN_ZOOM}
+            aria-label={t('zoomOut')}
+            tabIndex={0}
+            className="h-7 w-7 rounded bg-[var(--color-bg)]/90 text-sm font-bold text-[var(--color-text)] disabled:opacity-30"
+          >
+            −
+          </button>
+        </div>
+
+        <span className="absolute bottom-0 right-0 bg-[var(--color-bg)]/80 px-1 text-[10px] text-[var(--color-text-secondary)]">
+          © OpenStreetMap contributors
+        </span>
+      </div>
+
+      {isDrawing ? (
+        <div className="space-y-2">
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            {t('drawHint', { count: draft.length, min: MIN_POLYGON_POINTS })}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleUndo}
+              disabled={draft.length === 0}
+              tabIndex={0}
+              className={buttonClass}
+            >
+              {t('undo')}
+            </button>
+            <button onClick={handleCancel} tabIndex={0} className={buttonClass}>
+              {t('cancel')}
+            </button>
+            <button
+              onClick={handleFinish}
+              disabled={draft.length < MIN_POLYGON_POINTS}
+              tabIndex={0}
+              className="ml-auto rounded-lg bg-[var(--color-accent)] px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+            >
+              {t('done')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            onClick={handleStartDrawing}
+            tabIndex={0}
+            className={buttonClass}
+          >
+            {t('drawArea')}
+          </button>
+          <button
+            onClick={handleUseDefault}
+            disabled={!searchArea}
+            tabIndex={0}
+            className={buttonClass}
+          >
+            {t('useAllOfTokyo')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SearchAreaEditor
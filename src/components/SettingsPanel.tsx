@@ -1,10 +1,18 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react'
-import type { FilterSettings } from '@/lib/types'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import type { FilterSettings, GeoPoint } from '@/lib/types'
 import { DEFAULT_FILTERS } from '@/lib/types'
-import { WARDS } from '@/lib/station-data'
+import { validateFilters } from '@/lib/filters'
+import { useCatalog } from '@/hooks/useCatalog'
 import WardSelector from './WardSelector'
+import StationPicker from './StationPicker'
+import FilterEditor from './FilterEditor'
+import SearchAreaEditor from './SearchAreaEditor'
+import DealThresholdSelector from './DealThresholdSelector'
+import LanguageSelector from './LanguageSelector'
+import ScheduleEditor from './ScheduleEditor'
+import { useLocale } from './LocaleProvider'
 
 type SettingsPanelProps = {
   isOpen: boolean
@@ -15,11 +23,14 @@ type SettingsPanelProps = {
 const SAVE_TIMEOUT_MS = 10000
 
 const SettingsPanel = ({ isOpen, onClose, onApply }: SettingsPanelProps) => {
+  const catalog = useCatalog()
+  const { t } = useLocale()
   const [filters, setFilters] = useState<FilterSettings>(DEFAULT_FILTERS)
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
   const [saveError, setSaveError] = useState(false)
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const issues = useMemo(() => validateFilters(filters), [filters])
 
   // Swipe gesture state
   const panelRef = useRef<HTMLDivElement>(null)
@@ -67,30 +78,54 @@ const SettingsPanel = ({ isOpen, onClose, onApply }: SettingsPanelProps) => {
     loadSettings()
   }, [isOpen])
 
-  const handleToggleWard = useCallback((wardId: number) => {
-    setFilters((prev) => {
-      const ward = WARDS.find((w) => w.id === wardId)
-      if (!ward) return prev
-
-      const isSelected = prev.wards.includes(wardId)
+  const handleToggleWard = useCallback(
+    (wardId: number) => {
+      setFilters((prev) => {
+        const ward = catalog.wards.find((w) => w.id === wardId)
+        if (!ward) return prev
+
+        const isSelected = prev.wards.includes(wardId)
+
+        if (isSelected) {
+          return {
+            ...prev,
+            wards: prev.wards.filter((id) => id !== wardId),
+            wardNames: prev.wardNames.filter(
+              (name) => name !== `${ward.name} Ward`
+            ),
+          }
+        }
 
-      if (isSelected) {
         return {
           ...prev,
-          wards: prev.wards.filter((id) => id !== wardId),
-          wardNames: prev.wardNames.filter(
-            (name) => name !== `${ward.name} Ward`
-          ),
+          wards: [...prev.wards, wardId],
+          wardNames: [...prev.wardNames, `${ward.name} Ward`],
         }
-      }
+      })
+    },
+    [catalog.wards]
+  )
 
-      return {
-        ...prev,
-        wards: [...prev.wards, wardId],
-        wardNames: [...prev.wardNames, `${ward.name} Ward`],
-      }
-    })
-  }, [])
+  const handleFiltersChange = useCallback(
+    (changes: Partial<FilterSettings>) => {
+      setFilters((prev) => ({ ...prev, ...changes }))
+    },
+    []
+  )
+
+  const handleSearchAreaChange = useCallback(
+    (searchArea: GeoPoint[] | undefined) => {
+      setFilters((prev) => ({ ...prev, searchArea }))
+    },
+    []
+  )
+
+  const handleDealThresholdChange = useCallback(
+    (minDealScore: number | undefined) => {
+      setFilters((prev) => ({ ...prev, minDealScore }))
+    },
+    []
+  )
 
   const handleReset = useCallback(() => {
     setFilters(DEFAULT_FILTERS)
@@ -104,7 +139,7 @@ const SettingsPanel = ({ isOpen, onClose, onApply }: SettingsPanelProps) => {
   }, [canClose, onClose])
 
   const handleApply = useCallback(async () => {
-    if (filters.wards.length === 0 || saving) return
+    if (issues.length > 0 || saving) return
 
     setSaving(true)
     setSaveError(false)
@@ -126,7 +161,7 @@ const SettingsPanel = ({ isOpen, onClose, onApply }: SettingsPanelProps) => {
       setSaving(false)
       setSaveError(true)
     }
-  }, [filters, saving, onApply, onClose])
+  }, [filters, issues, saving, onApply, onClose])
 
   // Clean up timer on unmount
   useEffect(() => {
@@ -208,12 +243,12 @@ const SettingsPanel = ({ isOpen, onClose, onApply }: SettingsPanelProps) => {
         {/* Header */}
         <div className="flex items-center justify-between border-b border-[var(--color-border)] px-4 py-3">
           <h2 className="text-lg font-bold text-[var(--color-text)]">
-            Search Filters
+            {t('searchFilters')}
           </h2>
           <button
             onClick={handleClose}
             disabled={!canClose}
-            aria-label="Close settings"
+            aria-label={t('closeSettings')}
             tabIndex={0}
             className="flex h-8 w-8 items-center justify-center rounded-lg text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-hover)] disabled:opacity-30"
           >
@@ -237,14 +272,37 @@ const SettingsPanel = ({ isOpen, onClose, onApply }: SettingsPanelProps) => {
           {loading ? (
             <div className="flex items-center justify-center py-16">
               <span className="text-sm text-[var(--color-text-secondary)]">
-                Loading settings...
+                {t('loadingSettings')}
               </span>
             </div>
           ) : (
-            <WardSelector
-              selectedWards={filters.wards}
-              onToggleWard={handleToggleWard}
-            />
+            <div className="space-y-6">
+              <LanguageSelector />
+              <WardSelector
+                wards={catalog.wards}
+                selectedWards={filters.wards}
+                onToggleWard={handleToggleWard}
+              />
+              <StationPicker
+                lines={catalog.lines}
+                stations={filters.stations}
+                stationNames={filters.stationNames}
+                onChange={handleFiltersChange}
+              />
+              <FilterEditor
+                filters={filters}
+                onChange={handleFiltersChange}
+              />
+              <SearchAreaEditor
+                searchArea={filters.searchArea}
+                onChange={handleSearchAreaChange}
+              />
+              <DealThresholdSelector
+                minDealScore={filters.minDealScore}
+                onChange={handleDealThresholdChange}
+              />
+              <ScheduleEditor />
+            </div>
           )}
         </div>
 
@@ -252,7 +310,7 @@ const SettingsPanel = ({ isOpen, onClose, onApply }: SettingsPanelProps) => {
         <div className="border-t border-[var(--color-border)] px-4 py-3">
           {saveError && (
             <p className="mb-2 text-center text-xs text-red-400">
-              Failed to apply filters. You can try again or close.
+              {t('applyFailed')}
             </p>
           )}
           <div className="flex items-center gap-3">
@@ -262,22 +320,25 @@ const SettingsPanel = ({ isOpen, onClose, onApply }: SettingsPanelProps) => {
               className="text-sm font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text)] disabled:opacity-30"
               tabIndex={0}
             >
-              Reset
+              {t('reset')}
             </button>
             <button
               onClick={handleApply}
-              disabled={saving || filters.wards.length === 0}
+              disabled={saving || issues.length > 0}
               className="flex-1 rounded-lg bg-[var(--color-accent)] px-4 py-2.5 text-sm font-semibold text-white transition-colors hover:bg-[var(--color-accent-hover)] disabled:opacity-50"
               tabIndex={0}
             >
-              {saving ? 'Applying...' : 'Apply Filters'}
+              {saving ? t('applying') : t('applyFilters')}
             </button>
           </div>
-          {filters.wards.length === 0 && (
-            <p className="mt-2 text-center text-xs text-red-400">
-              Select at least one ward
+          {issues.map((issue) => (
+            <p
+              key={issue.field}
+              className="mt-2 text-center text-xs text-red-400"
+            >
+              {t(issue.message)}
             </p>
-          )}
+          ))}
         </div>
       </div>
     </>
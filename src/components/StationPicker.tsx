@@ -0,0 +1,188 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { FilterSettings } from '@/lib/types'
+import type { StationEntry, TrainLineEntry } from '@/lib/station-data'
+import { searchLines, setStationsSelected } from '@/lib/filters'
+import { useLocale } from './LocaleProvider'
+
+type StationPickerProps = {
+  lines: TrainLineEntry[]
+  stations: number[]
+  stationNames: string[]
+  onChange: (changes: Pick<FilterSettings, 'stations' | 'stationNames'>) => void
+}
+
+/**
+ * Picks stations to search around, grouped by train line. Lines expand to
+ * their stations, or can be selected whole; a search narrows the list to
+ * matching lines and stations. Line IDs repeat across operators, so lines
+ * are told apart by name.
+ */
+const StationPicker = ({
+  lines,
+  stations,
+  stationNames,
+  onChange,
+}: StationPickerProps) => {
+  const { t } = useLocale()
+  const [query, setQuery] = useState('')
+  const [expanded, setExpanded] = useState<string[]>([])
+
+  const visibleLines = useMemo(() => searchLines(lines, query), [lines, query])
+  const selected = new Set(stations)
+  const isSearching = query.trim().length > 0
+
+  const select = (entries: StationEntry[], isSelected: boolean) =>
+    onChange(
+      setStationsSelected({ stations, stationNames }, entries, isSelected)
+    )
+
+  const toggleExpanded = (name: string) =>
+    setExpanded((prev) =>
+      prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]
+    )
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
+        {t('stations')}
+        {stations.length > 0 && (
+          <span className="ml-2 text-[var(--color-accent)]">
+            ({stations.length})
+          </span>
+        )}
+      </h3>
+
+      {stations.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {stations.map((id, i) => (
+            <span
+              key={id}
+              className="flex items-center gap-1 rounded-full border border-[var(--color-accent)]/40 bg-[var(--color-accent)]/20 py-0.5 pl-2.5 pr-1 text-xs font-medium text-[var(--color-accent)]"
+            >
+              {stationNames[i]}
+              <button
+                onClick={() => select([{ id, name: stationNames[i] }], false)}
+                aria-label={t('removeStation', { name: stationNames[i] })}
+                tabIndex={0}
+                className="flex h-4 w-4 items-center justify-center rounded-full hover:bg-[var(--color-accent)]/30"
+              >
+                <svg
+                  width="10"
+                  height="10"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="3"
+                  strokeLinecap="round"
+                >
+                  <path d="M18 6L6 18M6 6l12 12" />
+                </svg>
+              </button>
+            </span>
+          ))}
+          <button
+            onClick={() => onChange({ stations: [], stationNames: [] })}
+            tabIndex={0}
+            className="px-1 text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text)]"
+          >
+            {t('clearStations')}
+          </button>
+        </div>
+      )}
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={t('searchStations')}
+        aria-label={t('searchStations')}
+        className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-surface-hover)] px-3 py-2 text-sm text-[var(--color-text)] placeholder:text-[var(--color-text-secondary)]"
+      />
+
+      {visibleLines.length === 0 ? (
+        <p className="py-2 text-center text-xs text-[var(--color-text-secondary)]">
+          {t('noStationMatches')}
+        </p>
+      ) : (
+        <ul className="divide-y divide-[var(--color-border)] rounded-lg border border-[var(--color-border)]">
+          {visibleLines.map((line) => {
+            const fullLine = lines.find((l) => l.name === line.name) ?? line
+            const selectedCount = fullLine.stations.filter((s) =>
+              selected.has(s.id)
+            ).length
+            const isWholeLine = selectedCount === fullLine.stations.length
+            const isOpen = isSearching || expanded.includes(line.name)
+
+            return (
+              <li key={line.name} className="px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => toggleExpanded(line.name)}
+                    aria-expanded={isOpen}
+                    tabIndex={0}
+                    className="flex flex-1 items-center gap-2 text-left text-sm font-medium text-[var(--color-text)]"
+                  >
+                    <svg
+                      width="12"
+                      height="12"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2.5"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className={`shrink-0 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+                    >
+                      <path d="M9 18l6-6-6-6" />
+                    </svg>
+                    {line.name}
+                    {selectedCount > 0 && (
+                      <span className="text-xs text-[var(--color-accent)]">
+                        {selectedCount}/{fullLine.stations.length}
+                      </span>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => select(fullLine.stations, !isWholeLine)}
+                    aria-pressed={isWholeLine}
+                    tabIndex={0}
+                    className="shrink-0 text-xs font-medium text-[var(--color-accent)] hover:underline"
+                  >
+                    {isWholeLine ? t('clearLine') : t('selectLine')}
+                  </button>
+                </div>
+
+                {isOpen && (
+                  <div className="mt-2 flex flex-wrap gap-1.5 pl-5">
+                    {line.stations.map((station) => {
+                      const isSelected = selected.has(station.id)
+                      return (
+                        <button
+                          key={station.id}
+                          onClick={() => select([station], !isSelected)}
+                          aria-pressed={isSelected}
+                          tabIndex={0}
+                          className={`rounded-lg px-2.5 py-1 text-xs font-medium transition-colors ${
+                            isSelected
+                              ? 'bg-[var(--color-accent)]/20 text-[var(--color-accent)] border border-[var(--color-accent)]/40'
+                              : 'bg-[var(--color-surface-hover)] text-[var(--color-text-secondary)] border border-transparent hover:border-[var(--color-border)]'
+                          }`}
+                        >
+                          {station.name}
+                        </button>
+                      )
+                    })}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default StationPicker
@@ -0,0 +1,92 @@
+'use client'
+
+type ChartPoint = {
+  date: string
+  value: number
+  // Optional range drawn as a band around the line (e.g. 25th-75th percentile)
+  low?: number
+  high?: number
+}
+
+type StatsChartProps = {
+  title: string
+  points: ChartPoint[]
+  format: (value: number) => string
+}
+
+const WIDTH = 320
+const HEIGHT = 120
+const PADDING_Y = 8
+
+/**
+ * A small line chart of one daily statistic. Days without data are
+ * skipped rather than drawn as zero.
+ */
+const StatsChart = ({ title, points, format }: StatsChartProps) => {
+  if (points.length === 0) return null
+
+  const values = points.flatMap((p) => [p.value, p.low ?? p.value, p.high ?? p.value])
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const span = max - min || 1
+
+  const x = (i: number) =>
+    points.length === 1 ? WIDTH / 2 : (i / (points.length - 1)) * WIDTH
+  const y = (value: number) =>
+    PADDING_Y + (1 - (value - min) / span) * (HEIGHT - 2 * PADDING_Y)
+
+  const line = points.map((p, i) => `${x(i)},${y(p.value)}`).join(' ')
+  const hasBand = points.some((p) => p.low !== undefined && p.high !== undefined)
+  const band = hasBand
+    ? [
+        ...points.map((p, i) => `${x(i)},${y(p.high ?? p.value)}`),
+        ...points
+          .map((p, i) => `${x(i)},${y(p.low ?? p.value)}`)
+          .reverse(),
+      ].join(' ')
+    : null
+  const last = points[points.length - 1]
+
+  return (
+    <section className="rounded-xl border border-[var(--color-border)] bg-[var(--color-surface)] p-3">
+      <div className="mb-2 flex items-baseline justify-between gap-2">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
+          {title}
+        </h3>
+        <span className="text-sm font-semibold text-[var(--color-text)]">
+          {format(last.value)}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="block w-full"
+        role="img"
+        aria-label={title}
+        preserveAspectRatio="none"
+      >
+        {band && (
+          <polygon points={band} fill="var(--color-accent)" fillOpacity={0.15} />
+        )}
+        <polyline
+          points={line}
+          fill="none"
+          stroke="var(--color-accent)"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {points.length === 1 && (
+          <circle cx={x(0)} cy={y(last.value)} r={3} fill="var(--color-accent)" />
+        )}
+      </svg>
+      <div className="mt-1 flex justify-between text-[10px] text-[var(--color-text-secondary)]">
+        <span>{points[0].date}</span>
+        <span>
+          {format(min)} – {format(max)}
+        </span>
+        <span>{last.date}</span>
+      </div>
+    </section>
+  )
+}
+
+export default StatsChart
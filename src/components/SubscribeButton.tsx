@@ -1,12 +1,14 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import { useLocale } from './LocaleProvider'
 
 type SubscriptionState = 'unsupported' | 'prompt' | 'subscribed' | 'denied'
 
 const SubscribeButton = () => {
   const [state, setState] = useState<SubscriptionState>('prompt')
   const [loading, setLoading] = useState(false)
+  const { locale, t } = useLocale()
 
   useEffect(() => {
     if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
@@ -74,6 +76,7 @@ const SubscribeButton = () => {
           body: JSON.stringify({
             subscription: subscription.toJSON(),
             action: 'subscribe',
+            locale,
           }),
         })
 
@@ -84,12 +87,12 @@ const SubscribeButton = () => {
     } finally {
       setLoading(false)
     }
-  }, [state])
+  }, [state, locale])
 
   if (state === 'unsupported') {
     return (
       <div className="text-xs text-[var(--color-text-secondary)]">
-        Push notifications not supported
+        {t('pushUnsupported')}
       </div>
     )
   }
@@ -100,8 +103,8 @@ const SubscribeButton = () => {
       disabled={loading || state === 'denied'}
       aria-label={
         state === 'subscribed'
-          ? 'Disable push notifications'
-          : 'Enable push notifications'
+          ? t('disableNotificationsLabel')
+          : t('enableNotificationsLabel')
       }
       className={`flex items-center gap-2 rounded-full px-4 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
         state === 'subscribed'
@@ -125,12 +128,12 @@ const SubscribeButton = () => {
         <path d="M13.73 21a2 2 0 0 1-3.46 0" />
       </svg>
       {loading
-        ? 'Loading...'
+        ? t('loading')
         : state === 'subscribed'
-          ? 'Notifications On'
+          ? t('notificationsOn')
           : state === 'denied'
-            ? 'Notifications Blocked'
-            : 'Enable Notifications'}
+            ? t('notificationsBlocked')
+            : t('enableNotifications')}
     </button>
   )
 }
@@ -1,17 +1,25 @@
 'use client'
 
-import { WARDS } from '@/lib/station-data'
+import type { WardEntry } from '@/lib/station-data'
+import { useLocale } from './LocaleProvider'
 
 type WardSelectorProps = {
+  wards: WardEntry[]
   selectedWards: number[]
   onToggleWard: (wardId: number) => void
 }
 
-const WardSelector = ({ selectedWards, onToggleWard }: WardSelectorProps) => {
+const WardSelector = ({
+  wards,
+  selectedWards,
+  onToggleWard,
+}: WardSelectorProps) => {
+  const { t } = useLocale()
+
   return (
     <div className="space-y-2">
       <h3 className="text-sm font-semibold uppercase tracking-wider text-[var(--color-text-secondary)]">
-        Wards
+        {t('wards')}
         {selectedWards.length > 0 && (
           <span className="ml-2 text-[var(--color-accent)]">
             ({selectedWards.length})
@@ -19,7 +27,7 @@ const WardSelector = ({ selectedWards, onToggleWard }: WardSelectorProps) => {
         )}
       </h3>
       <div className="grid grid-cols-2 gap-2">
-        {WARDS.map((ward) => {
+        {wards.map((ward) => {
           const isSelected = selectedWards.includes(ward.id)
           return (
             <button
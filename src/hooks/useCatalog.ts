@@ -0,0 +1,64 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { CatalogSnapshot } from '@/lib/types'
+import { BUNDLED_CATALOG } from '@/lib/station-data'
+
+const STORAGE_KEY = 'aparto_catalog'
+
+const readCatalog = (): CatalogSnapshot | null => {
+  if (typeof window === 'undefined') return null
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as CatalogSnapshot) : null
+  } catch {
+    return null
+  }
+}
+
+const writeCatalog = (catalog: CatalogSnapshot): void => {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(catalog))
+  } catch (e) {
+    console.error('Failed to write catalog to localStorage:', e)
+  }
+}
+
+/**
+ * Wards, lines and stations for the filter UI. Starts from the last catalog
+ * seen on this device (or the bundled one) and swaps in the server's
+ * current snapshot once it loads, so offline use keeps working.
+ */
+export const useCatalog = (): CatalogSnapshot => {
+  const [catalog, setCatalog] = useState<CatalogSnapshot>(BUNDLED_CATALOG)
+
+  useEffect(() => {
+    let cancelled = false
+    const loadCatalog = async () => {
+      const stored = readCatalog()
+      if (stored) setCatalog(stored)
+
+      try {
+        const resp = await fetch('/api/catalog')
+        if (!resp.ok) return
+        const data = (await resp.json()) as CatalogSnapshot
+        if (cancelled) return
+        // Don't let a server that fell back to bundled data overwrite
+        // a newer live snapshot we already have
+        if (stored && stored.version > data.version) return
+        setCatalog(data)
+        writeCatalog(data)
+      } catch (e) {
+        console.error('Failed to load catalog:', e)
+      }
+    }
+
+    loadCatalog()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return catalog
+}
@@ -0,0 +1,11 @@
+/**
+ * Runs once when the server starts. In local development this starts the
+ * in-process stand-in for the QStash poll schedule.
+ */
+export const register = async () => {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+  if (process.env.NODE_ENV !== 'development') return
+
+  const { startDevScheduler } = await import('./lib/dev-scheduler')
+  startDevScheduler()
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { ArchiveEntry, Listing, ListingLifecycle } from './types'
+import { buildArchiveEntries, searchArchive } from './archive'
+
+vi.mock('./redis', () => ({
+  getArchiveEntriesByKey: vi.fn(),
+  saveArchive: vi.fn(),
+}))
+
+const NOW = '2025-03-10T03:00:00.000Z'
+const YESTERDAY = '2025-03-09T03:00:00.000Z'
+
+const listing = (key: string, rentAmount = 200000): Listing =>
+  ({
+    key,
+    name: 'Park Axis Ebisu',
+    nameLangs: { en: 'Park Axis Ebisu', ja: 'パークアクシス恵比寿' },
+    address: 'Ebisu, Shibuya-ku',
+    addressLangs: {},
+    ward: 'shibuya',
+    layout: '2LDK',
+    rentAmount,
+    sizeSqm: 55,
+    nearestStation: null,
+  }) as unknown as Listing
+
+const lifecycle = (
+  key: string,
+  overrides: Partial<ListingLifecycle> = {}
+): ListingLifecycle => ({
+  key,
+  firstSeenAt: '2025-03-01T03:00:00.000Z',
+  lastSeenAt: NOW,
+  missedPolls: 0,
+  delistedAt: null,
+  ...overrides,
+})
+
+const entry = (
+  key: string,
+  overrides: Partial<ArchiveEntry> = {}
+): ArchiveEntry => ({
+  key,
+  name: 'Grand Meguro',
+  nameLangs: {},
+  address: 'Kamimeguro, Meguro-ku',
+  addressLangs: {},
+  ward: 'meguro',
+  layout: '1LDK',
+  rentAmount: 180000,
+  sizeSqm: 40,
+  nearestStation: {
+    name: 'Nakameguro',
+    nameLangs: { ja: '中目黒' },
+    walkingMinutes: 5,
+  },
+  firstSeenAt: '2025-02-01T03:00:00.000Z',
+  lastSeenAt: '2025-02-20T03:00:00.000Z',
+  delistedAt: null,
+  ...overrides,
+})
+
+describe('buildArchiveEntries', () => {
+  it('archives current listings with their lifecycle dates', () => {
+    const [archived] = buildArchiveEntries(
+      [listing('a')],
+      [],
+      [],
+      new Map([['a', lifecycle('a')]]),
+      new Map(),
+      NOW
+    )
+    expect(archived).toMatchObject({
+      key: 'a',
+      layout: '2LDK',
+      rentAmount: 200000,
+      firstSeenAt: '2025-03-01T03:00:00.000Z',
+      lastSeenAt: NOW,
+      delistedAt: null,
+    })
+  })
+
+  it('keeps the first sighting of a listing seen before', () => {
+    const [archived] = buildArchiveEntries(
+      [listing('a', 190000)],
+      [],
+      [],
+      new Map([['a', lifecycle('a', { firstSeenAt: NOW })]]),
+      new Map([['a', entry('a', { delistedAt: '2025-02-21T03:00:00.000Z' })]]),
+      NOW
+    )
+    expect(archived.firstSeenAt).toBe('2025-02-01T03:00:00.000Z')
+    expect(archived.rentAmount).toBe(190000)
+    expect(archived.delistedAt).toBeNull()
+  })
+
+  it('marks delisted listings without changing their details', () => {
+    const delistedAt = '2025-03-10T02:00:00.000Z'
+    const archived = buildArchiveEntries(
+      [],
+      ['b', 'unknown'],
+      [],
+      new Map([['b', lifecycle('b', { lastSeenAt: YESTERDAY, delistedAt })]]),
+      new Map([['b', entry('b')]]),
+      NOW
+    )
+    expect(archived).toEqual([
+      entry('b', { lastSeenAt: YESTERDAY, delistedAt }),
+    ])
+  })
+
+  it('keeps an earlier delisting date', () => {
+    const delistedAt = '2025-02-21T03:00:00.000Z'
+    const [archived] = buildArchiveEntries(
+      [],
+      ['b'],
+      [],
+      new Map(),
+      new Map([['b', entry('b', { delistedAt })]]),
+      NOW
+    )
+    expect(archived.delistedAt).toBe(delistedAt)
+  })
+
+  it('keeps listings dropped by a re-seed active', () => {
+    const archived = buildArchiveEntries(
+      [],
+      [],
+      ['b'],
+      new Map([['b', lifecycle('b', { lastSeenAt: YESTERDAY })]]),
+      new Map([['b', entry('b')]]),
+      NOW
+    )
+    expect(archived).toEqual([entry('b', { lastSeenAt: YESTERDAY })])
+  })
+})
+
+describe('searchArchive', () => {
+  const entries = [
+    entry('meguro'),
+    entry('ebisu', {
+      name: 'Park Axis Ebisu',
+      address: 'Ebisu, Shibuya-ku',
+      ward: 'shibuya',
+      layout: '2LDK',
+      rentAmount: 250000,
+      nearestStation: null,
+      firstSeenAt: '2025-02-10T03:00:00.000Z',
+      lastSeenAt: '2025-02-25T03:00:00.000Z',
+      delistedAt: '2025-02-26T03:00:00.000Z',
+    }),
+    entry('recent', { firstSeenAt: NOW, lastSeenAt: NOW }),
+  ]
+  const keys = (query: Parameters<typeof searchArchive>[1]) =>
+    searchArchive(entries, query).map((e) => e.key)
+
+  it('returns everything, most recently seen first', () => {
+    expect(keys({})).toEqual(['recent', 'ebisu', 'meguro'])
+  })
+
+  it('needs every word of the text to match', () => {
+    expect(keys({ text: '2ldk EBISU' })).toEqual(['ebisu'])
+    expect(keys({ text: '中目黒' })).toEqual(['recent', 'meguro'])
+    expect(keys({ text: '2LDK meguro' })).toEqual([])
+  })
+
+  it('filters by ward, rent and status', () => {
+    expect(keys({ ward: 'shibuya' })).toEqual(['ebisu'])
+    expect(keys({ priceFrom: 200000 })).toEqual(['ebisu'])
+    expect(keys({ priceTo: 200000 })).toEqual(['recent', 'meguro'])
+    expect(keys({ status: 'delisted' })).toEqual(['ebisu'])
+    expect(keys({ status: 'active' })).toEqual(['recent', 'meguro'])
+  })
+
+  it('keeps listings that were listed during the date range', () => {
+    expect(keys({ seenFrom: '2025-02-21', seenTo: '2025-02-28' })).toEqual([
+      'ebisu',
+    ])
+    expect(keys({ seenTo: '2025-02-05' })).toEqual(['meguro'])
+    expect(keys({ seenFrom: '2025-03-10' })).toEqual(['recent'])
+  })
+})
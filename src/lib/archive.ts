@@ -0,0 +1,176 @@
+import type {
+  ArchiveEntry,
+  ArchiveQuery,
+  Listing,
+  ListingLifecycle,
+  Property,
+} from './types'
+import { getArchiveEntriesByKey, saveArchive } from './redis'
+import { statsDate } from './stats'
+
+/**
+ * The permanent property archive. Lifecycle records, price records and
+ * the cached listings all let go of a property some time after it leaves
+ * the search; the archive keeps its last full record and when it was
+ * listed, so old listings can still be looked up and compared.
+ */
+
+/**
+ * The archive entry for a listing seen in this poll. The first sighting
+ * is kept from an earlier entry, since lifecycle records are recreated
+ * when a listing comes back long after expiring.
+ */
+export const toArchiveEntry = (
+  listing: Listing,
+  lifecycle: ListingLifecycle | undefined,
+  previous: ArchiveEntry | undefined,
+  timestamp: string
+): ArchiveEntry => ({
+  key: listing.key,
+  name: listing.name,
+  nameLangs: listing.nameLangs,
+  address: listing.address,
+  addressLangs: listing.addressLangs,
+  ward: listing.ward,
+  layout: listing.layout,
+  rentAmount: listing.rentAmount,
+  sizeSqm: listing.sizeSqm,
+  nearestStation: listing.nearestStation,
+  firstSeenAt: previous?.firstSeenAt ?? lifecycle?.firstSeenAt ?? timestamp,
+  lastSeenAt: lifecycle?.lastSeenAt ?? timestamp,
+  delistedAt: lifecycle?.delistedAt ?? null,
+})
+
+/**
+ * Works out which archive entries one poll writes: every listing in the
+ * results, plus the delisting of listings that left them. A delisted
+ * listing keeps its last snapshot. Listings dropped because the search
+ * changed weren't delisted, so they only get their last sighting.
+ */
+export const buildArchiveEntries = (
+  listings: Listing[],
+  delistedKeys: string[],
+  droppedKeys: string[],
+  lifecycles: Map<string, ListingLifecycle>,
+  previous: Map<string, ArchiveEntry>,
+  timestamp: string
+): ArchiveEntry[] => {
+  const entries = listings.map((listing) =>
+    toArchiveEntry(
+      listing,
+      lifecycles.get(listing.key),
+      previous.get(listing.key),
+      timestamp
+    )
+  )
+
+  for (const key of delistedKeys) {
+    const entry = previous.get(key)
+    // Listings delisted before the archive existed have nothing to update
+    if (!entry) continue
+    const lifecycle = lifecycles.get(key)
+    entries.push({
+      ...entry,
+      lastSeenAt: lifecycle?.lastSeenAt ?? entry.lastSeenAt,
+      delistedAt: entry.delistedAt ?? lifecycle?.delistedAt ?? timestamp,
+    })
+  }
+
+  for (const key of droppedKeys) {
+    const entry = previous.get(key)
+    if (!entry) continue
+    const lifecycle = lifecycles.get(key)
+    entries.push({
+      ...entry,
+      lastSeenAt: lifecycle?.lastSeenAt ?? entry.lastSeenAt,
+    })
+  }
+
+  return entries
+}
+
+const searchText = (entry: ArchiveEntry): string =>
+  [
+    entry.name,
+    ...Object.values(entry.nameLangs),
+    entry.address,
+    ...Object.values(entry.addressLangs),
+    entry.ward ?? '',
+    entry.layout,
+    entry.nearestStation?.name ?? '',
+    ...Object.values(entry.nearestStation?.nameLangs ?? {}),
+  ]
+    .join('\n')
+    .toLowerCase()
+
+const matchesQuery = (entry: ArchiveEntry, query: ArchiveQuery): boolean => {
+  if (query.ward && entry.ward !== query.ward) return false
+  if (query.priceFrom !== undefined && entry.rentAmount < query.priceFrom) {
+    return false
+  }
+  if (query.priceTo !== undefined && entry.rentAmount > query.priceTo) {
+    return false
+  }
+  if (query.seenFrom && statsDate(entry.lastSeenAt) < query.seenFrom) {
+    return false
+  }
+  if (query.seenTo && statsDate(entry.firstSeenAt) > query.seenTo) {
+    return false
+  }
+  if (query.status === 'active' && entry.delistedAt) return false
+  if (query.status === 'delisted' && !entry.delistedAt) return false
+
+  const terms = query.text?.toLowerCase().split(/\s+/).filter(Boolean) ?? []
+  if (terms.length === 0) return true
+  const text = searchText(entry)
+  return terms.every((term) => text.includes(term))
+}
+
+/**
+ * Returns the archive entries matching a query, most recently seen first.
+ */
+export const searchArchive = (
+  entries: ArchiveEntry[],
+  query: ArchiveQuery
+): ArchiveEntry[] =>
+  entries
+    .filter((entry) => matchesQuery(entry, query))
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+
+/**
+ * Archives a poll's e-housing listings with their full records, marks the
+ * ones delisted this round and updates the ones a re-seed dropped. Never
+ * throws; the archive mustn't fail a poll.
+ */
+export const recordArchive = async (
+  listings: Listing[],
+  delistedKeys: string[],
+  droppedKeys: string[],
+  lifecycles: ListingLifecycle[],
+  timestamp: string
+): Promise<void> => {
+  try {
+    // The archive keeps records in the shape the dashboard renders
+    const archived = listings.filter((l) => l.source === 'ehousing')
+    const previous = await getArchiveEntriesByKey([
+      ...archived.map((l) => l.key),
+      ...delistedKeys,
+      ...droppedKeys,
+    ])
+    const entries = buildArchiveEntries(
+      archived,
+      delistedKeys,
+      droppedKeys,
+      new Map(lifecycles.map((record) => [record.key, record])),
+      previous,
+      timestamp
+    )
+    const properties = new Map(
+      archived.map((l) => [l.key, l.raw as Property])
+    )
+    await saveArchive(entries, properties)
+    console.log(`[archive] Archived ${entries.length} listings`)
+  } catch (error) {
+    console.error('[archive] Failed to update the property archive:', error)
+  }
+}
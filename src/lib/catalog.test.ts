@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { normalizeLines, normalizeWards, refreshCatalog } from './catalog'
+import { getCatalogSnapshot, saveCatalogSnapshot } from './redis'
+import type { CatalogSnapshot } from './types'
+
+vi.mock('./redis', () => ({
+  getCatalogSnapshot: vi.fn(),
+  saveCatalogSnapshot: vi.fn(),
+  getCircuitState: vi.fn(async () => null),
+  setCircuitState: vi.fn(),
+  clearCircuitState: vi.fn(),
+}))
+
+const WARDS_RESPONSE = {
+  data: [
+    { id: 2, slug: 'shibuya', name: 'Shibuya Ward' },
+    { id: 1, slug: 'minato', name: { en: 'Minato', ja: '港区' } },
+    { id: 15, slug: 'musashino-shi' },
+  ],
+}
+
+const LINES_RESPONSE = [
+  {
+    id: 101,
+    name: 'Ginza Line',
+    stations: [
+      { id: 101, name: 'Shibuya' },
+      { id: 102, name: 'Omotesando' },
+    ],
+  },
+]
+
+const mockFetch = () =>
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) =>
+    Response.json(
+      String(input).endsWith('/wards') ? WARDS_RESPONSE : LINES_RESPONSE
+    )
+  )
+
+describe('normalizeWards', () => {
+  it('accepts enveloped, localized and unnamed wards', () => {
+    expect(normalizeWards(WARDS_RESPONSE)).toEqual([
+      { id: 1, name: 'Minato', slug: 'minato' },
+      { id: 2, name: 'Shibuya', slug: 'shibuya' },
+      { id: 15, name: 'Musashino-Shi', slug: 'musashino-shi' },
+    ])
+  })
+
+  it('skips records without an id or slug', () => {
+    expect(normalizeWards([{ id: 1 }, { slug: 'minato' }, null])).toEqual([])
+  })
+})
+
+describe('normalizeLines', () => {
+  it('keeps station order and drops lines without stations', () => {
+    expect(
+      normalizeLines([
+        ...LINES_RESPONSE,
+        { id: 200, name: 'Empty Line', trainStations: [] },
+      ])
+    ).toEqual(LINES_RESPONSE)
+  })
+})
+
+describe('refreshCatalog', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    vi.mocked(saveCatalogSnapshot).mockReset()
+    mockFetch()
+  })
+
+  it('stores the first live snapshot as version 1', async () => {
+    vi.mocked(getCatalogSnapshot).mockResolvedValue(null)
+
+    const result = await refreshCatalog()
+
+    expect(result.changed).toBe(true)
+    expect(result.snapshot.version).toBe(1)
+    expect(result.snapshot.source).toBe('live')
+    expect(saveCatalogSnapshot).toHaveBeenCalledWith(result.snapshot)
+  })
+
+  it('keeps the current version when nothing changed', async () => {
+    const current: CatalogSnapshot = {
+      version: 3,
+      source: 'live',
+      fetchedAt: '2026-01-01T00:00:00.000Z',
+      wards: normalizeWards(WARDS_RESPONSE),
+      lines: normalizeLines(LINES_RESPONSE),
+    }
+    vi.mocked(getCatalogSnapshot).mockResolvedValue(current)
+
+    const result = await refreshCatalog()
+
+    expect(result.changed).toBe(false)
+    expect(result.snapshot).toBe(current)
+    expect(saveCatalogSnapshot).not.toHaveBeenCalled()
+  })
+
+  it('refuses to store an empty catalog', async () => {
+    vi.mocked(getCatalogSnapshot).mockResolvedValue(null)
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+      Response.json([])
+    )
+
+    await expect(refreshCatalog()).rejects.toThrow(/0 wards/)
+    expect(saveCatalogSnapshot).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,196 @@
+import type { CatalogSnapshot } from './types'
+import type { StationEntry, TrainLineEntry, WardEntry } from './station-data'
+import { BUNDLED_CATALOG } from './station-data'
+import { getCatalogSnapshot, saveCatalogSnapshot } from './redis'
+import { httpRequest } from './http'
+
+// e-housing's own API, the same one its search filters are populated from
+const WARDS_URL = 'https://api.e-housing.jp/wards'
+const TRAIN_LINES_URL = 'https://api.e-housing.jp/train-lines'
+
+const REQUEST_HEADERS = {
+  Accept: 'application/json',
+  'Accept-Language': 'en-US,en;q=0.9',
+}
+
+// The API has its own breaker, so its hiccups don't stop the scraper
+const CIRCUIT = 'ehousing-api'
+
+// Syncs run from the settings panel, which shouldn't wait long
+const TIMEOUT_MS = 10000
+
+export type CatalogSyncResult = {
+  snapshot: CatalogSnapshot
+  changed: boolean
+  addedWards: number
+  removedWards: number
+  addedStations: number
+  removedStations: number
+}
+
+/**
+ * Returns the latest synced catalog, falling back to the bundled
+ * station-data tables if nothing has been synced yet or Redis is down.
+ */
+export const getCatalog = async (): Promise<CatalogSnapshot> => {
+  try {
+    return (await getCatalogSnapshot()) ?? BUNDLED_CATALOG
+  } catch (error) {
+    console.error('[catalog] Failed to read catalog, using bundled data:', error)
+    return BUNDLED_CATALOG
+  }
+}
+
+/**
+ * Fetches the current wards, lines and stations from e-housing and stores
+ * them as a new snapshot version if anything changed.
+ */
+export const refreshCatalog = async (): Promise<CatalogSyncResult> => {
+  const [wardsData, linesData] = await Promise.all([
+    fetchJson(WARDS_URL),
+    fetchJson(TRAIN_LINES_URL),
+  ])
+
+  const wards = normalizeWards(wardsData)
+  const lines = normalizeLines(linesData)
+
+  // An empty response is far more likely to be an API hiccup than e-housing
+  // dropping every ward, so never replace a good snapshot with one
+  if (wards.length === 0 || lines.length === 0) {
+    throw new Error(
+      `Catalog sync returned ${wards.length} wards and ${lines.length} lines`
+    )
+  }
+
+  const current = await getCatalog()
+  const diff = diffCatalogs(current, wards, lines)
+  const changed =
+    current.source === 'bundled' ||
+    JSON.stringify(current.wards) !== JSON.stringify(wards) ||
+    JSON.stringify(current.lines) !== JSON.stringify(lines)
+
+  if (!changed) {
+    return { snapshot: current, changed, ...diff }
+  }
+
+  const snapshot: CatalogSnapshot = {
+    version: current.version + 1,
+    source: 'live',
+    fetchedAt: new Date().toISOString(),
+    wards,
+    lines,
+  }
+  await saveCatalogSnapshot(snapshot)
+
+  return { snapshot, changed, ...diff }
+}
+
+const fetchJson = async (url: string): Promise<unknown> => {
+  const response = await httpRequest(url, {
+    headers: REQUEST_HEADERS,
+    next: { revalidate: 0 },
+    circuit: CIRCUIT,
+    timeoutMs: TIMEOUT_MS,
+  })
+  return JSON.parse(response.text)
+}
+
+// --- Normalization ---
+
+// Lists come either bare or wrapped in a `data` envelope
+const unwrapList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value
+  if (value && typeof value === 'object') {
+    const data = (value as Record<string, unknown>).data
+    if (Array.isArray(data)) return data
+  }
+  return []
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+
+// Names are sometimes localized as { en, ja }; we display English
+const toName = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.trim()) return value.trim()
+  const en = asRecord(value).en
+  return typeof en === 'string' && en.trim() ? en.trim() : null
+}
+
+// "Minato Ward" and "Minato-ku" are shown as plain "Minato"
+const stripWardSuffix = (name: string): string =>
+  name.replace(/(\s+Ward|-ku)$/i, '')
+
+const titleCase = (slug: string): string =>
+  slug
+    .split('-')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('-')
+
+export const normalizeWards = (data: unknown): WardEntry[] => {
+  const wards: WardEntry[] = []
+  for (const item of unwrapList(data)) {
+    const record = asRecord(item)
+    const id = record.id
+    const slug = record.slug
+    if (typeof id !== 'number' || typeof slug !== 'string') continue
+
+    const name = toName(record.name) ?? titleCase(slug)
+    wards.push({ id, name: stripWardSuffix(name), slug })
+  }
+  return wards.sort((a, b) => a.id - b.id)
+}
+
+const normalizeStations = (data: unknown): StationEntry[] => {
+  const stations: StationEntry[] = []
+  for (const item of unwrapList(data)) {
+    const record = asRecord(item)
+    const name = toName(record.name)
+    if (typeof record.id !== 'number' || !name) continue
+    stations.push({ id: record.id, name })
+  }
+  return stations
+}
+
+export const normalizeLines = (data: unknown): TrainLineEntry[] => {
+  const lines: TrainLineEntry[] = []
+  for (const item of unwrapList(data)) {
+    const record = asRecord(item)
+    const name = toName(record.name)
+    if (typeof record.id !== 'number' || !name) continue
+
+    // Station order follows the line, so keep it as served
+    const stations = normalizeStations(
+      record.stations ?? record.trainStations ?? record.train_stations
+    )
+    if (stations.length === 0) continue
+    lines.push({ id: record.id, name, stations })
+  }
+  return lines
+}
+
+const stationIds = (lines: TrainLineEntry[]): Set<number> =>
+  new Set(lines.flatMap((line) => line.stations.map((s) => s.id)))
+
+const countMissing = <T>(from: Set<T>, other: Set<T>): number =>
+  Array.from(from).filter((id) => !other.has(id)).length
+
+const diffCatalogs = (
+  current: CatalogSnapshot,
+  wards: WardEntry[],
+  lines: TrainLineEntry[]
+) => {
+  const oldWards = new Set(current.wards.map((w) => w.id))
+  const newWards = new Set(wards.map((w) => w.id))
+  const oldStations = stationIds(current.lines)
+  const newStations = stationIds(lines)
+
+  return {
+    addedWards: countMissing(newWards, oldWards),
+    removedWards: countMissing(oldWards, newWards),
+    addedStations: countMissing(newStations, oldStations),
+    removedStations: countMissing(oldStations, newStations),
+  }
+}
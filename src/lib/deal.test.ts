@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { DealRating, Listing } from './types'
+import { meetsDealThreshold, rateDeals, sizeBand } from './deal'
+
+vi.mock('./redis', () => ({}))
+
+const listing = (
+  key: string,
+  rentAmount: number,
+  overrides: Partial<Listing> = {}
+): Listing =>
+  ({
+    key,
+    ward: 'minato',
+    layout: '1LDK',
+    sizeSqm: 50,
+    rentAmount,
+    keyMoney: 0,
+    securityDeposit: rentAmount,
+    ...overrides,
+  }) as Listing
+
+describe('sizeBand', () => {
+  it('puts sizes into fixed bands', () => {
+    expect(sizeBand(25)).toBe(0)
+    expect(sizeBand(45)).toBe(2)
+    expect(sizeBand(59.9)).toBe(2)
+    expect(sizeBand(120)).toBe(5)
+  })
+})
+
+describe('rateDeals', () => {
+  it('rates the median listing 5 and cheaper ones higher', () => {
+    const deals = rateDeals([
+      listing('a', 200000),
+      listing('b', 250000),
+      listing('c', 250000),
+      listing('d', 250000),
+      listing('e', 300000),
+    ])
+
+    expect(deals.get('b')?.score).toBe(5)
+    expect(deals.get('b')?.scope).toBe('ward-layout-size')
+    expect(deals.get('b')?.comparables).toBe(4)
+    // 20% below the others' median on both rent and move-in cost
+    expect(deals.get('a')?.score).toBe(10)
+    expect(deals.get('a')?.rentPerSqm).toBe(4000)
+    expect(deals.get('a')?.comparableRentPerSqm).toBe(5000)
+    expect(deals.get('e')?.score).toBe(0)
+  })
+
+  it('counts key money and deposits towards the score', () => {
+    const deals = rateDeals([
+      listing('a', 250000, { keyMoney: 250000 }),
+      listing('b', 250000),
+      listing('c', 250000),
+      listing('d', 250000),
+    ])
+
+    expect(deals.get('a')?.moveInCost).toBe(750000)
+    expect(deals.get('a')?.comparableMoveInCost).toBe(500000)
+    expect(deals.get('a')?.score).toBeLessThan(5)
+  })
+
+  it('falls back to broader groups when too few listings compare', () => {
+    const deals = rateDeals([
+      listing('a', 250000),
+      listing('b', 250000, { ward: 'shibuya' }),
+      listing('c', 250000, { ward: 'meguro', layout: '2LDK' }),
+      listing('d', 250000, { sizeSqm: 90 }),
+    ])
+
+    expect(deals.get('a')?.scope).toBe('all')
+  })
+
+  it('skips listings without a size or enough comparables', () => {
+    const deals = rateDeals([
+      listing('a', 250000, { sizeSqm: 0 }),
+      listing('b', 250000),
+      listing('c', 250000),
+    ])
+
+    expect(deals.size).toBe(0)
+  })
+})
+
+describe('meetsDealThreshold', () => {
+  const rating = { score: 6.5 } as DealRating
+
+  it('passes everything without a threshold', () => {
+    expect(meetsDealThreshold(rating, undefined)).toBe(true)
+  })
+
+  it('compares the score with the threshold', () => {
+    expect(meetsDealThreshold(rating, 6)).toBe(true)
+    expect(meetsDealThreshold(rating, 7)).toBe(false)
+  })
+
+  it('passes listings that could not be rated', () => {
+    expect(meetsDealThreshold(undefined, 8)).toBe(true)
+  })
+})
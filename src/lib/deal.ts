@@ -0,0 +1,120 @@
+import type { DealRating, DealScope, Listing } from './types'
+import { normalizeLayout, percentile } from './stats'
+
+/**
+ * Rates each listing's price against similar listings in the same
+ * results: same ward, layout and size band where there are enough of
+ * them, falling back to broader groups where there aren't. Pure; the
+ * listings are the cross-section a poll just fetched.
+ */
+
+// Fewest other listings a group needs before it's used for comparison
+export const MIN_COMPARABLES = 3
+
+// Upper edges of the size bands, in m²
+const SIZE_BAND_EDGES = [30, 45, 60, 80, 100]
+
+// Rent per m² decides most of the score; key money and deposit the rest
+const RENT_WEIGHT = 0.75
+const MOVE_IN_WEIGHT = 0.25
+
+// Score points per 1% below (or above) the comparable median, so 20%
+// cheaper rates 10 and 20% dearer rates 0
+const POINTS_PER_PERCENT = 0.25
+
+export const sizeBand = (sizeSqm: number): number => {
+  const index = SIZE_BAND_EDGES.findIndex((edge) => sizeSqm < edge)
+  return index === -1 ? SIZE_BAND_EDGES.length : index
+}
+
+export const moveInCost = (listing: Listing): number =>
+  listing.rentAmount + listing.keyMoney + listing.securityDeposit
+
+const groupKeys = (listing: Listing): Record<DealScope, string> => {
+  const ward = listing.ward ?? ''
+  const layout = normalizeLayout(listing.layout)
+  const band = sizeBand(listing.sizeSqm)
+  return {
+    'ward-layout-size': `${ward}/${layout}/${band}`,
+    'ward-size': `${ward}/${band}`,
+    size: String(band),
+    all: '',
+  }
+}
+
+const SCOPES: DealScope[] = ['ward-layout-size', 'ward-size', 'size', 'all']
+
+const median = (values: number[]): number =>
+  percentile([...values].sort((a, b) => a - b), 0.5)
+
+/**
+ * Deal ratings for every listing with a known size, keyed by listing key.
+ * A listing isn't rated when fewer than `MIN_COMPARABLES` others exist.
+ */
+export const rateDeals = (listings: Listing[]): Map<string, DealRating> => {
+  const rated = listings.filter((l) => l.sizeSqm > 0)
+  const groups = new Map<string, Listing[]>()
+  for (const listing of rated) {
+    for (const scope of SCOPES) {
+      const key = `${scope}:${groupKeys(listing)[scope]}`
+      const group = groups.get(key) ?? []
+      group.push(listing)
+      groups.set(key, group)
+    }
+  }
+
+  const ratings = new Map<string, DealRating>()
+  for (const listing of rated) {
+    const keys = groupKeys(listing)
+    for (const scope of SCOPES) {
+      const comparables = (groups.get(`${scope}:${keys[scope]}`) ?? []).filter(
+        (other) => other.key !== listing.key
+      )
+      if (comparables.length < MIN_COMPARABLES) continue
+
+      ratings.set(listing.key, rateAgainst(listing, comparables, scope))
+      break
+    }
+  }
+  return ratings
+}
+
+const rateAgainst = (
+  listing: Listing,
+  comparables: Listing[],
+  scope: DealScope
+): DealRating => {
+  const rentPerSqm = listing.rentAmount / listing.sizeSqm
+  const comparableRentPerSqm = median(
+    comparables.map((l) => l.rentAmount / l.sizeSqm)
+  )
+  const comparableMoveInCost =
+    median(comparables.map((l) => moveInCost(l) / l.sizeSqm)) *
+    listing.sizeSqm
+
+  const rentDiscount = 1 - rentPerSqm / comparableRentPerSqm
+  const moveInDiscount = 1 - moveInCost(listing) / comparableMoveInCost
+  const discountPercent =
+    (RENT_WEIGHT * rentDiscount + MOVE_IN_WEIGHT * moveInDiscount) * 100
+  const score = Math.min(10, Math.max(0, 5 + discountPercent * POINTS_PER_PERCENT))
+
+  return {
+    score: Math.round(score * 10) / 10,
+    rentPerSqm: Math.round(rentPerSqm),
+    comparableRentPerSqm: Math.round(comparableRentPerSqm),
+    moveInCost: moveInCost(listing),
+    comparableMoveInCost: Math.round(comparableMoveInCost),
+    comparables: comparables.length,
+    scope,
+  }
+}
+
+/**
+ * Whether a new listing should be pushed under the filters' deal score
+ * threshold. Listings that couldn't be rated are always pushed.
+ */
+export const meetsDealThreshold = (
+  rating: DealRating | undefined,
+  minDealScore: number | undefined
+): boolean =>
+  minDealScore === undefined || !rating || rating.score >= minDealScore
@@ -0,0 +1,47 @@
+import { getSchedulerMode, loadPollSchedule } from './scheduler'
+import { pollIntervalAt } from './schedule'
+
+/**
+ * Stand-in for QStash during local development: calls this server's own
+ * /api/poll on the same adaptive schedule, including bursts. Started from
+ * instrumentation; set `DEV_SCHEDULER=off` to disable it.
+ */
+
+// How often the scheduler checks whether a poll is due
+const TICK_MS = 60 * 1000
+
+// Survives hot reloads, which re-run instrumentation
+const state = globalThis as typeof globalThis & {
+  devSchedulerStarted?: boolean
+}
+
+export const startDevScheduler = () => {
+  if (state.devSchedulerStarted || getSchedulerMode() !== 'local') return
+  state.devSchedulerStarted = true
+
+  const url = `http://localhost:${process.env.PORT ?? 3000}/api/poll`
+  // The first poll waits a full interval, so restarts don't hammer the site
+  let lastPollAt = Date.now()
+  let polling = false
+
+  const tick = async () => {
+    if (polling) return
+    try {
+      const interval = pollIntervalAt(await loadPollSchedule())
+      if (Date.now() - lastPollAt < interval * 60000) return
+
+      polling = true
+      lastPollAt = Date.now()
+      console.log(`[dev-scheduler] Polling (every ${interval} min)`)
+      const response = await fetch(url, { method: 'POST' })
+      console.log(`[dev-scheduler] Poll finished with ${response.status}`)
+    } catch (error) {
+      console.error('[dev-scheduler] Poll failed:', error)
+    } finally {
+      polling = false
+    }
+  }
+
+  setInterval(tick, TICK_MS).unref()
+  console.log(`[dev-scheduler] Polling ${url} on the adaptive schedule`)
+}
@@ -0,0 +1,77 @@
+import type { DriftReport, SourceResult } from './types'
+import {
+  addQuarantinedRecords,
+  getDriftReport,
+  setDriftReport,
+} from './redis'
+import { notifySchemaDrift } from './push'
+import { reasonKey } from './validation'
+
+// Share of invalid records at which subscribers get a drift alert
+const DRIFT_ALERT_RATIO = 0.2
+
+/**
+ * Summarizes validation failures for one source's scrape.
+ */
+export const buildDriftReport = (
+  result: SourceResult,
+  timestamp: string
+): DriftReport => {
+  const valid = result.listings.length
+  const invalid = result.rejected.length
+  const total = valid + invalid
+
+  const reasons: Record<string, number> = {}
+  for (const record of result.rejected) {
+    const key = reasonKey(record.reason)
+    reasons[key] = (reasons[key] ?? 0) + 1
+  }
+
+  return {
+    source: result.source,
+    timestamp,
+    total,
+    valid,
+    invalid,
+    invalidRatio: total > 0 ? invalid / total : 0,
+    reasons,
+  }
+}
+
+/**
+ * Records a drift report and quarantined records for each source, and
+ * alerts subscribers when a source's invalid share crosses the threshold.
+ * Only the crossing alerts - a source that stays broken doesn't re-alert
+ * on every poll.
+ */
+export const recordSchemaDrift = async (
+  results: SourceResult[],
+  timestamp: string
+): Promise<DriftReport[]> => {
+  const reports: DriftReport[] = []
+
+  for (const result of results) {
+    // Unchanged pages weren't re-parsed, so there's nothing new to judge
+    if (result.notModified) continue
+
+    const report = buildDriftReport(result, timestamp)
+    const previous = await getDriftReport(result.source)
+
+    await addQuarantinedRecords(result.rejected)
+    await setDriftReport(report)
+    reports.push(report)
+
+    const crossed =
+      report.invalidRatio >= DRIFT_ALERT_RATIO &&
+      (!previous || previous.invalidRatio < DRIFT_ALERT_RATIO)
+
+    if (crossed) {
+      console.warn(
+        `[drift] ${result.source}: ${report.invalid}/${report.total} records invalid - alerting subscribers`
+      )
+      await notifySchemaDrift(report)
+    }
+  }
+
+  return reports
+}
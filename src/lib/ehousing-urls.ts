@@ -0,0 +1,63 @@
+import type { FilterSettings } from './types'
+import { getSearchArea } from './geo'
+
+/**
+ * Builds e-housing.jp URLs. Kept apart from the scraper, which reads and
+ * writes storage, so client components can link to listings.
+ */
+
+/**
+ * Builds the e-housing.jp search URL from filter settings.
+ * The search area polygon is sent as `location_point` values ("lng,lat").
+ * Pages after the first are requested with a `page` query parameter.
+ */
+export const buildSearchUrl = (
+  filters: FilterSettings,
+  page: number = 1
+): string => {
+  const params = new URLSearchParams()
+
+  params.set('wards', filters.wards.join(','))
+  params.set('price_from', String(filters.priceFrom))
+  params.set('price_to', String(filters.priceTo))
+  params.set('wname', filters.wardNames.join(','))
+
+  if (filters.features.length > 0) {
+    params.set('features', filters.features.join(','))
+  }
+
+  params.set('area_from', String(filters.areaFrom))
+  params.set('area_to', String(filters.areaTo))
+  params.set('walking_distance_to', String(filters.walkingDistanceTo))
+
+  if (filters.bedRooms !== undefined) {
+    params.set('bed_rooms', String(filters.bedRooms))
+  }
+
+  if (filters.stations.length > 0) {
+    params.set('station', filters.stations.join(','))
+    params.set('sname', filters.stationNames.join(','))
+  }
+
+  for (const point of getSearchArea(filters)) {
+    params.append('location_point', `${point.lng},${point.lat}`)
+  }
+
+  if (page > 1) {
+    params.set('page', String(page))
+  }
+
+  return `https://e-housing.jp/rent?${params.toString()}`
+}
+
+/**
+ * Builds the e-housing.jp URL for a specific property listing.
+ */
+export const buildPropertyUrl = (
+  prefectureSlug: string,
+  wardSlug: string,
+  slug: string,
+  roomNumber: string
+): string => {
+  return `https://e-housing.jp/rent/${prefectureSlug}/${wardSlug}/${slug}/${roomNumber}`
+}
@@ -0,0 +1,309 @@
+import { readFileSync, readdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  fetchProperties,
+  parsePropertyDetails,
+  parseRscPayload,
+} from './ehousing'
+import { buildSearchUrl } from './ehousing-urls'
+import { DEFAULT_FILTERS } from './types'
+import type { CachedSearchPage } from './types'
+import {
+  getCachedSearchPage,
+  getHttpValidators,
+  setCachedSearchPage,
+} from './redis'
+
+vi.mock('./redis', () => ({
+  getFilterSettings: vi.fn(async () => DEFAULT_FILTERS),
+  getCachedSearchPage: vi.fn(async () => null),
+  setCachedSearchPage: vi.fn(),
+  getCircuitState: vi.fn(async () => null),
+  setCircuitState: vi.fn(),
+  clearCircuitState: vi.fn(),
+  getHttpValidators: vi.fn(async () => null),
+  setHttpValidators: vi.fn(),
+}))
+
+const FIXTURE_DIR = join(__dirname, '__fixtures__', 'ehousing')
+
+const readFixture = (name: string) =>
+  readFileSync(join(FIXTURE_DIR, `${name}.html`), 'utf8')
+
+const readExpected = (name: string) =>
+  JSON.parse(readFileSync(join(FIXTURE_DIR, `${name}.expected.json`), 'utf8'))
+
+// Every captured page must keep parsing to exactly what was recorded
+const fixtureNames = readdirSync(FIXTURE_DIR)
+  .filter((file) => file.endsWith('.html'))
+  .map((file) => file.replace(/\.html$/, ''))
+
+describe('parseRscPayload', () => {
+  it.each(fixtureNames)('matches the recorded output for %s', (name) => {
+    expect(parseRscPayload(readFixture(name))).toEqual(readExpected(name))
+  })
+
+  it('returns no properties for an empty result page', () => {
+    const { properties, meta } = parseRscPayload(readFixture('zero-results'))
+    expect(properties).toEqual([])
+    expect(meta?.total).toBe(0)
+  })
+
+  it('follows row references to properties and meta', () => {
+    const { properties, meta } = parseRscPayload(
+      readFixture('many-pages-first')
+    )
+    expect(properties.map((p) => p.id)).toEqual([48213, 48307, 48391])
+    expect(meta).toMatchObject({ current_page: 1, last_page: 3, total: 37 })
+  })
+
+  it('preserves escaped characters in property strings', () => {
+    const [property] = parseRscPayload(
+      readFixture('weird-escaping')
+    ).properties
+    expect(property.name).toBe('Maison "Le Ciel" \\ Daikanyama')
+    expect(property.name_langs.ja).toBe('メゾン・ル・シエル代官山\n（新築）')
+    expect(property.address).toBe('$100 Sarugakucho <b>&</b> 1-2 \u2028')
+    expect(property.room_number).toBe('B1\t02')
+  })
+
+  it('throws when the page has no flight data', () => {
+    expect(() => parseRscPayload('<html><body></body></html>')).toThrow(
+      'No RSC flight data found in HTML'
+    )
+  })
+})
+
+describe('parsePropertyDetails', () => {
+  const html = readFileSync(
+    join(__dirname, '__fixtures__', 'ehousing-details', 'property-page.html'),
+    'utf8'
+  )
+
+  it('extracts the extra fields from a property page', () => {
+    expect(parsePropertyDetails(html, 48213)).toMatchObject({
+      propertyId: 48213,
+      availableFrom: '2026-11-15',
+      floor: 4,
+      totalFloors: 9,
+      yearBuilt: 2012,
+      maintenanceFee: 12000,
+      contractLength: '2 years',
+      agencyFee: 272800,
+      features: ['Pet Friendly', 'Auto-lock', 'Delivery Box'],
+    })
+  })
+
+  it('ignores related listings with the same shape', () => {
+    expect(parsePropertyDetails(html, 48307)).toMatchObject({
+      propertyId: 48307,
+      availableFrom: null,
+      floor: null,
+      features: [],
+    })
+  })
+
+  it('throws when the property is not on the page', () => {
+    expect(() => parsePropertyDetails(html, 1)).toThrow(
+      'Property 1 not found in page payload'
+    )
+  })
+})
+
+describe('buildSearchUrl', () => {
+  it('encodes the default filters', () => {
+    const url = new URL(buildSearchUrl(DEFAULT_FILTERS))
+    expect(url.origin + url.pathname).toBe('https://e-housing.jp/rent')
+    expect(url.searchParams.get('wards')).toBe('1,2,4,5,9')
+    expect(url.searchParams.get('price_from')).toBe('0')
+    expect(url.searchParams.get('price_to')).toBe('260000')
+    expect(url.searchParams.get('features')).toBe('18')
+    expect(url.searchParams.get('area_from')).toBe('45')
+    expect(url.searchParams.get('area_to')).toBe('100+')
+    expect(url.searchParams.get('walking_distance_to')).toBe('12')
+    expect(url.searchParams.getAll('location_point')).toHaveLength(4)
+    expect(url.searchParams.has('station')).toBe(false)
+    expect(url.searchParams.has('bed_rooms')).toBe(false)
+    expect(url.searchParams.has('page')).toBe(false)
+  })
+
+  it('sends a custom search area as lng,lat points', () => {
+    const url = new URL(
+      buildSearchUrl({
+        ...DEFAULT_FILTERS,
+        searchArea: [
+          { lat: 35.64, lng: 139.69 },
+          { lat: 35.66, lng: 139.69 },
+          { lat: 35.65, lng: 139.71 },
+        ],
+      })
+    )
+    expect(url.searchParams.getAll('location_point')).toEqual([
+      '139.69,35.64',
+      '139.69,35.66',
+      '139.71,35.65',
+    ])
+  })
+
+  it('adds optional filters and the page number', () => {
+    const url = new URL(
+      buildSearchUrl(
+        {
+          ...DEFAULT_FILTERS,
+          features: [],
+          bedRooms: 2,
+          stations: [137, 138],
+          stationNames: ['Nakameguro', 'Ebisu'],
+        },
+        3
+      )
+    )
+    expect(url.searchParams.has('features')).toBe(false)
+    expect(url.searchParams.get('bed_rooms')).toBe('2')
+    expect(url.searchParams.get('station')).toBe('137,138')
+    expect(url.searchParams.get('sname')).toBe('Nakameguro,Ebisu')
+    expect(url.searchParams.get('page')).toBe('3')
+  })
+})
+
+describe('fetchProperties', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.mocked(getCachedSearchPage).mockReset()
+    vi.mocked(setCachedSearchPage).mockReset()
+  })
+
+  it('crawls every page and merges duplicate listings', async () => {
+    vi.useFakeTimers()
+    const html = readFixture('many-pages-first')
+    const fetchMock = vi.fn<(url: string) => Promise<Response>>(
+      async () => new Response(html)
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const pending = fetchProperties(DEFAULT_FILTERS)
+    await vi.runAllTimersAsync()
+    const result = await pending
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(new URL(fetchMock.mock.calls[2][0]).searchParams.get('page')).toBe(
+      '3'
+    )
+    expect(result.pageCount).toBe(3)
+    expect(result.properties).toHaveLength(3)
+    expect(result.meta?.total).toBe(37)
+    expect(result.notModified).toBe(false)
+  })
+
+  it('stops paging when the crawl runs out of time', async () => {
+    vi.useFakeTimers()
+    const html = readFixture('many-pages-first')
+    const fetchMock = vi.fn<(url: string) => Promise<Response>>(async () => {
+      // e-housing is slow enough to use up most of the budget
+      vi.setSystemTime(Date.now() + 29000)
+      return new Response(html)
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    const pending = fetchProperties(DEFAULT_FILTERS)
+    await vi.runAllTimersAsync()
+    const result = await pending
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(result.pageCount).toBe(1)
+    expect(result.properties).toHaveLength(3)
+    expect(result.truncated).toBe(true)
+  })
+
+  it('reuses the cached first page when it is not modified', async () => {
+    const cached = readExpected('single-page')
+    vi.mocked(getHttpValidators).mockResolvedValueOnce({
+      etag: '"abc"',
+      lastModified: null,
+    })
+    vi.mocked(getCachedSearchPage).mockResolvedValueOnce({
+      url: buildSearchUrl(DEFAULT_FILTERS),
+      ...cached,
+    })
+    const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>(
+      async () => new Response(null, { status: 304 })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await fetchProperties(DEFAULT_FILTERS)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(new Headers(fetchMock.mock.calls[0][1].headers).get('if-none-match')).toBe(
+      '"abc"'
+    )
+    expect(result.notModified).toBe(true)
+    expect(result.properties).toEqual(cached.properties)
+  })
+
+  it('still crawls later pages when the first is not modified', async () => {
+    vi.useFakeTimers()
+    vi.mocked(getHttpValidators).mockResolvedValueOnce({
+      etag: '"abc"',
+      lastModified: null,
+    })
+    vi.mocked(getCachedSearchPage).mockResolvedValueOnce({
+      url: buildSearchUrl(DEFAULT_FILTERS),
+      ...readExpected('many-pages-first'),
+    })
+    const html = readFixture('many-pages-first')
+    const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>(
+      async (url) =>
+        new URL(url).searchParams.has('page')
+          ? new Response(html)
+          : new Response(null, { status: 304 })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const pending = fetchProperties(DEFAULT_FILTERS)
+    await vi.runAllTimersAsync()
+    const result = await pending
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(result.pageCount).toBe(3)
+    expect(result.notModified).toBe(true)
+  })
+
+  it('refetches a search whose cached page was replaced by another', async () => {
+    // Filters go A -> B -> A: e-housing still answers 304 for A, but the
+    // cache holds B's page by then
+    let cache: CachedSearchPage | null = null
+    vi.mocked(setCachedSearchPage).mockImplementation(async (page) => {
+      cache = page
+    })
+    vi.mocked(getCachedSearchPage).mockImplementation(async (url) =>
+      cache?.url === url ? cache : null
+    )
+    vi.mocked(getHttpValidators)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ etag: '"a"', lastModified: null })
+
+    const searchA = DEFAULT_FILTERS
+    const searchB = { ...DEFAULT_FILTERS, priceTo: 150000 }
+    const pageFor = (url: string) =>
+      url === buildSearchUrl(searchA) ? 'single-page' : 'weird-escaping'
+    const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>(
+      async (url, init) =>
+        new Headers(init.headers).has('if-none-match')
+          ? new Response(null, { status: 304 })
+          : new Response(readFixture(pageFor(url)))
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    await fetchProperties(searchA)
+    await fetchProperties(searchB)
+    const result = await fetchProperties(searchA)
+
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+    expect(result.notModified).toBe(false)
+    expect(result.properties.map((p) => p.id)).toEqual([48213, 48307])
+    expect(cache).toMatchObject({ url: buildSearchUrl(searchA) })
+  })
+})
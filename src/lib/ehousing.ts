@@ -1,91 +1,240 @@
-import * as cheerio from 'cheerio'
-import type { Property, PropertiesMeta, FilterSettings } from './types'
+import type {
+  Property,
+  PropertiesMeta,
+  FilterSettings,
+  PropertyDetails,
+  QuarantinedRecord,
+} from './types'
 import { DEFAULT_FILTERS } from './types'
-import { getFilterSettings } from './redis'
+import {
+  getFilterSettings,
+  getCachedSearchPage,
+  setCachedSearchPage,
+} from './redis'
+import { decodeFlightPayload, findInPayload } from './rsc'
+import type { FlightPayload } from './rsc'
+import { validateProperty } from './validation'
+import { buildPropertyUrl, buildSearchUrl } from './ehousing-urls'
+import { DeadlineExceededError, httpRequest } from './http'
+
+// Safety cap on how many result pages a single crawl will follow
+const MAX_PAGES = 10
+
+// Pause between page requests so we don't hammer e-housing
+const PAGE_DELAY_MS = 1500
+
+// Time a whole crawl may take, retries included. The routes running it
+// are killed after 60 seconds and still need to enrich and save.
+const CRAWL_BUDGET_MS = 30000
+
+// Circuit breaker shared by every request to e-housing
+const CIRCUIT = 'ehousing'
+
+const REQUEST_HEADERS = {
+  'User-Agent':
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+}
 
-// Bounding box for the Tokyo metro area
-const LOCATION_POINTS = [
-  '139.43616821481683,35.482771620001955',
-  '139.43616821481683,35.80585431502774',
-  '140.01432367508613,35.80585431502774',
-  '140.01432367508613,35.482771620001955',
-]
+export type EHousingResult = {
+  properties: Property[]
+  rejected: QuarantinedRecord[]
+  meta: PropertiesMeta | null
+  pageCount: number
+  // The first page was unchanged, so its properties are the cached ones
+  notModified: boolean
+  // The crawl ran out of time before its last page
+  truncated: boolean
+}
+
+type EHousingPage = {
+  properties: Property[]
+  meta: PropertiesMeta | null
+}
 
 /**
- * Builds the e-housing.jp search URL from filter settings.
+ * Fetches every page of e-housing.jp search results and merges them into
+ * a single result. Property data is extracted from the Next.js RSC flight
+ * payload embedded in each page's HTML.
+ * If e-housing reports the first page unchanged since the last poll, the
+ * cached copy of it is used; later pages are always fetched, since they
+ * can change while the first doesn't.
+ * A crawl that runs out of time stops paging and returns the pages it
+ * has, flagged as `truncated`.
+ * Reads filter settings from Redis unless they are passed in.
  */
-export const buildSearchUrl = (filters: FilterSettings): string => {
-  const params = new URLSearchParams()
-
-  params.set('wards', filters.wards.join(','))
-  params.set('price_from', String(filters.priceFrom))
-  params.set('price_to', String(filters.priceTo))
-  params.set('wname', filters.wardNames.join(','))
-
-  if (filters.features.length > 0) {
-    params.set('features', filters.features.join(','))
+export const fetchProperties = async (
+  filterSettings?: FilterSettings
+): Promise<EHousingResult> => {
+  let filters: FilterSettings
+  try {
+    filters = filterSettings ?? (await getFilterSettings())
+  } catch {
+    filters = DEFAULT_FILTERS
   }
 
-  params.set('area_from', String(filters.areaFrom))
-  params.set('area_to', String(filters.areaTo))
-  params.set('walking_distance_to', String(filters.walkingDistanceTo))
-
-  if (filters.bedRooms !== undefined) {
-    params.set('bed_rooms', String(filters.bedRooms))
+  const deadline = Date.now() + CRAWL_BUDGET_MS
+  const { page: firstPage, notModified } = await fetchFirstPage(
+    buildSearchUrl(filters),
+    deadline
+  )
+  const pages: EHousingPage[] = [firstPage]
+
+  // Follow pagination using the page count reported by propertiesMeta.
+  // We build page URLs ourselves rather than using next_page_url, which
+  // points at e-housing's API rather than the HTML search page.
+  const lastPage = firstPage.meta?.last_page ?? 1
+  if (lastPage > MAX_PAGES) {
+    console.warn(
+      `[ehousing] Results span ${lastPage} pages, only crawling the first ${MAX_PAGES}`
+    )
   }
 
-  if (filters.stations.length > 0) {
-    params.set('station', filters.stations.join(','))
-    params.set('sname', filters.stationNames.join(','))
-  }
+  const pagesToFetch = Math.min(lastPage, MAX_PAGES)
+  let truncated = false
+  for (let page = 2; page <= pagesToFetch; page++) {
+    const result =
+      Date.now() + PAGE_DELAY_MS < deadline
+        ? await fetchLaterPage(buildSearchUrl(filters, page), deadline)
+        : null
+    if (!result) {
+      console.warn(
+        `[ehousing] Out of time - stopping after ${pages.length} of ${pagesToFetch} pages`
+      )
+      truncated = true
+      break
+    }
+    pages.push(result)
 
-  for (const point of LOCATION_POINTS) {
-    params.append('location_point', point)
+    // Stop early if the result set shrank while we were crawling
+    if (result.properties.length === 0) break
   }
 
-  return `https://e-housing.jp/rent?${params.toString()}`
+  return { ...mergePages(pages), notModified, truncated }
 }
 
-export type EHousingResult = {
-  properties: Property[]
-  meta: PropertiesMeta | null
+/**
+ * Fetches a results page after the first, once the pause between pages
+ * is over. Null if the crawl's deadline passed before it could finish.
+ */
+const fetchLaterPage = async (
+  url: string,
+  deadline: number
+): Promise<EHousingPage | null> => {
+  await new Promise((r) => setTimeout(r, PAGE_DELAY_MS))
+  try {
+    return await fetchSearchPage(url, deadline)
+  } catch (error) {
+    if (error instanceof DeadlineExceededError) return null
+    throw error
+  }
 }
 
 /**
- * Fetches the e-housing.jp search page and extracts property data
- * from the Next.js RSC flight payload embedded in the HTML.
- * Reads filter settings from Redis to build the search URL dynamically.
+ * Fetches the first search page with a conditional request, reusing the
+ * cached copy if it's unchanged. The cache only holds the last search, so
+ * when it's for another URL the page is fetched again in full.
  */
-export const fetchProperties = async (): Promise<EHousingResult> => {
-  let filters: FilterSettings
-  try {
-    filters = await getFilterSettings()
-  } catch {
-    filters = DEFAULT_FILTERS
+const fetchFirstPage = async (
+  url: string,
+  deadline: number
+): Promise<{ page: EHousingPage; notModified: boolean }> => {
+  console.log(`[ehousing] Fetching: ${url.substring(0, 100)}...`)
+  let response = await requestPage(url, true, deadline)
+  if (response.notModified) {
+    const cached = await getCachedSearchPage(url)
+    if (cached) {
+      console.log('[ehousing] First page not modified - reusing cached page')
+      return {
+        page: { properties: cached.properties, meta: cached.meta },
+        notModified: true,
+      }
+    }
+    console.log('[ehousing] No cached copy of this search - refetching')
+    response = await requestPage(url, false, deadline)
   }
 
-  const searchUrl = buildSearchUrl(filters)
+  const page = parseRscPayload(response.text)
+  await setCachedSearchPage({ url, ...page })
+  return { page, notModified: false }
+}
+
+/**
+ * Fetches a single search results page and parses its RSC payload.
+ */
+const fetchSearchPage = async (
+  searchUrl: string,
+  deadline: number
+): Promise<EHousingPage> => {
   console.log(`[ehousing] Fetching: ${searchUrl.substring(0, 100)}...`)
+  const html = await fetchHtml(searchUrl, deadline)
+  return parseRscPayload(html)
+}
 
-  const response = await fetch(searchUrl, {
-    headers: {
-      'User-Agent':
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      Accept:
-        'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.9',
-    },
+/**
+ * Requests an e-housing page through the shared HTTP client. Conditional
+ * requests come back with `notModified` set when the page hasn't changed.
+ */
+const requestPage = (url: string, conditional: boolean, deadline?: number) =>
+  httpRequest(url, {
+    headers: REQUEST_HEADERS,
     next: { revalidate: 0 },
+    circuit: CIRCUIT,
+    conditional,
+    deadline,
   })
 
-  if (!response.ok) {
-    throw new Error(
-      `Failed to fetch e-housing: ${response.status} ${response.statusText}`
+const fetchHtml = async (url: string, deadline?: number): Promise<string> =>
+  (await requestPage(url, false, deadline)).text
+
+/**
+ * Merges crawled pages into one result. Listings can shift between pages
+ * while we crawl, so properties are de-duplicated by ID. Records that fail
+ * schema validation are set aside in `rejected` with the reason. The meta
+ * of the first page is kept since it carries the overall total.
+ */
+const mergePages = (pages: EHousingPage[]): EHousingResult => {
+  const seen = new Set<number>()
+  const properties: Property[] = []
+  const rejected: QuarantinedRecord[] = []
+
+  for (const page of pages) {
+    for (const record of page.properties) {
+      const result = validateProperty(record)
+      if (!result.ok) {
+        const id = (record as { id?: unknown } | null)?.id
+        rejected.push({
+          source: 'ehousing',
+          id: id === undefined || id === null ? null : String(id),
+          reason: result.reason,
+          record,
+          quarantinedAt: new Date().toISOString(),
+        })
+        continue
+      }
+
+      const property = result.value
+      if (seen.has(property.id)) continue
+      seen.add(property.id)
+      properties.push(property)
+    }
+  }
+
+  if (rejected.length > 0) {
+    console.warn(
+      `[ehousing] ${rejected.length} scraped record(s) failed validation, e.g. ${rejected[0].reason}`
     )
   }
 
-  const html = await response.text()
-  return parseRscPayload(html)
+  return {
+    properties,
+    rejected,
+    meta: pages[0]?.meta ?? null,
+    pageCount: pages.length,
+    notModified: false,
+    truncated: false,
+  }
 }
 
 /**
@@ -93,228 +242,179 @@ export const fetchProperties = async (): Promise<EHousingResult> => {
  * and pagination metadata.
  *
  * e-housing.jp is a Next.js App Router site. The property data is embedded
- * in `self.__next_f.push()` script calls within the HTML. We concatenate
- * all the payloads, then find the JSON for "properties" and "propertiesMeta".
+ * in `self.__next_f.push()` script calls within the HTML. We decode the
+ * flight payload into a tree and look for the objects carrying
+ * "properties" and "propertiesMeta" by their shape.
  */
-const parseRscPayload = (html: string): EHousingResult => {
-  const $ = cheerio.load(html)
-  const rscChunks: string[] = []
-
-  $('script').each((_, el) => {
-    const text = $(el).text()
-    if (text.includes('self.__next_f')) {
-      rscChunks.push(text)
-    }
-  })
+export const parseRscPayload = (html: string): EHousingPage => {
+  const payload = decodeFlightPayload(html)
 
-  if (rscChunks.length === 0) {
-    throw new Error('No RSC flight data found in HTML')
-  }
-
-  // Concatenate all RSC chunks into one string
-  const combined = rscChunks.join('')
-
-  // Extract properties array
-  const properties = extractProperties(combined)
-  const meta = extractMeta(combined)
+  const properties = extractProperties(payload)
+  const meta = extractMeta(payload)
 
   return { properties, meta }
 }
 
 /**
- * Extracts the properties array from the RSC payload string.
- * The data is deeply escaped in the RSC format, so we look for the
- * "properties" key and parse the JSON array that follows.
+ * Finds the properties array: the value of a "properties" key holding an
+ * array of property-shaped records (or an empty array for 0 results).
  */
-const extractProperties = (rscPayload: string): Property[] => {
-  // Check for empty properties array first (0 results)
-  const emptyMarker = '\\"properties\\":[]'
-  if (rscPayload.includes(emptyMarker)) {
-    console.log('[ehousing] Properties array is empty (0 results)')
-    return []
-  }
-
-  // The properties data in RSC is escaped with \" notation
-  const marker = '\\"properties\\":[{'
+const extractProperties = (payload: FlightPayload): Property[] => {
+  const holder = findInPayload(payload, (node) => {
+    const value = node.properties
+    if (!Array.isArray(value)) return false
+    return value.length === 0 || isPropertyLike(value[0])
+  })
 
-  const startIdx = rscPayload.indexOf(marker)
-  if (startIdx === -1) {
-    // Could be a different empty format or missing entirely
+  if (!holder) {
     console.warn('[ehousing] Could not find properties array in RSC payload')
     return []
   }
 
-  // Find the start of the array (after "properties":)
-  const arrayStartIdx = rscPayload.indexOf('[{', startIdx)
-  if (arrayStartIdx === -1) {
-    throw new Error('Could not find properties array start')
+  const properties = holder.properties as Property[]
+  if (properties.length === 0) {
+    console.log('[ehousing] Properties array is empty (0 results)')
   }
+  return properties
+}
 
-  // We need to find the matching closing bracket for this array.
-  // The data is escaped JSON, so we need to track bracket depth.
-  const arrayJson = extractBalancedArray(rscPayload, arrayStartIdx)
-
-  // Unescape the RSC string escaping
-  const unescaped = arrayJson
-    .replace(/\\\\"/g, '__ESCAPED_QUOTE__')
-    .replace(/\\"/g, '"')
-    .replace(/__ESCAPED_QUOTE__/g, '\\"')
-    .replace(/\\\\n/g, '\\n')
-    .replace(/\\\\t/g, '\\t')
-
-  try {
-    return JSON.parse(unescaped) as Property[]
-  } catch (e) {
-    // Fallback: try a more aggressive approach
-    return extractPropertiesFallback(rscPayload)
-  }
+const isPropertyLike = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object') return false
+  const record = value as Record<string, unknown>
+  return typeof record.id === 'number' && 'rent_amount' in record
 }
 
 /**
- * Fallback extraction: find individual property objects by looking for
- * the "id":NUMBER,"name" pattern and extracting each one.
+ * Finds the propertiesMeta pagination object.
  */
-const extractPropertiesFallback = (rscPayload: string): Property[] => {
-  const properties: Property[] = []
-
-  // Find the properties section
-  const marker = '\\"properties\\":[{'
-  const startIdx = rscPayload.indexOf(marker)
-  if (startIdx === -1) return []
-
-  // Get a very large chunk starting from properties
-  const chunk = rscPayload.substring(startIdx, startIdx + 500000)
-
-  // Unescape the full chunk
-  const unescaped = chunk
-    .replace(/\\\\"/g, '__ESCAPED_QUOTE__')
-    .replace(/\\"/g, '"')
-    .replace(/__ESCAPED_QUOTE__/g, '\\"')
-    .replace(/\\\\n/g, '\\n')
-    .replace(/\\\\t/g, '\\t')
-
-  // Find the array portion
-  const arrayStart = unescaped.indexOf('[{')
-  if (arrayStart === -1) return []
-
-  const arrayContent = extractBalancedArray(unescaped, arrayStart)
+const extractMeta = (payload: FlightPayload): PropertiesMeta | null => {
+  const holder = findInPayload(payload, (node) => {
+    const value = node.propertiesMeta
+    return (
+      !!value &&
+      typeof value === 'object' &&
+      typeof (value as Record<string, unknown>).last_page === 'number'
+    )
+  })
 
-  try {
-    return JSON.parse(arrayContent) as Property[]
-  } catch {
-    console.error('Fallback property parsing also failed')
-    return []
-  }
+  return holder ? (holder.propertiesMeta as PropertiesMeta) : null
 }
 
 /**
- * Extracts a balanced JSON array starting at the given index.
- * Tracks bracket depth to find the matching closing bracket.
+ * Fetches a property's own listing page and extracts the fields the
+ * search results payload leaves out (availability, floor, fees, ...).
  */
-const extractBalancedArray = (str: string, startIdx: number): string => {
-  let depth = 0
-  let inString = false
-  let escaped = false
-
-  for (let i = startIdx; i < str.length; i++) {
-    const char = str[i]
-
-    if (escaped) {
-      escaped = false
-      continue
-    }
-
-    if (char === '\\') {
-      escaped = true
-      continue
-    }
-
-    if (char === '"') {
-      inString = !inString
-      continue
-    }
-
-    if (inString) continue
-
-    if (char === '[') depth++
-    if (char === ']') {
-      depth--
-      if (depth === 0) {
-        return str.substring(startIdx, i + 1)
-      }
-    }
-  }
-
-  // If we didn't find matching bracket, return a reasonable chunk
-  throw new Error('Could not find matching bracket for properties array')
+export const fetchPropertyDetails = async (
+  property: Property,
+  deadline?: number
+): Promise<PropertyDetails> => {
+  const url = buildPropertyUrl(
+    property.prefecture.slug,
+    property.ward.slug,
+    property.slug,
+    property.room_number
+  )
+  console.log(`[ehousing] Fetching details: ${url}`)
+  const html = await fetchHtml(url, deadline)
+  return parsePropertyDetails(html, property.id)
 }
 
 /**
- * Extracts the propertiesMeta pagination object from the RSC payload.
+ * Parses a property page's RSC payload into `PropertyDetails`.
+ *
+ * The page embeds the full property record (the object with this
+ * property's ID and a rent amount). e-housing's field names for the extra
+ * data aren't documented, so each field accepts the known aliases.
  */
-const extractMeta = (rscPayload: string): PropertiesMeta | null => {
-  const marker = '\\"propertiesMeta\\":'
-  const startIdx = rscPayload.indexOf(marker)
-  if (startIdx === -1) return null
-
-  const objStart = rscPayload.indexOf('{', startIdx + marker.length)
-  if (objStart === -1) return null
-
-  // Find the matching closing brace
-  let depth = 0
-  let inString = false
-  let escaped = false
-
-  for (let i = objStart; i < rscPayload.length; i++) {
-    const char = rscPayload[i]
-
-    if (escaped) {
-      escaped = false
-      continue
-    }
+export const parsePropertyDetails = (
+  html: string,
+  propertyId: number
+): PropertyDetails => {
+  const payload = decodeFlightPayload(html)
+
+  // Related listings on the page share the shape, so match on the ID
+  const record = findInPayload(
+    payload,
+    (node) => node.id === propertyId && 'rent_amount' in node
+  )
+
+  if (!record) {
+    throw new Error(`Property ${propertyId} not found in page payload`)
+  }
 
-    if (char === '\\') {
-      escaped = true
-      continue
-    }
+  const building = asRecord(record.building)
+
+  const yearBuilt = toNumber(
+    pick(record, ['year_built', 'built_year', 'construction_year']) ??
+      pick(building, ['year_built', 'built_year', 'construction_year'])
+  )
+  const statedAge = toNumber(pick(record, ['building_age', 'age']))
+
+  return {
+    propertyId,
+    availableFrom: toText(
+      pick(record, ['available_from', 'availability_date', 'move_in_date'])
+    ),
+    floor: toNumber(pick(record, ['floor', 'floor_number'])),
+    totalFloors: toNumber(
+      pick(record, ['total_floors', 'building_floors']) ??
+        pick(building, ['total_floors', 'floors'])
+    ),
+    yearBuilt,
+    buildingAgeYears:
+      statedAge ??
+      (yearBuilt !== null ? new Date().getFullYear() - yearBuilt : null),
+    maintenanceFee: toNumber(
+      pick(record, ['maintenance_fee', 'management_fee', 'common_service_fee'])
+    ),
+    contractLength: toText(
+      pick(record, ['contract_length', 'contract_period', 'contract_term'])
+    ),
+    agencyFee: toNumber(pick(record, ['agency_fee', 'brokerage_fee'])),
+    features: toFeatureNames(
+      pick(record, ['features', 'propertyFeatures', 'property_features'])
+    ),
+    fetchedAt: new Date().toISOString(),
+  }
+}
 
-    if (char === '"') {
-      inString = !inString
-      continue
-    }
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+
+const pick = (
+  record: Record<string, unknown>,
+  keys: string[]
+): unknown | null => {
+  for (const key of keys) {
+    const value = record[key]
+    if (value !== undefined && value !== null && value !== '') return value
+  }
+  return null
+}
 
-    if (inString) continue
-
-    if (char === '{') depth++
-    if (char === '}') {
-      depth--
-      if (depth === 0) {
-        const raw = rscPayload.substring(objStart, i + 1)
-        const unescaped = raw
-          .replace(/\\\\"/g, '__ESCAPED_QUOTE__')
-          .replace(/\\"/g, '"')
-          .replace(/__ESCAPED_QUOTE__/g, '\\"')
-
-        try {
-          return JSON.parse(unescaped) as PropertiesMeta
-        } catch {
-          return null
-        }
-      }
-    }
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[^\d.-]/g, ''))
+    return Number.isFinite(parsed) ? parsed : null
   }
+  return null
+}
 
+const toText = (value: unknown): string | null => {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number') return String(value)
   return null
 }
 
-/**
- * Builds the e-housing.jp URL for a specific property listing.
- */
-export const buildPropertyUrl = (
-  prefectureSlug: string,
-  wardSlug: string,
-  slug: string,
-  roomNumber: string
-): string => {
-  return `https://e-housing.jp/rent/${prefectureSlug}/${wardSlug}/${slug}/${roomNumber}`
+// Features come either as plain names or as { name } records
+const toFeatureNames = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return []
+  return value
+    .map((item) =>
+      typeof item === 'string' ? item : toText(asRecord(item).name)
+    )
+    .filter((name): name is string => !!name)
 }
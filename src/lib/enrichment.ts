@@ -0,0 +1,52 @@
+import type { Property, PropertyDetails } from './types'
+import { fetchPropertyDetails } from './ehousing'
+import { getCachedDetails, setCachedDetails } from './redis'
+
+// Pause between property page requests, like the search crawl
+const DETAIL_DELAY_MS = 1500
+
+/**
+ * Returns details for the given properties, scraping and caching any that
+ * aren't cached yet. At most `limit` pages are fetched per call so a large
+ * batch can't blow the function time budget, and none once `deadline`
+ * (ms since the epoch) has passed; the rest are picked up on a later
+ * call. Failures are logged and skipped.
+ */
+export const enrichProperties = async (
+  properties: Property[],
+  limit: number,
+  deadline?: number
+): Promise<Map<number, PropertyDetails>> => {
+  const details = await getCachedDetails(properties.map((p) => p.id))
+  const missing = properties.filter((p) => !details.has(p.id)).slice(0, limit)
+
+  console.log(
+    `[enrichment] ${details.size} cached, ${missing.length} to fetch`
+  )
+
+  for (let i = 0; i < missing.length; i++) {
+    if (deadline !== undefined && Date.now() >= deadline) {
+      console.warn(
+        `[enrichment] Out of time - ${missing.length - i} left for later`
+      )
+      break
+    }
+    const property = missing[i]
+    try {
+      const result = await fetchPropertyDetails(property, deadline)
+      await setCachedDetails(result)
+      details.set(property.id, result)
+    } catch (error) {
+      console.error(
+        `[enrichment] Failed to fetch details for property ${property.id}:`,
+        error
+      )
+    }
+
+    if (i < missing.length - 1) {
+      await new Promise((r) => setTimeout(r, DETAIL_DELAY_MS))
+    }
+  }
+
+  return details
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import type { FilterSettings } from './types'
+import { DEFAULT_FILTERS } from './types'
+import {
+  formatAreaTo,
+  parseAreaTo,
+  searchLines,
+  setStationsSelected,
+  validateFilters,
+} from './filters'
+
+const fieldsOf = (changes: Partial<FilterSettings>) =>
+  validateFilters({ ...DEFAULT_FILTERS, ...changes }).map((i) => i.field)
+
+describe('parseAreaTo / formatAreaTo', () => {
+  it('reads bounded and open-ended areas', () => {
+    expect(parseAreaTo('80')).toBe(80)
+    expect(parseAreaTo('100+')).toBe(100)
+    expect(parseAreaTo('big')).toBeNull()
+    expect(parseAreaTo(80)).toBeNull()
+  })
+
+  it('leaves the largest step open-ended', () => {
+    expect(formatAreaTo(60)).toBe('60')
+    expect(formatAreaTo(100)).toBe('100+')
+  })
+})
+
+describe('validateFilters', () => {
+  it('accepts the default filters', () => {
+    expect(validateFilters(DEFAULT_FILTERS)).toEqual([])
+  })
+
+  it('needs at least one ward, with a name for each', () => {
+    expect(validateFilters({ ...DEFAULT_FILTERS, wards: [], wardNames: [] }))
+      .toEqual([{ field: 'wards', message: 'selectWard' }])
+    expect(fieldsOf({ wardNames: ['Minato Ward'] })).toEqual(['wards'])
+    expect(fieldsOf({ wards: [1, 1, 2, 4, 5] })).toEqual(['wards'])
+  })
+
+  it('needs a name for each station', () => {
+    expect(fieldsOf({ stations: [138], stationNames: ['Ebisu'] })).toEqual([])
+    expect(fieldsOf({ stations: [138], stationNames: [] })).toEqual([
+      'stations',
+    ])
+  })
+
+  it('checks the rent range', () => {
+    expect(fieldsOf({ priceFrom: 150000, priceTo: 150000 })).toEqual([])
+    expect(fieldsOf({ priceFrom: 200000, priceTo: 150000 })).toEqual([
+      'priceTo',
+    ])
+    expect(fieldsOf({ priceFrom: -1 })).toEqual(['priceTo'])
+    expect(fieldsOf({ priceTo: 2000000 })).toEqual(['priceTo'])
+  })
+
+  it('checks the floor area range', () => {
+    expect(fieldsOf({ areaFrom: 100, areaTo: '100+' })).toEqual([])
+    expect(fieldsOf({ areaFrom: 60, areaTo: '50' })).toEqual(['areaTo'])
+    expect(fieldsOf({ areaTo: 'any' })).toEqual(['areaTo'])
+  })
+
+  it('checks walking time, bedrooms and features', () => {
+    expect(fieldsOf({ walkingDistanceTo: 0 })).toEqual(['walkingDistanceTo'])
+    expect(fieldsOf({ walkingDistanceTo: 7.5 })).toEqual(['walkingDistanceTo'])
+    expect(fieldsOf({ bedRooms: 2 })).toEqual([])
+    expect(fieldsOf({ bedRooms: -1 })).toEqual(['bedRooms'])
+    expect(fieldsOf({ features: [] })).toEqual([])
+    expect(fieldsOf({ features: [0] })).toEqual(['features'])
+  })
+
+  it('checks the deal threshold and search area', () => {
+    expect(fieldsOf({ minDealScore: 11 })).toEqual(['minDealScore'])
+    expect(fieldsOf({ searchArea: [{ lat: 35.6, lng: 139.7 }] })).toEqual([
+      'searchArea',
+    ])
+  })
+
+  it('reports every problem at once', () => {
+    expect(
+      fieldsOf({ wards: [], priceFrom: 300000, priceTo: 100000 })
+    ).toEqual(['wards', 'priceTo'])
+  })
+})
+
+describe('setStationsSelected', () => {
+  const hibiya = [
+    { id: 137, name: 'Nakameguro' },
+    { id: 138, name: 'Ebisu' },
+    { id: 139, name: 'Hiroo' },
+  ]
+  const selection = { stations: [1, 138], stationNames: ['Meguro', 'Ebisu'] }
+
+  it('adds a whole line without repeating selected stations', () => {
+    expect(setStationsSelected(selection, hibiya, true)).toEqual({
+      stations: [1, 138, 137, 139],
+      stationNames: ['Meguro', 'Ebisu', 'Nakameguro', 'Hiroo'],
+    })
+  })
+
+  it('removes stations along with their names', () => {
+    expect(setStationsSelected(selection, hibiya, false)).toEqual({
+      stations: [1],
+      stationNames: ['Meguro'],
+    })
+  })
+})
+
+describe('searchLines', () => {
+  const lines = [
+    {
+      id: 137,
+      name: 'Hibiya Line',
+      stations: [
+        { id: 137, name: 'Nakameguro' },
+        { id: 138, name: 'Ebisu' },
+      ],
+    },
+    {
+      id: 203,
+      name: 'Nanboku Line',
+      stations: [
+        { id: 1, name: 'Meguro' },
+        { id: 2, name: 'Shirokanedai' },
+      ],
+    },
+  ]
+
+  it('keeps every station of a matching line', () => {
+    expect(searchLines(lines, 'nanboku')).toEqual([lines[1]])
+  })
+
+  it('ignores spelling variants, hyphens and spaces', () => {
+    expect(searchLines(lines, 'Namboku')).toEqual([lines[1]])
+    expect(searchLines(lines, 'shirokane-dai')).toEqual([
+      { ...lines[1], stations: [{ id: 2, name: 'Shirokanedai' }] },
+    ])
+  })
+
+  it('narrows other lines to matching stations', () => {
+    expect(searchLines(lines, ' MEGURO ')).toEqual([
+      { ...lines[0], stations: [{ id: 137, name: 'Nakameguro' }] },
+      { ...lines[1], stations: [{ id: 1, name: 'Meguro' }] },
+    ])
+    expect(searchLines(lines, 'shinjuku')).toEqual([])
+    expect(searchLines(lines, '')).toBe(lines)
+  })
+})
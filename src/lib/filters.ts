@@ -0,0 +1,204 @@
+import type { FilterSettings } from './types'
+import type { MessageKey } from './i18n'
+import type { StationEntry, TrainLineEntry } from './station-data'
+import { isValidPolygon } from './geo'
+
+/**
+ * The values the filter editor offers, and the validation both the editor
+ * and the settings API run before a search is saved. The rules mirror what
+ * `buildSearchUrl` turns into e-housing query parameters, so a saved
+ * search always produces a URL e-housing understands.
+ */
+
+export const PRICE_STEP = 10000
+export const PRICE_MAX = 1000000
+
+// Floor area steps in m²; the top one is open-ended when used as `areaTo`
+export const AREA_STEPS = [0, 20, 25, 30, 35, 40, 45, 50, 60, 70, 80, 90, 100]
+
+export const WALKING_OPTIONS = [5, 7, 10, 12, 15, 20]
+export const MAX_WALKING_MINUTES = 60
+
+// undefined searches any number of bedrooms
+export const BEDROOM_OPTIONS = [undefined, 1, 2, 3, 4]
+export const MAX_BEDROOMS = 10
+
+const MAX_DEAL_SCORE = 10
+
+/**
+ * e-housing's search features, by the ID its search form sends. Only IDs
+ * known to filter correctly are offered; features saved under other IDs
+ * are kept and shown by number.
+ */
+export const FEATURE_OPTIONS: { id: number; label: MessageKey }[] = [
+  { id: 18, label: 'featurePets' },
+]
+
+export type FilterIssue = {
+  field: keyof FilterSettings
+  message: MessageKey
+}
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0
+
+const isIdList = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.every((id) => Number.isInteger(id) && id > 0) &&
+  new Set(value).size === value.length
+
+const isNameList = (value: unknown, length: number): boolean =>
+  Array.isArray(value) &&
+  value.length === length &&
+  value.every((name) => typeof name === 'string' && name.length > 0)
+
+/**
+ * The upper floor area bound as a number, from e.g. "80" or "100+" (100 m²
+ * and up). Null if it isn't in either form.
+ */
+export const parseAreaTo = (areaTo: unknown): number | null => {
+  if (typeof areaTo !== 'string') return null
+  const match = /^(\d+)\+?$/.exec(areaTo)
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * Formats an upper floor area bound the way e-housing expects it; the
+ * largest step means no upper bound.
+ */
+export const formatAreaTo = (area: number): string => {
+  const max = AREA_STEPS[AREA_STEPS.length - 1]
+  return area >= max ? `${max}+` : String(area)
+}
+
+/**
+ * Returns every problem with a set of filters, or an empty list if they
+ * can be saved. Checks the shape too, since the settings API gets them
+ * straight from a request body.
+ */
+export const validateFilters = (filters: FilterSettings): FilterIssue[] => {
+  const issues: FilterIssue[] = []
+  const issue = (field: keyof FilterSettings, message: MessageKey) =>
+    issues.push({ field, message })
+
+  if (!Array.isArray(filters.wards) || filters.wards.length === 0) {
+    issue('wards', 'selectWard')
+  } else if (
+    !isIdList(filters.wards) ||
+    !isNameList(filters.wardNames, filters.wards.length)
+  ) {
+    issue('wards', 'invalidWards')
+  }
+
+  if (
+    !isIdList(filters.stations) ||
+    !isNameList(filters.stationNames, filters.stations.length)
+  ) {
+    issue('stations', 'invalidStations')
+  }
+
+  if (
+    !isNonNegativeInteger(filters.priceFrom) ||
+    !isNonNegativeInteger(filters.priceTo) ||
+    filters.priceTo > PRICE_MAX ||
+    filters.priceFrom > filters.priceTo
+  ) {
+    issue('priceTo', 'invalidPriceRange')
+  }
+
+  const areaTo = parseAreaTo(filters.areaTo)
+  if (
+    !isNonNegativeInteger(filters.areaFrom) ||
+    areaTo === null ||
+    filters.areaFrom > areaTo
+  ) {
+    issue('areaTo', 'invalidAreaRange')
+  }
+
+  if (
+    !Number.isInteger(filters.walkingDistanceTo) ||
+    filters.walkingDistanceTo < 1 ||
+    filters.walkingDistanceTo > MAX_WALKING_MINUTES
+  ) {
+    issue('walkingDistanceTo', 'invalidWalkingTime')
+  }
+
+  if (
+    filters.bedRooms !== undefined &&
+    (!isNonNegativeInteger(filters.bedRooms) ||
+      filters.bedRooms > MAX_BEDROOMS)
+  ) {
+    issue('bedRooms', 'invalidBedrooms')
+  }
+
+  if (!isIdList(filters.features)) issue('features', 'invalidFeatures')
+
+  if (
+    filters.minDealScore !== undefined &&
+    (typeof filters.minDealScore !== 'number' ||
+      !(filters.minDealScore >= 0 && filters.minDealScore <= MAX_DEAL_SCORE))
+  ) {
+    issue('minDealScore', 'invalidDealScore')
+  }
+
+  if (filters.searchArea !== undefined && !isValidPolygon(filters.searchArea)) {
+    issue('searchArea', 'invalidSearchArea')
+  }
+
+  return issues
+}
+
+type StationSelection = Pick<FilterSettings, 'stations' | 'stationNames'>
+
+/**
+ * Selects or deselects stations (e.g. a whole line), keeping each name at
+ * the same index as its station ID. Stations already selected keep their
+ * place.
+ */
+export const setStationsSelected = (
+  selection: StationSelection,
+  stations: StationEntry[],
+  selected: boolean
+): StationSelection => {
+  const current = selection.stations.map((id, i) => ({
+    id,
+    name: selection.stationNames[i],
+  }))
+  const ids = new Set(stations.map((station) => station.id))
+  const selectedIds = new Set(selection.stations)
+  const next = selected
+    ? [...current, ...stations.filter((s) => !selectedIds.has(s.id))]
+    : current.filter((station) => !ids.has(station.id))
+
+  return {
+    stations: next.map((station) => station.id),
+    stationNames: next.map((station) => station.name),
+  }
+}
+
+// Romanized names vary in spelling ("Namboku" / "Nanboku", "Jimbocho" /
+// "Jinbocho") and in hyphens and spaces, so those are ignored
+const normalizeName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[\s-]/g, '')
+    .replace(/m(?=[bpm])/g, 'n')
+
+/**
+ * Narrows train lines to a search: lines whose name matches keep every
+ * station, other lines keep just their matching stations.
+ */
+export const searchLines = (
+  lines: TrainLineEntry[],
+  query: string
+): TrainLineEntry[] => {
+  const needle = normalizeName(query)
+  if (!needle) return lines
+  return lines.flatMap((line) => {
+    if (normalizeName(line.name).includes(needle)) return [line]
+    const stations = line.stations.filter((station) =>
+      normalizeName(station.name).includes(needle)
+    )
+    return stations.length > 0 ? [{ ...line, stations }] : []
+  })
+}
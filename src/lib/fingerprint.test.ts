@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { buildFingerprint, matchFingerprints } from './fingerprint'
+import type { FingerprintRecord, Listing } from './types'
+
+const EARLIER = '2026-03-01T00:00:00.000Z'
+const NOW = '2026-03-02T00:00:00.000Z'
+
+const UNIT = {
+  slug: 'park-court-azabu',
+  roomNumber: '502',
+  latitude: 35.65432,
+  longitude: 139.73456,
+  sizeSqm: 62.5,
+  layout: '2LDK',
+}
+
+const listing = (key: string, fingerprint: string | null): Listing =>
+  ({
+    key,
+    fingerprint,
+    rentAmount: 255000,
+    keyMoney: 0,
+    securityDeposit: 255000,
+  }) as Listing
+
+const record = (key: string): FingerprintRecord => ({
+  key,
+  rentAmount: 280000,
+  keyMoney: 0,
+  securityDeposit: 280000,
+  lastSeenAt: EARLIER,
+})
+
+describe('buildFingerprint', () => {
+  it('ignores coordinate jitter and formatting differences', () => {
+    expect(
+      buildFingerprint({
+        ...UNIT,
+        latitude: 35.654321,
+        roomNumber: ' 502 ',
+        layout: '2ldk',
+      })
+    ).toBe(buildFingerprint(UNIT))
+  })
+
+  it('tells different rooms apart', () => {
+    expect(buildFingerprint({ ...UNIT, roomNumber: '503' })).not.toBe(
+      buildFingerprint(UNIT)
+    )
+  })
+})
+
+describe('matchFingerprints', () => {
+  it('treats unknown units as fresh', () => {
+    const update = matchFingerprints(
+      new Map(),
+      [listing('ehousing:2', 'fp')],
+      new Set(['ehousing:2']),
+      NOW
+    )
+    expect(update.fresh.map((l) => l.key)).toEqual(['ehousing:2'])
+    expect(update.records.get('fp')?.key).toBe('ehousing:2')
+  })
+
+  it('links a unit back under a new ID to its earlier listing', () => {
+    const update = matchFingerprints(
+      new Map([['fp', record('ehousing:1')]]),
+      [listing('ehousing:2', 'fp')],
+      new Set(['ehousing:2']),
+      NOW
+    )
+    expect(update.fresh).toEqual([])
+    expect(update.relisted).toHaveLength(1)
+    expect(update.relisted[0].previous.rentAmount).toBe(280000)
+    expect(update.records.get('fp')?.key).toBe('ehousing:2')
+  })
+
+  it('flags a second copy of a current listing as a duplicate', () => {
+    const update = matchFingerprints(
+      new Map([['fp', record('ehousing:1')]]),
+      [listing('ehousing:2', 'fp'), listing('ehousing:1', 'fp')],
+      new Set(['ehousing:2']),
+      NOW
+    )
+    expect(update.fresh).toEqual([])
+    expect(update.relisted).toEqual([])
+    expect(update.duplicates.map((m) => m.listing.key)).toEqual(['ehousing:2'])
+    expect(update.records.get('fp')?.key).toBe('ehousing:1')
+  })
+
+  it('announces listings without a fingerprint as fresh', () => {
+    const update = matchFingerprints(
+      new Map(),
+      [listing('ehousing:2', null)],
+      new Set(['ehousing:2']),
+      NOW
+    )
+    expect(update.fresh).toHaveLength(1)
+    expect(update.records.size).toBe(0)
+  })
+})
@@ -0,0 +1,138 @@
+import { createHash } from 'node:crypto'
+import type { FingerprintRecord, Listing, PriceChange } from './types'
+
+/**
+ * Relisting and duplicate detection. Sites often re-post the same unit
+ * under a new ID, or list one room twice; a fingerprint of the unit's
+ * physical details links those records so they aren't announced as new.
+ */
+
+// ~10m, so tiny coordinate jitter between postings still matches
+const COORDINATE_DECIMALS = 4
+
+// Fingerprints not seen for this long are forgotten
+const FINGERPRINT_RETENTION_MS = 365 * 24 * 60 * 60 * 1000
+
+export type UnitDetails = {
+  slug: string
+  roomNumber: string
+  latitude: number
+  longitude: number
+  sizeSqm: number
+  layout: string
+}
+
+export const buildFingerprint = (unit: UnitDetails): string => {
+  const parts = [
+    unit.slug.trim().toLowerCase(),
+    unit.roomNumber.trim().toLowerCase(),
+    unit.latitude.toFixed(COORDINATE_DECIMALS),
+    unit.longitude.toFixed(COORDINATE_DECIMALS),
+    String(unit.sizeSqm),
+    unit.layout.trim().toUpperCase(),
+  ]
+  return createHash('sha1').update(parts.join('|')).digest('hex')
+}
+
+export type FingerprintMatch = {
+  listing: Listing
+  previous: FingerprintRecord
+}
+
+export type FingerprintUpdate = {
+  // Appeared listings with no earlier record of the unit
+  fresh: Listing[]
+  // Units back after leaving the results, under the same or a new ID
+  relisted: FingerprintMatch[]
+  // Units already in the current results under another ID
+  duplicates: FingerprintMatch[]
+  // Records to store, keyed by fingerprint
+  records: Map<string, FingerprintRecord>
+  expired: string[]
+}
+
+/**
+ * Sorts the listings that appeared this poll into fresh ones, relistings
+ * and duplicates, and works out the fingerprint records to store for the
+ * current results.
+ */
+export const matchFingerprints = (
+  existing: Map<string, FingerprintRecord>,
+  listings: Listing[],
+  appearedKeys: Set<string>,
+  timestamp: string
+): FingerprintUpdate => {
+  const update: FingerprintUpdate = {
+    fresh: [],
+    relisted: [],
+    duplicates: [],
+    records: new Map(),
+    expired: [],
+  }
+
+  // Listings that were already there claim their fingerprints first, so a
+  // newly appeared copy is the one flagged as a duplicate
+  const ordered = [
+    ...listings.filter((l) => !appearedKeys.has(l.key)),
+    ...listings.filter((l) => appearedKeys.has(l.key)),
+  ]
+
+  for (const listing of ordered) {
+    const fingerprint = listing.fingerprint
+    const claimed = fingerprint ? update.records.get(fingerprint) : undefined
+
+    if (appearedKeys.has(listing.key)) {
+      const previous = fingerprint ? existing.get(fingerprint) : undefined
+      if (claimed) {
+        update.duplicates.push({ listing, previous: claimed })
+      } else if (previous) {
+        update.relisted.push({ listing, previous })
+      } else {
+        update.fresh.push(listing)
+      }
+    }
+
+    if (fingerprint && !claimed) {
+      update.records.set(fingerprint, {
+        key: listing.key,
+        rentAmount: listing.rentAmount,
+        keyMoney: listing.keyMoney,
+        securityDeposit: listing.securityDeposit,
+        lastSeenAt: timestamp,
+      })
+    }
+  }
+
+  const cutoff = Date.parse(timestamp) - FINGERPRINT_RETENTION_MS
+  for (const [fingerprint, record] of existing) {
+    const isStale = Date.parse(record.lastSeenAt) < cutoff
+    if (isStale && !update.records.has(fingerprint)) {
+      update.expired.push(fingerprint)
+    }
+  }
+
+  return update
+}
+
+/**
+ * Expresses a relisting as a price change from the unit's last listing,
+ * so one that came back cheaper can be alerted as a price drop.
+ */
+export const relistingPriceChange = (
+  { listing, previous }: FingerprintMatch,
+  timestamp: string
+): PriceChange => ({
+  listing,
+  previous: {
+    rentAmount: previous.rentAmount,
+    keyMoney: previous.keyMoney,
+    securityDeposit: previous.securityDeposit,
+    observedAt: previous.lastSeenAt,
+  },
+  current: {
+    rentAmount: listing.rentAmount,
+    keyMoney: listing.keyMoney,
+    securityDeposit: listing.securityDeposit,
+    observedAt: timestamp,
+  },
+})
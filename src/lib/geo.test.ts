@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_SEARCH_AREA,
+  getSearchArea,
+  isPointInPolygon,
+  isValidPolygon,
+  projectPoint,
+  unprojectPoint,
+} from './geo'
+
+// A triangle around Nakameguro
+const TRIANGLE = [
+  { lat: 35.64, lng: 139.69 },
+  { lat: 35.66, lng: 139.69 },
+  { lat: 35.65, lng: 139.71 },
+]
+
+describe('isPointInPolygon', () => {
+  it('accepts points inside the polygon', () => {
+    expect(isPointInPolygon({ lat: 35.65, lng: 139.695 }, TRIANGLE)).toBe(true)
+  })
+
+  it('rejects points outside the polygon', () => {
+    expect(isPointInPolygon({ lat: 35.645, lng: 139.708 }, TRIANGLE)).toBe(false)
+    expect(isPointInPolygon({ lat: 35.7, lng: 139.7 }, TRIANGLE)).toBe(false)
+  })
+
+  it('covers central Tokyo with the default area', () => {
+    expect(
+      isPointInPolygon({ lat: 35.6812, lng: 139.7671 }, DEFAULT_SEARCH_AREA)
+    ).toBe(true)
+  })
+})
+
+describe('getSearchArea', () => {
+  it('falls back to the default area for missing or degenerate polygons', () => {
+    expect(getSearchArea({})).toBe(DEFAULT_SEARCH_AREA)
+    expect(getSearchArea({ searchArea: TRIANGLE.slice(0, 2) })).toBe(
+      DEFAULT_SEARCH_AREA
+    )
+    expect(getSearchArea({ searchArea: TRIANGLE })).toBe(TRIANGLE)
+  })
+
+  it('rejects out-of-range coordinates', () => {
+    expect(isValidPolygon([...TRIANGLE, { lat: 91, lng: 0 }])).toBe(false)
+  })
+})
+
+describe('projectPoint', () => {
+  it('round-trips through unprojectPoint', () => {
+    const point = { lat: 35.6812, lng: 139.7671 }
+    const { x, y } = projectPoint(point, 14)
+    const back = unprojectPoint(x, y, 14)
+    expect(back.lat).toBeCloseTo(point.lat, 9)
+    expect(back.lng).toBeCloseTo(point.lng, 9)
+  })
+})
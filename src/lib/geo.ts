@@ -0,0 +1,97 @@
+import type { GeoPoint } from './types'
+
+/**
+ * The rectangle around the Tokyo metro area that e-housing searches when no
+ * custom area has been drawn.
+ */
+export const DEFAULT_SEARCH_AREA: GeoPoint[] = [
+  { lat: 35.482771620001955, lng: 139.43616821481683 },
+  { lat: 35.80585431502774, lng: 139.43616821481683 },
+  { lat: 35.80585431502774, lng: 140.01432367508613 },
+  { lat: 35.482771620001955, lng: 140.01432367508613 },
+]
+
+// A polygon needs at least three corners to enclose anything
+export const MIN_POLYGON_POINTS = 3
+
+export const isValidPoint = (value: unknown): value is GeoPoint => {
+  if (!value || typeof value !== 'object') return false
+  const { lat, lng } = value as Record<string, unknown>
+  return (
+    typeof lat === 'number' &&
+    typeof lng === 'number' &&
+    lat >= -90 &&
+    lat <= 90 &&
+    lng >= -180 &&
+    lng <= 180
+  )
+}
+
+export const isValidPolygon = (value: unknown): value is GeoPoint[] =>
+  Array.isArray(value) &&
+  value.length >= MIN_POLYGON_POINTS &&
+  value.every(isValidPoint)
+
+/**
+ * Returns the custom search area from the filters, or the default Tokyo
+ * rectangle if none (or an unusable one) is set.
+ */
+export const getSearchArea = (filters: {
+  searchArea?: GeoPoint[]
+}): GeoPoint[] =>
+  isValidPolygon(filters.searchArea) ? filters.searchArea : DEFAULT_SEARCH_AREA
+
+/**
+ * Ray-casting point-in-polygon test. Points exactly on an edge may land on
+ * either side, which is fine at the scale of a rental listing.
+ */
+export const isPointInPolygon = (
+  point: GeoPoint,
+  polygon: GeoPoint[]
+): boolean => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    if (crosses) inside = !inside
+  }
+  return inside
+}
+
+// --- Web Mercator (slippy map) projection ---
+
+const TILE_SIZE = 256
+
+/**
+ * Projects a coordinate to global pixel coordinates at a zoom level.
+ */
+export const projectPoint = (
+  point: GeoPoint,
+  zoom: number
+): { x: number; y: number } => {
+  const scale = TILE_SIZE * 2 ** zoom
+  const sinLat = Math.sin((point.lat * Math.PI) / 180)
+  return {
+    x: ((point.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  }
+}
+
+/**
+ * Inverse of `projectPoint`.
+ */
+export const unprojectPoint = (
+  x: number,
+  y: number,
+  zoom: number
+): GeoPoint => {
+  const scale = TILE_SIZE * 2 ** zoom
+  const n = Math.PI - (2 * Math.PI * y) / scale
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / scale) * 360 - 180,
+  }
+}
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Listing, PollRun, SourceResult } from './types'
+import { assessScrape, checkHealth, evaluateHealth } from './health'
+import { getHealthState, getPollRuns, setHealthState } from './redis'
+import { notifyMonitoringBroken } from './push'
+
+vi.mock('./redis', () => ({
+  getPollRuns: vi.fn(),
+  getHealthState: vi.fn(),
+  setHealthState: vi.fn(),
+}))
+
+vi.mock('./push', () => ({
+  notifyMonitoringBroken: vi.fn(),
+}))
+
+const NOW = Date.parse('2025-03-01T12:00:00Z')
+
+const run = (minutesAgo: number, overrides: Partial<PollRun> = {}): PollRun => {
+  const startedAt = new Date(NOW - minutesAgo * 60000).toISOString()
+  return {
+    id: `poll-${startedAt}`,
+    kind: 'poll',
+    startedAt,
+    durationMs: 1000,
+    success: true,
+    degraded: false,
+    pageCount: 1,
+    totalListings: 10,
+    newListings: 0,
+    removedListings: 0,
+    changedListings: 0,
+    notificationsSent: 0,
+    error: null,
+    ...overrides,
+  }
+}
+
+const result = (overrides: Partial<SourceResult> = {}): SourceResult => ({
+  source: 'ehousing',
+  listings: [],
+  rejected: [],
+  total: 0,
+  pageCount: 1,
+  notModified: false,
+  truncated: false,
+  ...overrides,
+})
+
+describe('assessScrape', () => {
+  it('accepts a genuinely empty result while little was tracked', () => {
+    expect(assessScrape([result()], [], 2)).toBeNull()
+  })
+
+  it('rejects a page whose listing data went missing', () => {
+    expect(assessScrape([result({ total: null })], [], 0)).toMatch(
+      /no ehousing results/
+    )
+  })
+
+  it('rejects a scrape where every record failed validation', () => {
+    const rejected = [{ source: 'ehousing' } as SourceResult['rejected'][0]]
+    expect(assessScrape([result({ rejected, total: 1 })], [], 0)).toMatch(
+      /failed validation/
+    )
+  })
+
+  it('rejects a sudden drop to zero', () => {
+    expect(assessScrape([result()], [], 40)).toBe(
+      'listings dropped from 40 to 0'
+    )
+  })
+
+  it('ignores unchanged sources', () => {
+    const listing = { key: 'ehousing:1' } as Listing
+    expect(
+      assessScrape(
+        [result({ notModified: true, total: null }), result({ listings: [listing] })],
+        [listing],
+        40
+      )
+    ).toBeNull()
+  })
+})
+
+describe('evaluateHealth', () => {
+  it('reports nothing while polls succeed', () => {
+    expect(evaluateHealth([run(0), run(60)], NOW)).toEqual([])
+  })
+
+  it('flags consecutive failed polls', () => {
+    const runs = [
+      run(0, { success: false, error: 'timeout' }),
+      run(60, { success: false }),
+      run(120, { success: false }),
+      run(180),
+    ]
+    expect(evaluateHealth(runs, NOW)).toEqual([
+      {
+        rule: 'consecutive-failures',
+        params: { count: 3, detail: 'timeout' },
+      },
+    ])
+  })
+
+  it('ignores failed manual refreshes', () => {
+    const runs = [
+      run(0, { kind: 'refresh', success: false }),
+      run(1, { kind: 'refresh', success: false }),
+      run(2, { kind: 'refresh', success: false }),
+      run(60),
+    ]
+    expect(evaluateHealth(runs, NOW)).toEqual([])
+  })
+
+  it('flags polls that stopped running', () => {
+    const breaches = evaluateHealth([run(5 * 60)], NOW)
+    expect(breaches.map((b) => b.rule)).toEqual(['stale-poll'])
+  })
+
+  it('includes a rejected scrape', () => {
+    expect(evaluateHealth([run(0)], NOW, 'listings dropped')).toEqual([
+      { rule: 'bad-scrape', params: { detail: 'listings dropped' } },
+    ])
+  })
+})
+
+describe('checkHealth', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.mocked(getPollRuns).mockReset().mockResolvedValue([run(5 * 60)])
+    vi.mocked(getHealthState).mockReset().mockResolvedValue(null)
+    vi.mocked(setHealthState).mockReset()
+    vi.mocked(notifyMonitoringBroken).mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('alerts once when a rule breaks', async () => {
+    const state = await checkHealth()
+    expect(notifyMonitoringBroken).toHaveBeenCalledTimes(1)
+    expect(state?.alertedAt['stale-poll']).toBe(new Date(NOW).toISOString())
+
+    vi.mocked(getHealthState).mockResolvedValue(state)
+    vi.mocked(notifyMonitoringBroken).mockClear()
+    vi.setSystemTime(NOW + 60 * 60 * 1000)
+    await checkHealth()
+    expect(notifyMonitoringBroken).not.toHaveBeenCalled()
+  })
+
+  it('re-alerts a rule that stays broken for a day', async () => {
+    const state = await checkHealth()
+    vi.mocked(getHealthState).mockResolvedValue(state)
+    vi.mocked(notifyMonitoringBroken).mockClear()
+
+    vi.setSystemTime(NOW + 25 * 60 * 60 * 1000)
+    await checkHealth()
+    expect(notifyMonitoringBroken).toHaveBeenCalledTimes(1)
+  })
+
+  it('never throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(getPollRuns).mockRejectedValue(new Error('Redis down'))
+    await expect(checkHealth()).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,167 @@
+import type {
+  HealthBreach,
+  HealthRule,
+  HealthState,
+  Listing,
+  PollRun,
+  SourceResult,
+} from './types'
+import { getHealthState, getPollRuns, setHealthState } from './redis'
+import { notifyMonitoringBroken } from './push'
+
+/**
+ * Scraper health monitoring. After each poll (and from the daily catalog
+ * sync, in case polls stop altogether) the poll log is checked against a
+ * few rules; a newly broken rule sends subscribers a "monitoring is
+ * broken" push.
+ */
+
+// Scheduled polls in a row that must fail before alerting
+const MAX_CONSECUTIVE_FAILURES = 3
+
+// Polls run at most 3 hours apart; this long without a successful one
+// means they stopped
+const STALE_POLL_MS = 4 * 60 * 60 * 1000
+
+// An empty scrape is only suspicious if we were tracking at least this many
+const MIN_LISTINGS_FOR_ZERO_DROP = 5
+
+// A rule that stays broken is re-alerted at most this often
+const REALERT_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Decides whether a scrape is obviously broken, in which case it must not
+ * overwrite what we know. Returns the reason, or null if it looks fine.
+ */
+export const assessScrape = (
+  results: SourceResult[],
+  listings: Listing[],
+  activeListings: number
+): string | null => {
+  for (const result of results) {
+    if (result.notModified || result.listings.length > 0) continue
+
+    if (result.rejected.length > 0) {
+      return `every ${result.source} record failed validation`
+    }
+    // A genuine empty result still carries the page's result count
+    if (result.total === null) {
+      return `no ${result.source} results found in the page`
+    }
+  }
+
+  if (listings.length === 0 && activeListings >= MIN_LISTINGS_FOR_ZERO_DROP) {
+    return `listings dropped from ${activeListings} to 0`
+  }
+
+  return null
+}
+
+/**
+ * Checks the poll log against the health rules. `badScrape` is the reason
+ * the latest poll's scrape was rejected, if it was.
+ */
+export const evaluateHealth = (
+  runs: PollRun[],
+  now: number,
+  badScrape: string | null = null
+): Omit<HealthBreach, 'since'>[] => {
+  const breaches: Omit<HealthBreach, 'since'>[] = []
+  const polls = runs.filter((run) => run.kind === 'poll')
+
+  const recent = polls.slice(0, MAX_CONSECUTIVE_FAILURES)
+  if (
+    recent.length === MAX_CONSECUTIVE_FAILURES &&
+    recent.every((run) => !run.success)
+  ) {
+    breaches.push({
+      rule: 'consecutive-failures',
+      params: { count: recent.length, detail: recent[0].error ?? 'unknown error' },
+    })
+  }
+
+  if (badScrape) {
+    breaches.push({ rule: 'bad-scrape', params: { detail: badScrape } })
+  }
+
+  // Without any logged poll there's nothing to call stale yet
+  const lastSuccess = polls.find((run) => run.success)
+  const lastActivity = lastSuccess ?? polls[polls.length - 1]
+  if (
+    lastActivity &&
+    now - Date.parse(lastActivity.startedAt) > STALE_POLL_MS
+  ) {
+    breaches.push({
+      rule: 'stale-poll',
+      params: { time: lastActivity.startedAt },
+    })
+  }
+
+  return breaches
+}
+
+/**
+ * Evaluates health, stores the result and alerts subscribers about rules
+ * that just broke (or are still broken a day after the last alert).
+ * Never throws; health checks mustn't fail the poll that runs them.
+ */
+export const checkHealth = async (
+  badScrape: string | null = null
+): Promise<HealthState | null> => {
+  try {
+    const now = Date.now()
+    const [runs, previous] = await Promise.all([
+      getPollRuns(MAX_CONSECUTIVE_FAILURES * 10),
+      getHealthState(),
+    ])
+
+    const previousSince = new Map(
+      (previous?.breaches ?? []).map((b) => [b.rule, b.since])
+    )
+    const breaches: HealthBreach[] = evaluateHealth(runs, now, badScrape).map(
+      (breach) => ({
+        ...breach,
+        since: previousSince.get(breach.rule) ?? new Date(now).toISOString(),
+      })
+    )
+
+    const alertedAt = { ...previous?.alertedAt }
+    const toAlert = breaches.filter((breach) => {
+      const last = alertedAt[breach.rule]
+      return (
+        !previousSince.has(breach.rule) ||
+        !last ||
+        now - Date.parse(last) > REALERT_INTERVAL_MS
+      )
+    })
+
+    if (toAlert.length > 0) {
+      console.warn(
+        `[health] Monitoring broken: ${toAlert.map((b) => b.rule).join(', ')}`
+      )
+      await notifyMonitoringBroken(toAlert)
+      for (const breach of toAlert) {
+        alertedAt[breach.rule] = new Date(now).toISOString()
+      }
+    } else if (breaches.length === 0 && previous?.breaches.length) {
+      console.log('[health] Monitoring recovered')
+    }
+
+    // Forget alerts for rules that recovered, so a new breach alerts at once
+    const broken = new Set<HealthRule>(breaches.map((b) => b.rule))
+    for (const rule of Object.keys(alertedAt) as HealthRule[]) {
+      if (!broken.has(rule)) delete alertedAt[rule]
+    }
+
+    const state: HealthState = {
+      breaches,
+      alertedAt,
+      checkedAt: new Date(now).toISOString(),
+    }
+    await setHealthState(state)
+    return state
+  } catch (error) {
+    console.error('[health] Health check failed:', error)
+    return null
+  }
+}
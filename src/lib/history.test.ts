@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest'
+import { buildHistoryEntries, diffSnapshots, toSnapshot } from './history'
+import type { Listing, PropertyHistoryEntry } from './types'
+
+vi.mock('./redis', () => ({
+  getLatestHistoryEntries: vi.fn(),
+  appendHistoryEntries: vi.fn(),
+}))
+
+const EARLIER = '2026-03-01T00:00:00.000Z'
+const NOW = '2026-03-02T00:00:00.000Z'
+
+const listing = (overrides: Partial<Listing> = {}): Listing =>
+  ({
+    source: 'ehousing',
+    id: '1',
+    key: 'ehousing:1',
+    rentAmount: 280000,
+    keyMoney: 0,
+    securityDeposit: 280000,
+    status: '1',
+    sizeSqm: 60,
+    bedRooms: 2,
+    layout: '2LDK',
+    imageUrls: ['a.jpg', 'b.jpg'],
+    ...overrides,
+  }) as Listing
+
+const entry = (
+  overrides: Partial<PropertyHistoryEntry> = {}
+): PropertyHistoryEntry => ({
+  timestamp: EARLIER,
+  event: 'listed',
+  snapshot: toSnapshot(listing()),
+  changes: [],
+  ...overrides,
+})
+
+describe('diffSnapshots', () => {
+  it('lists the fields that changed', () => {
+    const before = toSnapshot(listing())
+    const after = toSnapshot(
+      listing({ rentAmount: 255000, imageUrls: ['a.jpg'] })
+    )
+    expect(diffSnapshots(before, after)).toEqual(['rentAmount', 'imageUrls'])
+  })
+})
+
+describe('buildHistoryEntries', () => {
+  it('records listings without history as listed', () => {
+    const entries = buildHistoryEntries([listing()], [], new Map(), NOW)
+    expect(entries.get('ehousing:1')).toMatchObject({
+      event: 'listed',
+      timestamp: NOW,
+    })
+  })
+
+  it('skips listings that did not change', () => {
+    const latest = new Map([['ehousing:1', entry()]])
+    const entries = buildHistoryEntries([listing()], [], latest, NOW)
+    expect(entries.size).toBe(0)
+  })
+
+  it('records changes against the latest snapshot', () => {
+    const latest = new Map([['ehousing:1', entry()]])
+    const entries = buildHistoryEntries(
+      [listing({ rentAmount: 255000 })],
+      [],
+      latest,
+      NOW
+    )
+    expect(entries.get('ehousing:1')).toMatchObject({
+      event: 'changed',
+      changes: ['rentAmount'],
+    })
+  })
+
+  it('records delisting and relisting', () => {
+    const delisted = buildHistoryEntries([], ['ehousing:1'], new Map(), NOW)
+    expect(delisted.get('ehousing:1')).toMatchObject({
+      event: 'delisted',
+      snapshot: null,
+    })
+
+    const latest = new Map([
+      ['ehousing:1', entry({ event: 'delisted', snapshot: null })],
+    ])
+    const relisted = buildHistoryEntries([listing()], [], latest, NOW)
+    expect(relisted.get('ehousing:1')?.event).toBe('relisted')
+  })
+})
@@ -0,0 +1,112 @@
+import type {
+  Listing,
+  PropertyHistoryEntry,
+  PropertySnapshot,
+} from './types'
+import { getLatestHistoryEntries, appendHistoryEntries } from './redis'
+
+const SNAPSHOT_FIELDS: (keyof PropertySnapshot)[] = [
+  'rentAmount',
+  'keyMoney',
+  'securityDeposit',
+  'status',
+  'sizeSqm',
+  'bedRooms',
+  'layout',
+  'imageUrls',
+]
+
+export const toSnapshot = (listing: Listing): PropertySnapshot => ({
+  rentAmount: listing.rentAmount,
+  keyMoney: listing.keyMoney,
+  securityDeposit: listing.securityDeposit,
+  status: listing.status,
+  sizeSqm: listing.sizeSqm,
+  bedRooms: listing.bedRooms,
+  layout: listing.layout,
+  imageUrls: listing.imageUrls,
+})
+
+/**
+ * Returns the snapshot fields that differ between two snapshots.
+ */
+export const diffSnapshots = (
+  previous: PropertySnapshot,
+  current: PropertySnapshot
+): (keyof PropertySnapshot)[] =>
+  SNAPSHOT_FIELDS.filter(
+    (field) =>
+      JSON.stringify(previous[field]) !== JSON.stringify(current[field])
+  )
+
+/**
+ * Works out which history entries one poll adds, given each listing's
+ * latest entry. Listings only get an entry when they appear, change,
+ * disappear or come back - not on every poll.
+ */
+export const buildHistoryEntries = (
+  listings: Listing[],
+  delistedKeys: string[],
+  latest: Map<string, PropertyHistoryEntry | null>,
+  timestamp: string
+): Map<string, PropertyHistoryEntry> => {
+  const entries = new Map<string, PropertyHistoryEntry>()
+
+  for (const listing of listings) {
+    const snapshot = toSnapshot(listing)
+    const previous = latest.get(listing.key) ?? null
+
+    if (!previous) {
+      entries.set(listing.key, {
+        timestamp,
+        event: 'listed',
+        snapshot,
+        changes: [],
+      })
+    } else if (previous.event === 'delisted' || !previous.snapshot) {
+      entries.set(listing.key, {
+        timestamp,
+        event: 'relisted',
+        snapshot,
+        changes: [],
+      })
+    } else {
+      const changes = diffSnapshots(previous.snapshot, snapshot)
+      if (changes.length > 0) {
+        entries.set(listing.key, {
+          timestamp,
+          event: 'changed',
+          snapshot,
+          changes,
+        })
+      }
+    }
+  }
+
+  for (const key of delistedKeys) {
+    entries.set(key, {
+      timestamp,
+      event: 'delisted',
+      snapshot: null,
+      changes: [],
+    })
+  }
+
+  return entries
+}
+
+/**
+ * Appends this poll's history entries for every listing that changed.
+ */
+export const recordListingHistory = async (
+  listings: Listing[],
+  delistedKeys: string[],
+  timestamp: string
+): Promise<void> => {
+  const latest = await getLatestHistoryEntries(listings.map((l) => l.key))
+  const entries = buildHistoryEntries(listings, delistedKeys, latest, timestamp)
+  await appendHistoryEntries(entries)
+  if (entries.size > 0) {
+    console.log(`[history] Recorded ${entries.size} history entries`)
+  }
+}
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  CircuitOpenError,
+  DeadlineExceededError,
+  HttpError,
+  httpRequest,
+} from './http'
+import {
+  clearCircuitState,
+  getCircuitState,
+  getHttpValidators,
+  setCircuitState,
+  setHttpValidators,
+} from './redis'
+import type { CircuitState } from './types'
+
+vi.mock('./redis', () => ({
+  getCircuitState: vi.fn(),
+  setCircuitState: vi.fn(),
+  clearCircuitState: vi.fn(),
+  getHttpValidators: vi.fn(),
+  setHttpValidators: vi.fn(),
+}))
+
+const PAGE_URL = 'https://example.com/page'
+
+// No real waiting between retries
+const FAST = { baseDelayMs: 0, maxDelayMs: 0 }
+
+const stubFetch = (...responses: Response[]) => {
+  const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>()
+  for (const response of responses) fetchMock.mockResolvedValueOnce(response)
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+describe('httpRequest', () => {
+  beforeEach(() => {
+    vi.mocked(getCircuitState).mockResolvedValue(null)
+    vi.mocked(getHttpValidators).mockResolvedValue(null)
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('retries server errors and returns the eventual body', async () => {
+    const fetchMock = stubFetch(
+      new Response('busy', { status: 503 }),
+      new Response('ok')
+    )
+
+    const response = await httpRequest(PAGE_URL, { ...FAST, circuit: 'test' })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(response.text).toBe('ok')
+    expect(setCircuitState).not.toHaveBeenCalled()
+  })
+
+  it('does not retry or trip the breaker on client errors', async () => {
+    const fetchMock = stubFetch(new Response('missing', { status: 404 }))
+
+    await expect(
+      httpRequest(PAGE_URL, { ...FAST, circuit: 'test' })
+    ).rejects.toBeInstanceOf(HttpError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(setCircuitState).not.toHaveBeenCalled()
+  })
+
+  it('opens the circuit once failures reach the threshold', async () => {
+    vi.mocked(getCircuitState).mockResolvedValue({
+      name: 'test',
+      failures: 2,
+      openUntil: null,
+      lastError: 'boom',
+      lastFailureAt: '2026-01-01T00:00:00.000Z',
+    })
+    stubFetch(
+      new Response('', { status: 500 }),
+      new Response('', { status: 500 })
+    )
+
+    await expect(
+      httpRequest(PAGE_URL, { ...FAST, retries: 1, circuit: 'test' })
+    ).rejects.toThrow('500')
+
+    const state = vi.mocked(setCircuitState).mock.calls[0][0]
+    expect(state.failures).toBe(3)
+    expect(state.openUntil).not.toBeNull()
+  })
+
+  it('gives up without tripping the breaker once the deadline passes', async () => {
+    const fetchMock = stubFetch(
+      new Response('busy', { status: 503, headers: { 'retry-after': '30' } }),
+      new Response('ok')
+    )
+
+    await expect(
+      httpRequest(PAGE_URL, {
+        maxDelayMs: 60000,
+        circuit: 'test',
+        deadline: Date.now() + 1000,
+      })
+    ).rejects.toBeInstanceOf(DeadlineExceededError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(setCircuitState).not.toHaveBeenCalled()
+  })
+
+  it('refuses requests while the circuit is open', async () => {
+    const open: CircuitState = {
+      name: 'test',
+      failures: 3,
+      openUntil: new Date(Date.now() + 60_000).toISOString(),
+      lastError: 'boom',
+      lastFailureAt: new Date().toISOString(),
+    }
+    vi.mocked(getCircuitState).mockResolvedValue(open)
+    const fetchMock = stubFetch()
+
+    await expect(
+      httpRequest(PAGE_URL, { ...FAST, circuit: 'test' })
+    ).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('closes the circuit after a successful trial request', async () => {
+    vi.mocked(getCircuitState).mockResolvedValue({
+      name: 'test',
+      failures: 3,
+      openUntil: new Date(Date.now() - 1000).toISOString(),
+      lastError: 'boom',
+      lastFailureAt: new Date().toISOString(),
+    })
+    stubFetch(new Response('ok'))
+
+    await httpRequest(PAGE_URL, { ...FAST, circuit: 'test' })
+
+    expect(clearCircuitState).toHaveBeenCalledWith('test')
+  })
+
+  it('sends stored validators and reports 304 as not modified', async () => {
+    vi.mocked(getHttpValidators).mockResolvedValue({
+      etag: '"v1"',
+      lastModified: 'Mon, 19 Oct 2026 00:00:00 GMT',
+    })
+    const fetchMock = stubFetch(new Response(null, { status: 304 }))
+
+    const response = await httpRequest(PAGE_URL, { ...FAST, conditional: true })
+
+    const headers = new Headers(fetchMock.mock.calls[0][1].headers)
+    expect(headers.get('if-none-match')).toBe('"v1"')
+    expect(headers.get('if-modified-since')).toBe(
+      'Mon, 19 Oct 2026 00:00:00 GMT'
+    )
+    expect(response.notModified).toBe(true)
+  })
+
+  it('stores validators from a fresh conditional response', async () => {
+    stubFetch(new Response('ok', { headers: { etag: '"v2"' } }))
+
+    await httpRequest(PAGE_URL, { ...FAST, conditional: true })
+
+    expect(setHttpValidators).toHaveBeenCalledWith(PAGE_URL, {
+      etag: '"v2"',
+      lastModified: null,
+    })
+  })
+})
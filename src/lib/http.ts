@@ -0,0 +1,313 @@
+import type { CircuitState, HttpValidators } from './types'
+import {
+  getCircuitState,
+  setCircuitState,
+  clearCircuitState,
+  getHttpValidators,
+  setHttpValidators,
+} from './redis'
+
+/**
+ * Shared HTTP client for everything we scrape or query upstream.
+ *
+ * - Each attempt has a timeout, and a request can have an overall deadline.
+ * - Transient failures (network errors, timeouts, 408/429/5xx) are retried
+ *   with jittered exponential backoff, honouring Retry-After.
+ * - Conditional requests send the ETag / Last-Modified of the previous
+ *   response and report 304s as `notModified` so callers can skip work.
+ * - An optional circuit breaker, with its state in Redis, refuses requests
+ *   to a host after repeated failures until a cooldown has passed.
+ */
+
+const DEFAULT_TIMEOUT_MS = 15000
+const DEFAULT_RETRIES = 2
+const DEFAULT_BASE_DELAY_MS = 1000
+const DEFAULT_MAX_DELAY_MS = 15000
+
+// Consecutive failed requests that open a circuit
+const CIRCUIT_FAILURE_THRESHOLD = 3
+// How long an open circuit refuses requests before allowing a trial
+const CIRCUIT_COOLDOWN_MS = 15 * 60 * 1000
+
+export type HttpRequestOptions = RequestInit & {
+  timeoutMs?: number
+  // Retries after the first attempt
+  retries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  // Name of the circuit breaker guarding this host, if any
+  circuit?: string
+  // Send validators from the previous response and short-circuit on 304
+  conditional?: boolean
+  // Time (ms since the epoch) the request must finish by, retries included
+  deadline?: number
+}
+
+export type HttpResponse = {
+  status: number
+  notModified: boolean
+  headers: Headers
+  text: string
+}
+
+export class HttpError extends Error {
+  constructor(
+    readonly url: string,
+    readonly status: number,
+    statusText: string
+  ) {
+    super(`Request to ${new URL(url).host} failed: ${status} ${statusText}`)
+    this.name = 'HttpError'
+  }
+}
+
+/**
+ * Thrown when a request's deadline leaves no time for another attempt.
+ */
+export class DeadlineExceededError extends Error {
+  constructor(readonly url: string) {
+    super(`Ran out of time for a request to ${new URL(url).host}`)
+    this.name = 'DeadlineExceededError'
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly circuit: string,
+    readonly openUntil: string
+  ) {
+    super(`Circuit "${circuit}" is open until ${openUntil}`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+/**
+ * Performs a request through the retry, conditional and circuit breaker
+ * layers. Throws `CircuitOpenError` without sending anything while the
+ * circuit is open, and `HttpError` for non-2xx responses that aren't
+ * worth retrying (or still fail after the last retry).
+ */
+export const httpRequest = async (
+  url: string,
+  options: HttpRequestOptions = {}
+): Promise<HttpResponse> => {
+  const { circuit, ...requestOptions } = options
+
+  const state = circuit ? await readCircuit(circuit) : null
+  if (circuit && state?.openUntil && Date.now() < Date.parse(state.openUntil)) {
+    throw new CircuitOpenError(circuit, state.openUntil)
+  }
+
+  try {
+    const response = await requestWithRetries(url, requestOptions)
+    if (circuit && state) {
+      console.log(`[http] Circuit "${circuit}" closed after a successful request`)
+      try {
+        await clearCircuitState(circuit)
+      } catch (e) {
+        console.error('[http] Failed to clear circuit state:', e)
+      }
+    }
+    return response
+  } catch (error) {
+    if (circuit && isTransient(error)) {
+      await recordFailure(circuit, state, error)
+    }
+    throw error
+  }
+}
+
+// A breaker we can't read is treated as closed rather than failing the request
+const readCircuit = async (circuit: string): Promise<CircuitState | null> => {
+  try {
+    return await getCircuitState(circuit)
+  } catch (error) {
+    console.error('[http] Failed to read circuit state:', error)
+    return null
+  }
+}
+
+const requestWithRetries = async (
+  url: string,
+  options: Omit<HttpRequestOptions, 'circuit'>
+): Promise<HttpResponse> => {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    conditional = false,
+    deadline,
+    ...init
+  } = options
+
+  const headers = new Headers(init.headers)
+  if (conditional) {
+    const validators = await readValidators(url)
+    if (validators?.etag) headers.set('If-None-Match', validators.etag)
+    if (validators?.lastModified) {
+      headers.set('If-Modified-Since', validators.lastModified)
+    }
+  }
+
+  let lastError: unknown = null
+  let retryAfterMs: number | null = null
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs, retryAfterMs)
+      if (deadline !== undefined && Date.now() + delay >= deadline) {
+        throw new DeadlineExceededError(url)
+      }
+      console.log(
+        `[http] Retry ${attempt}/${retries} for ${new URL(url).host} in ${delay}ms`
+      )
+      await new Promise((r) => setTimeout(r, delay))
+    }
+
+    // An attempt never runs past the deadline
+    const attemptMs =
+      deadline === undefined
+        ? timeoutMs
+        : Math.min(timeoutMs, deadline - Date.now())
+    if (attemptMs <= 0) throw new DeadlineExceededError(url)
+
+    let response: Response
+    let text = ''
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers,
+        signal: AbortSignal.timeout(attemptMs),
+      })
+      // The timeout also covers reading the body
+      if (response.ok) text = await response.text()
+    } catch (error) {
+      // Network failure or timeout
+      lastError = error
+      retryAfterMs = null
+      continue
+    }
+
+    if (response.status === 304 && conditional) {
+      return {
+        status: 304,
+        notModified: true,
+        headers: response.headers,
+        text: '',
+      }
+    }
+
+    if (response.ok) {
+      if (conditional) await storeValidators(url, response.headers)
+      return {
+        status: response.status,
+        notModified: false,
+        headers: response.headers,
+        text,
+      }
+    }
+
+    lastError = new HttpError(url, response.status, response.statusText)
+    retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
+    if (!isRetryableStatus(response.status)) break
+  }
+
+  throw lastError
+}
+
+const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500
+
+/**
+ * Whether an error means the host is struggling (as opposed to us asking
+ * for something that doesn't exist), which is what trips the breaker.
+ */
+const isTransient = (error: unknown): boolean => {
+  // Running out of our own time budget says nothing about the host
+  if (error instanceof DeadlineExceededError) return false
+  return error instanceof HttpError ? isRetryableStatus(error.status) : true
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to base * 2^attempt,
+ * or the server's Retry-After if it asked for longer.
+ */
+const backoffDelay = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  retryAfter: number | null
+): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  const jittered = Math.round(Math.random() * ceiling)
+  return retryAfter !== null
+    ? Math.min(maxDelayMs, Math.max(retryAfter, jittered))
+    : jittered
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+const readValidators = async (url: string): Promise<HttpValidators | null> => {
+  try {
+    return await getHttpValidators(url)
+  } catch (error) {
+    console.warn('[http] Failed to read cache validators:', error)
+    return null
+  }
+}
+
+const storeValidators = async (url: string, headers: Headers) => {
+  const validators: HttpValidators = {
+    etag: headers.get('etag'),
+    lastModified: headers.get('last-modified'),
+  }
+  if (!validators.etag && !validators.lastModified) return
+  try {
+    await setHttpValidators(url, validators)
+  } catch (error) {
+    // Losing validators only costs a full download next time
+    console.warn('[http] Failed to store cache validators:', error)
+  }
+}
+
+const recordFailure = async (
+  circuit: string,
+  state: CircuitState | null,
+  error: unknown
+) => {
+  const failures = (state?.failures ?? 0) + 1
+  // A failed trial request after the cooldown re-opens immediately
+  const wasOpen = !!state?.openUntil
+  const shouldOpen = wasOpen || failures >= CIRCUIT_FAILURE_THRESHOLD
+  const now = Date.now()
+
+  const next: CircuitState = {
+    name: circuit,
+    failures,
+    openUntil: shouldOpen
+      ? new Date(now + CIRCUIT_COOLDOWN_MS).toISOString()
+      : null,
+    lastError: error instanceof Error ? error.message : String(error),
+    lastFailureAt: new Date(now).toISOString(),
+  }
+
+  if (shouldOpen) {
+    console.warn(
+      `[http] Circuit "${circuit}" open until ${next.openUntil} after ${failures} failure(s)`
+    )
+  }
+
+  try {
+    await setCircuitState(next)
+  } catch (e) {
+    console.error('[http] Failed to record circuit state:', e)
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { isLocale, localizeName, translate } from './i18n'
+
+describe('translate', () => {
+  it('fills in placeholders', () => {
+    expect(translate('en', 'listingsCount', { count: 3 })).toBe('3 listings')
+    expect(translate('ja', 'listingsCount', { count: 3 })).toBe('3件')
+  })
+
+  it('uses English strings for the bilingual locale', () => {
+    expect(translate('both', 'tabFavorites')).toBe('Favorites')
+  })
+
+  it('leaves placeholders without a param untouched', () => {
+    expect(translate('en', 'pushNewListing')).toBe('New listing: {name}')
+  })
+})
+
+describe('localizeName', () => {
+  const langs = { en: 'Park Court Azabu', ja: 'パークコート麻布' }
+
+  it('picks the translation for the locale', () => {
+    expect(localizeName('fallback', langs, 'en')).toBe('Park Court Azabu')
+    expect(localizeName('fallback', langs, 'ja')).toBe('パークコート麻布')
+  })
+
+  it('shows both languages side by side', () => {
+    expect(localizeName('fallback', langs, 'both')).toBe(
+      'Park Court Azabu / パークコート麻布'
+    )
+  })
+
+  it('falls back to the default value when a translation is missing', () => {
+    expect(localizeName('Azabu House', { en: 'Azabu House' }, 'ja')).toBe(
+      'Azabu House'
+    )
+    expect(localizeName('Azabu House', undefined, 'both')).toBe('Azabu House')
+  })
+})
+
+describe('isLocale', () => {
+  it('only accepts supported locales', () => {
+    expect(isLocale('ja')).toBe(true)
+    expect(isLocale('fr')).toBe(false)
+    expect(isLocale(null)).toBe(false)
+  })
+})
@@ -0,0 +1,568 @@
+import type { HealthBreach, Locale } from './types'
+
+/**
+ * Display language support. Listing data carries its own translations in
+ * e-housing's `*_langs` fields (keyed "en" / "ja"); everything else the UI
+ * and push notifications say goes through the message table below.
+ *
+ * The "both" locale shows listing names in English and Japanese side by
+ * side, and uses English for the app's own strings.
+ */
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+export const LOCALES: Locale[] = ['en', 'ja', 'both']
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.includes(value as Locale)
+
+const en = {
+  // Language picker
+  language: 'Language',
+  localeEn: 'English',
+  localeJa: '日本語',
+  localeBoth: 'Both',
+
+  // Dashboard
+  openFilters: 'Open search filters',
+  tabListings: 'Listings',
+  tabFavorites: 'Favorites',
+  loading: 'Loading...',
+  errorLoading: 'Error loading data',
+  listingsCount: '{count} listings',
+  savedCount: '{count} saved',
+  viewSearchOnEhousing: 'View search on e-housing.jp',
+  checkedAt: 'Checked {time}',
+  refreshListings: 'Refresh listings',
+  sortBy: 'Sort listings',
+  sortNewest: 'Newest',
+  sortBestDeal: 'Best deal',
+  tryAgain: 'Try again',
+  noListings:
+    'No listings found. Try adjusting your filters or wait for the next poll.',
+  listingsUpdated: 'Listings updated',
+  refresh: 'Refresh',
+  dismiss: 'Dismiss',
+  justNow: 'just now',
+  minutesAgo: '{count}m ago',
+  hoursAgo: '{count}h ago',
+  daysAgo: '{count}d ago',
+
+  // Favorites
+  noFavorites: 'No favorites yet',
+  noFavoritesHint:
+    'Tap the heart icon on any listing to save it here for easy access later.',
+
+  // Property card
+  viewFullscreen: 'View images fullscreen',
+  closeFullscreen: 'Close fullscreen',
+  goToImage: 'Go to image {index}',
+  imageOf: '{name} - image {index} of {total}',
+  swipeToNavigate: 'Swipe to navigate',
+  noImage: 'No image',
+  noKeyMoney: 'No Key Money',
+  noDeposit: 'No Deposit',
+  addFavorite: 'Add to favorites',
+  removeFavorite: 'Remove from favorites',
+  perMonth: '/mo',
+  bedrooms: '{count} bed',
+  walkMinutes: '{count} min walk',
+  viewLocation: 'View {name} location on Google Maps',
+  commute: 'Commute to Nishimachi',
+  commuteLabel: 'View transit commute to Nishimachi International School',
+  availableFrom: 'Available {date}',
+  availableNow: 'now',
+  floorOf: '{floor}F of {total}',
+  floor: '{floor}F',
+  builtIn: 'Built {year}',
+  yearsOld: '{count} yrs old',
+  managementFee: 'Mgmt ¥{amount}',
+  agencyFee: 'Agency ¥{amount}',
+  contract: 'Contract {length}',
+  scoreLabel: 'Livability score: {score} out of 10. Tap for breakdown.',
+  livabilityBreakdown: 'Livability Breakdown',
+  viewAmenities: 'View amenities on map',
+  viewOnMap: 'View on map',
+  scoreStation: 'Station',
+  scoreGrocery: 'Grocery',
+  scoreDining: 'Dining',
+  scoreKonbini: 'Konbini',
+  scoreParks: 'Parks',
+  withinMeters: '{count} within {meters}m',
+  deal: 'Deal',
+  dealLabel:
+    'Deal score: {score} out of 10. ¥{rate}/m² against ¥{comparable}/m² for {count} similar listings.',
+  rentPerSqmValue: '¥{amount}/m²',
+  listedToday: 'Listed today',
+  onMarketOneDay: 'On market for 1 day',
+  onMarketDays: 'On market for {count} days',
+  delistedToday: 'Delisted today',
+  delistedYesterday: 'Delisted yesterday',
+  delistedDaysAgo: 'Delisted {count} days ago',
+  relistedPreviously: 'Relisted, previously ¥{amount}',
+  showHistory: 'History',
+  hideHistory: 'Hide history',
+  loadingHistory: 'Loading history...',
+  historyFailed: 'Could not load history',
+  noHistory: 'No history recorded yet',
+  historyListed: 'Listed',
+  historyChanged: 'Updated',
+  historyDelisted: 'Delisted',
+  historyRelisted: 'Relisted',
+  historyRent: 'Rent ¥{from} → ¥{to}',
+  historyKeyMoney: 'Key money ¥{from} → ¥{to}',
+  historyDeposit: 'Deposit ¥{from} → ¥{to}',
+  historyStatus: 'Status changed',
+  historyRoom: 'Room details changed',
+  historyPhotos: 'Photos updated',
+
+  // Notifications
+  recentAlerts: 'Recent Alerts',
+  recentNotifications: 'Recent notifications',
+  priceDropped: 'Price drop',
+  pushNewListing: 'New listing: {name}',
+  pushNewListings: '{count} new listings found',
+  pushStationWalk: '{station} {count}min',
+  pushManagementFee: '+¥{amount} mgmt',
+  pushAvailable: 'Avail. {date}',
+  pushNoKeyMoney: 'No key money',
+  pushNoDeposit: 'No deposit',
+  pushPriceDrop: 'Price drop: {name}',
+  pushPriceDrops: '{count} listings dropped their price',
+  pushPriceDropBody: '¥{from} → ¥{to}/mo (-¥{saving})',
+  pushDriftTitle: 'Aparto: {source} data format changed',
+  pushDriftBody:
+    '{invalid} of {total} listings ({percent}%) failed validation: {reasons}',
+  pushHealthTitle: 'Aparto: monitoring is broken',
+
+  // Push subscription
+  pushUnsupported: 'Push notifications not supported',
+  enableNotifications: 'Enable Notifications',
+  disableNotificationsLabel: 'Disable push notifications',
+  enableNotificationsLabel: 'Enable push notifications',
+  notificationsOn: 'Notifications On',
+  notificationsBlocked: 'Notifications Blocked',
+
+  // Status
+  status: 'Status',
+  viewStatus: 'View monitoring status',
+  backToListings: 'Back to listings',
+  loadingStatus: 'Loading status...',
+  statusFailed: 'Could not load status',
+  statusHealthy: 'Monitoring is working',
+  statusBroken: 'Monitoring is broken',
+  statusStale: 'No successful poll since {time}',
+  statusNever: 'No successful poll recorded yet',
+  healthFailures: 'The last {count} polls failed: {detail}',
+  healthBadScrape: 'Ignored a scrape that looked broken: {detail}',
+  recentRuns: 'Recent Runs',
+  noRuns: 'No runs recorded yet',
+  runPoll: 'Poll',
+  runRefresh: 'Refresh',
+  runReseed: 'Re-seed',
+  runFailed: 'Failed',
+  runDegraded: 'Degraded',
+  runSummary: '{total} listings · {pages} pages · {duration}s',
+  runChanges: '{new} new · {removed} removed · {changed} changed',
+  runNotifications: '{count} notifications sent',
+
+  // Market statistics
+  marketStats: 'Market',
+  viewMarketStats: 'View rent market statistics',
+  loadingStats: 'Loading statistics...',
+  statsFailed: 'Could not load statistics',
+  noStats: 'No statistics yet. They are recorded with every poll.',
+  statsScope: 'From listings matching your search filters',
+  allWards: 'All wards',
+  allLayouts: 'All layouts',
+  lastDays: 'Last {count} days',
+  medianRent: 'Median rent',
+  rentRange: 'Middle half: ¥{low} – ¥{high}',
+  rentPerSqm: 'Rent per m²',
+  listingCountLabel: 'Listings',
+  newListingsPerDay: 'New listings per day',
+  daysOnMarket: 'Median days on market',
+  compareWards: 'Compare Wards',
+  wardColumn: 'Ward',
+
+  // Settings
+  searchFilters: 'Search Filters',
+  closeSettings: 'Close settings',
+  loadingSettings: 'Loading settings...',
+  applyFailed: 'Failed to apply filters. You can try again or close.',
+  reset: 'Reset',
+  applying: 'Applying...',
+  applyFilters: 'Apply Filters',
+  selectWard: 'Select at least one ward',
+  wards: 'Wards',
+  stations: 'Stations',
+  searchStations: 'Search lines or stations',
+  noStationMatches: 'No matching lines or stations',
+  selectLine: 'Whole line',
+  clearLine: 'Clear line',
+  clearStations: 'Clear all',
+  removeStation: 'Remove {name}',
+  searchArea: 'Search Area',
+  customArea: '(custom)',
+  searchAreaMap: 'Search area map',
+  zoomIn: 'Zoom in',
+  zoomOut: 'Zoom out',
+  drawHint:
+    'Tap the map to add corners ({count} placed, at least {min} needed). Drag to pan.',
+  undo: 'Undo',
+  cancel: 'Cancel',
+  done: 'Done',
+  drawArea: 'Draw area',
+  useAllOfTokyo: 'Use all of Tokyo',
+  dealAlerts: 'Deal Alerts',
+  dealAlertsHint:
+    'Push new listings only when their rent per m² and move-in cost rate at least this well against similar listings.',
+  dealAlertsAny: 'Every new listing',
+  dealAlertsMin: 'Deal score {score}+',
+  rent: 'Rent',
+  floorArea: 'Floor Area',
+  rangeMin: 'Min',
+  rangeMax: 'Max',
+  rentValue: '¥{amount}',
+  areaValue: '{area} m²',
+  areaOpenValue: '{area}+ m²',
+  walkToStation: 'Walk to Station',
+  walkUpTo: '≤ {count} min',
+  bedroomsFilter: 'Bedrooms',
+  anyBedrooms: 'Any',
+  features: 'Features',
+  featurePets: 'Pets allowed',
+  featureId: 'Feature #{id}',
+  invalidWards: 'The selected wards are incomplete',
+  invalidStations: 'The selected stations are incomplete',
+  invalidPriceRange: 'Set a rent range with the minimum below the maximum',
+  invalidAreaRange: 'Set a floor area range with the minimum below the maximum',
+  invalidWalkingTime: 'Pick a walking time to the station',
+  invalidBedrooms: 'Pick a number of bedrooms',
+  invalidFeatures: 'The selected features are invalid',
+  invalidDealScore: 'Deal score threshold must be between 0 and 10',
+  invalidSearchArea: 'The search area needs at least 3 corners',
+
+  // Poll schedule
+  pollSchedule: 'Polling Schedule',
+  scheduleQstash: 'Managed through QStash · every {count} min right now',
+  scheduleLocal: 'Local scheduler · every {count} min right now',
+  scheduleManual:
+    'Set QSTASH_TOKEN and APP_URL to manage the QStash schedules from here',
+  scheduleBurst: 'Polling every {count} min until {time}',
+  businessHours: 'Business hours (JST)',
+  duringBusinessHours: 'During business hours',
+  outsideBusinessHours: 'Outside business hours',
+  afterFilterChange: 'After a filter change',
+  burstFor: 'for',
+  burstOff: 'Off',
+  everyMinutes: 'Every {count} min',
+  everyHours: 'Every {count} h',
+  forMinutes: '{count} min',
+  saveSchedule: 'Save Schedule',
+  scheduleSaved: 'Schedule saved',
+  scheduleFailed: 'Could not save the schedule',
+}
+
+export type MessageKey = keyof typeof en
+
+const ja: Record<MessageKey, string> = {
+  language: '言語',
+  localeEn: 'English',
+  localeJa: '日本語',
+  localeBoth: '両方',
+
+  openFilters: '検索条件を開く',
+  tabListings: '物件',
+  tabFavorites: 'お気に入り',
+  loading: '読み込み中...',
+  errorLoading: 'データを読み込めませんでした',
+  listingsCount: '{count}件',
+  savedCount: '{count}件保存',
+  viewSearchOnEhousing: 'e-housing.jpで検索結果を見る',
+  checkedAt: '{time}に確認',
+  refreshListings: '物件を更新',
+  sortBy: '並び替え',
+  sortNewest: '新着順',
+  sortBestDeal: 'お得順',
+  tryAgain: '再試行',
+  noListings:
+    '物件が見つかりません。条件を変更するか、次回の確認をお待ちください。',
+  listingsUpdated: '物件が更新されました',
+  refresh: '更新',
+  dismiss: '閉じる',
+  justNow: 'たった今',
+  minutesAgo: '{count}分前',
+  hoursAgo: '{count}時間前',
+  daysAgo: '{count}日前',
+
+  noFavorites: 'お気に入りはまだありません',
+  noFavoritesHint: '物件のハートをタップすると、ここに保存されます。',
+
+  viewFullscreen: '画像を全画面で表示',
+  closeFullscreen: '全画面表示を閉じる',
+  goToImage: '{index}枚目の画像へ',
+  imageOf: '{name} - 画像 {index}/{total}',
+  swipeToNavigate: 'スワイプで移動',
+  noImage: '画像なし',
+  noKeyMoney: '礼金なし',
+  noDeposit: '敷金なし',
+  addFavorite: 'お気に入りに追加',
+  removeFavorite: 'お気に入りから削除',
+  perMonth: '/月',
+  bedrooms: '{count}寝室',
+  walkMinutes: '徒歩{count}分',
+  viewLocation: '{name}の場所をGoogleマップで表示',
+  commute: '西町への通学',
+  commuteLabel: '西町インターナショナルスクールへの経路を表示',
+  availableFrom: '入居可能日 {date}',
+  availableNow: '即入居可',
+  floorOf: '{floor}階 / {total}階建',
+  floor: '{floor}階',
+  builtIn: '{year}年築',
+  yearsOld: '築{count}年',
+  managementFee: '管理費 ¥{amount}',
+  agencyFee: '仲介手数料 ¥{amount}',
+  contract: '契約期間 {length}',
+  scoreLabel: '住みやすさスコア: 10点中{score}点。タップで内訳を表示。',
+  livabilityBreakdown: '住みやすさの内訳',
+  viewAmenities: '周辺施設を地図で見る',
+  viewOnMap: '地図で見る',
+  scoreStation: '駅',
+  scoreGrocery: 'スーパー',
+  scoreDining: '飲食店',
+  scoreKonbini: 'コンビニ',
+  scoreParks: '公園',
+  withinMeters: '{meters}m以内に{count}件',
+  deal: 'お得度',
+  dealLabel:
+    'お得度: 10点中{score}点。¥{rate}/㎡(類似物件{count}件は¥{comparable}/㎡)。',
+  rentPerSqmValue: '¥{amount}/㎡',
+  listedToday: '本日掲載',
+  onMarketOneDay: '掲載から1日',
+  onMarketDays: '掲載から{count}日',
+  delistedToday: '本日掲載終了',
+  delistedYesterday: '昨日掲載終了',
+  delistedDaysAgo: '{count}日前に掲載終了',
+  relistedPreviously: '再掲載 (以前 ¥{amount})',
+  showHistory: '履歴',
+  hideHistory: '履歴を閉じる',
+  loadingHistory: '履歴を読み込み中...',
+  historyFailed: '履歴を読み込めませんでした',
+  noHistory: '履歴はまだありません',
+  historyListed: '掲載',
+  historyChanged: '更新',
+  historyDelisted: '掲載終了',
+  historyRelisted: '再掲載',
+  historyRent: '賃料 ¥{from} → ¥{to}',
+  historyKeyMoney: '礼金 ¥{from} → ¥{to}',
+  historyDeposit: '敷金 ¥{from} → ¥{to}',
+  historyStatus: 'ステータス変更',
+  historyRoom: '部屋情報の変更',
+  historyPhotos: '写真の更新',
+
+  recentAlerts: '最近の通知',
+  recentNotifications: '最近の通知',
+  priceDropped: '値下げ',
+  pushNewListing: '新着物件: {name}',
+  pushNewListings: '新着物件が{count}件あります',
+  pushStationWalk: '{station} 徒歩{count}分',
+  pushManagementFee: '管理費 +¥{amount}',
+  pushAvailable: '入居 {date}',
+  pushNoKeyMoney: '礼金なし',
+  pushNoDeposit: '敷金なし',
+  pushPriceDrop: '値下げ: {name}',
+  pushPriceDrops: '{count}件の物件が値下げされました',
+  pushPriceDropBody: '¥{from} → ¥{to}/月 (-¥{saving})',
+  pushDriftTitle: 'Aparto: {source}のデータ形式が変わりました',
+  pushDriftBody: '{total}件中{invalid}件 ({percent}%) が検証に失敗: {reasons}',
+  pushHealthTitle: 'Aparto: 監視が停止しています',
+
+  pushUnsupported: 'プッシュ通知に対応していません',
+  enableNotifications: '通知をオンにする',
+  disableNotificationsLabel: 'プッシュ通知をオフにする',
+  enableNotificationsLabel: 'プッシュ通知をオンにする',
+  notificationsOn: '通知オン',
+  notificationsBlocked: '通知がブロックされています',
+
+  status: 'ステータス',
+  viewStatus: '監視ステータスを表示',
+  backToListings: '物件一覧に戻る',
+  loadingStatus: 'ステータスを読み込み中...',
+  statusFailed: 'ステータスを読み込めませんでした',
+  statusHealthy: '監視は正常に動作しています',
+  statusBroken: '監視に問題があります',
+  statusStale: '{time}以降、確認に成功していません',
+  statusNever: '成功した確認の記録がありません',
+  healthFailures: '直近{count}回の確認が失敗しました: {detail}',
+  healthBadScrape: '異常な取得結果を無視しました: {detail}',
+  recentRuns: '最近の実行',
+  noRuns: '実行記録はまだありません',
+  runPoll: '定期確認',
+  runRefresh: '手動更新',
+  runReseed: '再取得',
+  runFailed: '失敗',
+  runDegraded: '一部停止',
+  runSummary: '{total}件 · {pages}ページ · {duration}秒',
+  runChanges: '新着{new}件 · 掲載終了{removed}件 · 変更{changed}件',
+  runNotifications: '通知{count}件送信',
+
+  marketStats: '相場',
+  viewMarketStats: '家賃相場の統計を表示',
+  loadingStats: '統計を読み込み中...',
+  statsFailed: '統計を読み込めませんでした',
+  noStats: '統計はまだありません。確認のたびに記録されます。',
+  statsScope: '検索条件に合う物件から集計',
+  allWards: 'すべての区',
+  allLayouts: 'すべての間取り',
+  lastDays: '過去{count}日',
+  medianRent: '家賃の中央値',
+  rentRange: '中央50%: ¥{low} – ¥{high}',
+  rentPerSqm: '㎡あたりの家賃',
+  listingCountLabel: '物件数',
+  newListingsPerDay: '1日の新着物件',
+  daysOnMarket: '掲載日数の中央値',
+  compareWards: '区の比較',
+  wardColumn: '区',
+
+  searchFilters: '検索条件',
+  closeSettings: '設定を閉じる',
+  loadingSettings: '設定を読み込み中...',
+  applyFailed: '条件を適用できませんでした。再試行するか閉じてください。',
+  reset: 'リセット',
+  applying: '適用中...',
+  applyFilters: '条件を適用',
+  selectWard: '区を1つ以上選択してください',
+  wards: '区',
+  stations: '駅',
+  searchStations: '路線・駅を検索',
+  noStationMatches: '一致する路線・駅はありません',
+  selectLine: '全駅を選択',
+  clearLine: '選択解除',
+  clearStations: 'すべて解除',
+  removeStation: '{name}を削除',
+  searchArea: '検索エリア',
+  customArea: '(カスタム)',
+  searchAreaMap: '検索エリアの地図',
+  zoomIn: '拡大',
+  zoomOut: '縮小',
+  drawHint:
+    '地図をタップして頂点を追加します ({count}個、{min}個以上必要)。ドラッグで移動。',
+  undo: '元に戻す',
+  cancel: 'キャンセル',
+  done: '完了',
+  drawArea: 'エリアを描く',
+  useAllOfTokyo: '東京全域',
+  dealAlerts: 'お得度アラート',
+  dealAlertsHint:
+    '㎡あたりの家賃と初期費用が類似物件と比べてこの評価以上の新着物件のみ通知します。',
+  dealAlertsAny: 'すべての新着物件',
+  dealAlertsMin: 'お得度 {score} 以上',
+  rent: '賃料',
+  floorArea: '専有面積',
+  rangeMin: '下限',
+  rangeMax: '上限',
+  rentValue: '{amount}円',
+  areaValue: '{area} m²',
+  areaOpenValue: '{area} m² 以上',
+  walkToStation: '駅徒歩',
+  walkUpTo: '{count}分以内',
+  bedroomsFilter: '寝室数',
+  anyBedrooms: '指定なし',
+  features: 'こだわり条件',
+  featurePets: 'ペット可',
+  featureId: '条件 #{id}',
+  invalidWards: '選択した区の情報が不完全です',
+  invalidStations: '選択した駅の情報が不完全です',
+  invalidPriceRange: '賃料の下限は上限以下にしてください',
+  invalidAreaRange: '面積の下限は上限以下にしてください',
+  invalidWalkingTime: '駅からの徒歩時間を選択してください',
+  invalidBedrooms: '寝室数を選択してください',
+  invalidFeatures: '選択したこだわり条件が無効です',
+  invalidDealScore: 'お得度のしきい値は0〜10で指定してください',
+  invalidSearchArea: '検索エリアには3つ以上の頂点が必要です',
+
+  pollSchedule: '確認スケジュール',
+  scheduleQstash: 'QStashで管理中 · 現在{count}分ごと',
+  scheduleLocal: 'ローカルスケジューラー · 現在{count}分ごと',
+  scheduleManual:
+    'QSTASH_TOKENとAPP_URLを設定すると、ここからQStashのスケジュールを管理できます',
+  scheduleBurst: '{time}まで{count}分ごとに確認',
+  businessHours: '営業時間 (日本時間)',
+  duringBusinessHours: '営業時間中',
+  outsideBusinessHours: '営業時間外',
+  afterFilterChange: '条件変更後',
+  burstFor: '期間',
+  burstOff: 'オフ',
+  everyMinutes: '{count}分ごと',
+  everyHours: '{count}時間ごと',
+  forMinutes: '{count}分間',
+  saveSchedule: 'スケジュールを保存',
+  scheduleSaved: 'スケジュールを保存しました',
+  scheduleFailed: 'スケジュールを保存できませんでした',
+}
+
+const MESSAGES: Record<'en' | 'ja', Record<MessageKey, string>> = { en, ja }
+
+/**
+ * Looks up a UI string and fills in `{placeholder}` params.
+ */
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string => {
+  const template = MESSAGES[locale === 'ja' ? 'ja' : 'en'][key]
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  )
+}
+
+/**
+ * Picks the display form of a name (or address) from its `*_langs`
+ * translations, falling back to the default value when one is missing.
+ */
+export const localizeName = (
+  value: string,
+  langs: Record<string, string> | null | undefined,
+  locale: Locale
+): string => {
+  const english = langs?.en || value
+  if (locale === 'en') return english
+  const japanese = langs?.ja || value
+  if (locale === 'ja') return japanese
+  return japanese !== english ? `${english} / ${japanese}` : english
+}
+
+/**
+ * Formats how long ago a timestamp was, e.g. "5m ago" / "5分前".
+ */
+export const formatTimeAgo = (locale: Locale, timestamp: string): string => {
+  const diffMin = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000)
+  const diffHr = Math.floor(diffMin / 60)
+  const diffDays = Math.floor(diffHr / 24)
+
+  if (diffMin < 1) return translate(locale, 'justNow')
+  if (diffMin < 60) return translate(locale, 'minutesAgo', { count: diffMin })
+  if (diffHr < 24) return translate(locale, 'hoursAgo', { count: diffHr })
+  return translate(locale, 'daysAgo', { count: diffDays })
+}
+
+/**
+ * Describes a broken monitoring rule, for alerts and the status page.
+ */
+export const describeHealthBreach = (
+  locale: Locale,
+  breach: HealthBreach
+): string => {
+  switch (breach.rule) {
+    case 'consecutive-failures':
+      return translate(locale, 'healthFailures', breach.params)
+    case 'bad-scrape':
+      return translate(locale, 'healthBadScrape', breach.params)
+    case 'stale-poll':
+      return translate(locale, 'statusStale', {
+        time: formatTimeAgo(locale, String(breach.params.time)),
+      })
+  }
+}
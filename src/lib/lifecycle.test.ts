@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DELIST_AFTER_MISSED_POLLS,
+  daysSince,
+  markAnnounced,
+  markUnannounced,
+  reseedLifecycles,
+  unannouncedKeys,
+  updateLifecycles,
+} from './lifecycle'
+import type { ListingLifecycle } from './types'
+
+const FIRST_SEEN = '2026-03-01T00:00:00.000Z'
+const NOW = '2026-03-07T00:00:00.000Z'
+
+const record = (
+  key: string,
+  overrides: Partial<ListingLifecycle> = {}
+): ListingLifecycle => ({
+  key,
+  firstSeenAt: FIRST_SEEN,
+  lastSeenAt: FIRST_SEEN,
+  missedPolls: 0,
+  delistedAt: null,
+  ...overrides,
+})
+
+const toMap = (records: ListingLifecycle[]) =>
+  new Map(records.map((r) => [r.key, r]))
+
+describe('updateLifecycles', () => {
+  it('records listings seen for the first time', () => {
+    const update = updateLifecycles(new Map(), ['ehousing:1'], NOW)
+    expect(update.appeared).toEqual(['ehousing:1'])
+    expect(update.records).toEqual([
+      record('ehousing:1', { firstSeenAt: NOW, lastSeenAt: NOW }),
+    ])
+  })
+
+  it('keeps first-seen and resets misses for listings seen again', () => {
+    const existing = toMap([record('ehousing:1', { missedPolls: 2 })])
+    const update = updateLifecycles(existing, ['ehousing:1'], NOW)
+    expect(update.appeared).toEqual([])
+    expect(update.records).toEqual([
+      record('ehousing:1', { lastSeenAt: NOW, missedPolls: 0 }),
+    ])
+  })
+
+  it('only delists after enough consecutive missed polls', () => {
+    let existing = toMap([record('ehousing:1')])
+    for (let poll = 1; poll < DELIST_AFTER_MISSED_POLLS; poll++) {
+      const update = updateLifecycles(existing, [], NOW)
+      expect(update.delisted).toEqual([])
+      existing = toMap(update.records)
+    }
+
+    const update = updateLifecycles(existing, [], NOW)
+    expect(update.delisted).toEqual(['ehousing:1'])
+    expect(update.records[0].delistedAt).toBe(NOW)
+  })
+
+  it('does not announce a listing that reappears before being delisted', () => {
+    const existing = toMap([record('ehousing:1', { missedPolls: 1 })])
+    const update = updateLifecycles(existing, ['ehousing:1'], NOW)
+    expect(update.appeared).toEqual([])
+  })
+
+  it('treats a listing back after being delisted as new', () => {
+    const existing = toMap([record('ehousing:1', { delistedAt: FIRST_SEEN })])
+    const update = updateLifecycles(existing, ['ehousing:1'], NOW)
+    expect(update.appeared).toEqual(['ehousing:1'])
+    expect(update.records[0].firstSeenAt).toBe(NOW)
+  })
+
+  it('leaves listings from skipped sources untouched', () => {
+    const existing = toMap([record('ehousing:1')])
+    const update = updateLifecycles(existing, [], NOW, ['ehousing'])
+    expect(update.records).toEqual([])
+  })
+
+  it('expires delisted records after the retention period', () => {
+    const existing = toMap([
+      record('ehousing:1', { delistedAt: '2026-01-01T00:00:00.000Z' }),
+      record('ehousing:2', { delistedAt: FIRST_SEEN }),
+    ])
+    const update = updateLifecycles(existing, [], NOW)
+    expect(update.expiredKeys).toEqual(['ehousing:1'])
+    expect(update.records).toEqual([])
+  })
+})
+
+describe('reseedLifecycles', () => {
+  it('keeps history for listings still present and drops the rest', () => {
+    const existing = toMap([record('ehousing:1'), record('ehousing:2')])
+    const update = reseedLifecycles(existing, ['ehousing:1', 'ehousing:3'], NOW)
+    expect(update.appeared).toEqual([])
+    expect(update.expiredKeys).toEqual(['ehousing:2'])
+    expect(update.records.map((r) => [r.key, r.firstSeenAt])).toEqual([
+      ['ehousing:1', FIRST_SEEN],
+      ['ehousing:3', NOW],
+    ])
+  })
+})
+
+describe('unannounced listings', () => {
+  it('keeps refresh-spotted listings pending until a poll announces them', () => {
+    const records = markUnannounced(
+      [record('ehousing:1'), record('ehousing:2')],
+      ['ehousing:2']
+    )
+    const existing = toMap([
+      ...records,
+      record('ehousing:3', { unannounced: true, delistedAt: FIRST_SEEN }),
+    ])
+    expect(unannouncedKeys(existing)).toEqual(['ehousing:2'])
+
+    // The flag survives later refreshes
+    const update = updateLifecycles(existing, ['ehousing:1', 'ehousing:2'], NOW)
+    expect(unannouncedKeys(toMap(update.records))).toEqual(['ehousing:2'])
+
+    expect(unannouncedKeys(toMap(markAnnounced(update.records)))).toEqual([])
+  })
+})
+
+describe('daysSince', () => {
+  it('counts whole days', () => {
+    expect(daysSince(FIRST_SEEN, Date.parse(NOW))).toBe(6)
+    expect(daysSince(NOW, Date.parse(NOW) + 1000)).toBe(0)
+  })
+})
@@ -0,0 +1,176 @@
+import type { ListingLifecycle, ListingSourceId } from './types'
+import type { FingerprintMatch } from './fingerprint'
+
+/**
+ * Tracks when listings enter and leave our search results across polls.
+ * The functions here are pure; callers load the records from Redis, apply
+ * a poll's results and write back what changed.
+ */
+
+// Consecutive missed polls after which a listing counts as delisted
+export const DELIST_AFTER_MISSED_POLLS = 3
+
+// How long delisted records are kept before being dropped
+const DELISTED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type LifecycleUpdate = {
+  // Records that changed and need writing back
+  records: ListingLifecycle[]
+  // Keys whose records should be deleted
+  expiredKeys: string[]
+  // Listings seen for the first time, or back after being delisted
+  appeared: string[]
+  // Listings that crossed the missed-poll threshold this round
+  delisted: string[]
+}
+
+const newLifecycle = (key: string, timestamp: string): ListingLifecycle => ({
+  key,
+  firstSeenAt: timestamp,
+  lastSeenAt: timestamp,
+  missedPolls: 0,
+  delistedAt: null,
+})
+
+/**
+ * Applies one poll's results to the lifecycle records. Listings from
+ * `skippedSources` (which failed this round) are left untouched rather
+ * than counted as missed.
+ */
+export const updateLifecycles = (
+  existing: Map<string, ListingLifecycle>,
+  seenKeys: string[],
+  timestamp: string,
+  skippedSources: ListingSourceId[] = []
+): LifecycleUpdate => {
+  const seen = new Set(seenKeys)
+  const update: LifecycleUpdate = {
+    records: [],
+    expiredKeys: [],
+    appeared: [],
+    delisted: [],
+  }
+
+  for (const key of seen) {
+    const record = existing.get(key)
+    if (!record || record.delistedAt) {
+      // A listing that returns after being delisted starts a new run
+      update.records.push(newLifecycle(key, timestamp))
+      update.appeared.push(key)
+    } else {
+      update.records.push({ ...record, lastSeenAt: timestamp, missedPolls: 0 })
+    }
+  }
+
+  const cutoff = Date.parse(timestamp) - DELISTED_RETENTION_MS
+  for (const [key, record] of existing) {
+    if (seen.has(key)) continue
+    const source = key.slice(0, key.indexOf(':')) as ListingSourceId
+    if (skippedSources.includes(source)) continue
+
+    if (record.delistedAt) {
+      if (Date.parse(record.delistedAt) < cutoff) update.expiredKeys.push(key)
+      continue
+    }
+
+    const missedPolls = record.missedPolls + 1
+    const isDelisted = missedPolls >= DELIST_AFTER_MISSED_POLLS
+    update.records.push({
+      ...record,
+      missedPolls,
+      delistedAt: isDelisted ? timestamp : null,
+    })
+    if (isDelisted) update.delisted.push(key)
+  }
+
+  return update
+}
+
+/**
+ * Restarts tracking from a fresh set of results (e.g. after the search
+ * filters change): listings still present keep their history, new ones are
+ * recorded without being reported as appeared, and the rest are dropped.
+ */
+export const reseedLifecycles = (
+  existing: Map<string, ListingLifecycle>,
+  seenKeys: string[],
+  timestamp: string
+): LifecycleUpdate => {
+  const seen = new Set(seenKeys)
+  return {
+    records: Array.from(seen, (key) => {
+      const record = existing.get(key)
+      return record && !record.delistedAt
+        ? { ...record, lastSeenAt: timestamp, missedPolls: 0 }
+        : newLifecycle(key, timestamp)
+    }),
+    expiredKeys: Array.from(existing.keys()).filter((key) => !seen.has(key)),
+    appeared: [],
+    delisted: [],
+  }
+}
+
+/**
+ * Flags the records of relisted units with the listing they replace.
+ */
+export const markRelistings = (
+  records: ListingLifecycle[],
+  relisted: FingerprintMatch[]
+): ListingLifecycle[] => {
+  const byKey = new Map(relisted.map((match) => [match.listing.key, match]))
+  return records.map((record) => {
+    const match = byKey.get(record.key)
+    return match
+      ? {
+          ...record,
+          relistOf: {
+            key: match.previous.key,
+            rentAmount: match.previous.rentAmount,
+          },
+        }
+      : record
+  })
+}
+
+/**
+ * Flags listings that appeared outside a scheduled poll, so the next poll
+ * still considers them for a push.
+ */
+export const markUnannounced = (
+  records: ListingLifecycle[],
+  keys: string[]
+): ListingLifecycle[] => {
+  const pending = new Set(keys)
+  return records.map((record) =>
+    pending.has(record.key) ? { ...record, unannounced: true } : record
+  )
+}
+
+/**
+ * Keys of present listings still waiting for a poll to announce them.
+ */
+export const unannouncedKeys = (
+  existing: Map<string, ListingLifecycle>
+): string[] =>
+  Array.from(existing.values())
+    .filter((record) => record.unannounced && !record.delistedAt)
+    .map((record) => record.key)
+
+/**
+ * Clears the unannounced flag once a poll has made its decision.
+ */
+export const markAnnounced = (
+  records: ListingLifecycle[]
+): ListingLifecycle[] =>
+  records.map((record) =>
+    record.unannounced ? { ...record, unannounced: undefined } : record
+  )
+
+/**
+ * Whole days between two timestamps, for "on market for 6 days" and
+ * "delisted yesterday".
+ */
+export const daysSince = (timestamp: string, now = Date.now()): number =>
+  Math.max(0, Math.floor((now - Date.parse(timestamp)) / DAY_MS))
@@ -1,5 +1,6 @@
 import type { LivabilityScore } from './types'
 import { getCachedScore, setCachedScore } from './redis'
+import { httpRequest } from './http'
 
 // Primary and fallback Overpass API instances
 const OVERPASS_SERVERS = [
@@ -7,7 +8,11 @@ const OVERPASS_SERVERS = [
   'https://overpass.private.coffee/api/interpreter',
 ]
 const RATE_LIMIT_DELAY_MS = 2000
-const MAX_RETRIES = 3
+// Retries per server after the first attempt
+const MAX_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 3000
+// Slightly above the [timeout:15] in the query
+const OVERPASS_TIMEOUT_MS = 20000
 
 // --- Scoring weights ---
 
@@ -88,66 +93,51 @@ const fetchAmenityCounts = async (
 );
 out tags;`
 
-  let lastError: Error | null = null
+  let lastError: unknown = null
 
-  // Try each server, with retries on the primary
+  // Try each server in turn; the client retries transient failures and
+  // each server has its own circuit so a dead mirror is skipped quickly
   for (const serverUrl of OVERPASS_SERVERS) {
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      if (attempt > 0) {
-        const backoff = 3000 * Math.pow(2, attempt - 1)
-        console.log(
-          `[livability] Retry ${attempt}/${MAX_RETRIES} on ${serverUrl.split('/')[2]} after ${backoff}ms`
-        )
-        await new Promise((r) => setTimeout(r, backoff))
+    const host = new URL(serverUrl).host
+    try {
+      const response = await httpRequest(serverUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: `data=${encodeURIComponent(query)}`,
+        timeoutMs: OVERPASS_TIMEOUT_MS,
+        retries: MAX_RETRIES,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        circuit: `overpass:${host}`,
+      })
+
+      const data = JSON.parse(response.text)
+      const elements = data.elements as Array<{
+        type: string
+        tags?: Record<string, string>
+      }>
+
+      const counts: AmenityCounts = {
+        supermarkets: 0,
+        restaurants: 0,
+        convenience: 0,
+        parks: 0,
       }
 
-      try {
-        const response = await fetch(serverUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-          body: `data=${encodeURIComponent(query)}`,
-        })
-
-        if (response.status === 429) {
-          lastError = new Error(`Rate limited (429) on ${serverUrl.split('/')[2]}`)
-          if (attempt === MAX_RETRIES - 1) break // Try next server
-          continue
-        }
-
-        if (!response.ok) {
-          lastError = new Error(`Overpass error ${response.status} on ${serverUrl.split('/')[2]}`)
-          break // Try next server
-        }
-
-        const data = await response.json()
-        const elements = data.elements as Array<{
-          type: string
-          tags?: Record<string, string>
-        }>
-
-        const counts: AmenityCounts = {
-          supermarkets: 0,
-          restaurants: 0,
-          convenience: 0,
-          parks: 0,
-        }
-
-        for (const el of elements) {
-          const tags = el.tags ?? {}
-          if (tags.shop === 'supermarket') counts.supermarkets++
-          else if (tags.amenity === 'restaurant') counts.restaurants++
-          else if (tags.shop === 'convenience') counts.convenience++
-          else if (tags.leisure === 'park') counts.parks++
-        }
-
-        return counts
-      } catch (e) {
-        lastError = e instanceof Error ? e : new Error(String(e))
-        break // Network error, try next server
+      for (const el of elements) {
+        const tags = el.tags ?? {}
+        if (tags.shop === 'supermarket') counts.supermarkets++
+        else if (tags.amenity === 'restaurant') counts.restaurants++
+        else if (tags.shop === 'convenience') counts.convenience++
+        else if (tags.leisure === 'park') counts.parks++
       }
-    }
 
-    console.log(`[livability] Falling back from ${serverUrl.split('/')[2]}`)
+      return counts
+    } catch (e) {
+      lastError = e
+      console.log(
+        `[livability] Falling back from ${host}: ${e instanceof Error ? e.message : e}`
+      )
+    }
   }
 
   throw lastError ?? new Error('All Overpass servers failed')
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PipelineLease } from './types'
+import {
+  LeaseLostError,
+  PipelineBusyError,
+  acquireLease,
+  assertLease,
+  releaseLease,
+} from './lock'
+import {
+  acquirePipelineLock,
+  getPipelineLock,
+  nextFencingToken,
+  releasePipelineLock,
+} from './redis'
+
+vi.mock('./redis', () => ({
+  acquirePipelineLock: vi.fn(),
+  getPipelineLock: vi.fn(),
+  nextFencingToken: vi.fn(),
+  releasePipelineLock: vi.fn(),
+}))
+
+const STARTED_AT = new Date('2026-03-01T09:00:00.000Z')
+
+const holder: PipelineLease = {
+  token: 6,
+  runId: 'refresh-1772355500000',
+  kind: 'refresh',
+  startedAt: '2026-03-01T08:58:20.000Z',
+  expiresAt: '2026-03-01T09:03:20.000Z',
+}
+
+describe('acquireLease', () => {
+  beforeEach(() => {
+    vi.mocked(nextFencingToken).mockReset().mockResolvedValue(7)
+    vi.mocked(acquirePipelineLock).mockReset()
+    vi.mocked(getPipelineLock).mockReset()
+  })
+
+  it('grants a fenced lease named after the run', async () => {
+    vi.mocked(acquirePipelineLock).mockResolvedValue(true)
+
+    const lease = await acquireLease('poll', STARTED_AT)
+    expect(lease).toMatchObject({
+      token: 7,
+      runId: `poll-${STARTED_AT.getTime()}`,
+      kind: 'poll',
+      startedAt: STARTED_AT.toISOString(),
+    })
+  })
+
+  it('reports the run holding the lease', async () => {
+    vi.mocked(acquirePipelineLock).mockResolvedValue(false)
+    vi.mocked(getPipelineLock).mockResolvedValue(holder)
+
+    const attempt = acquireLease('poll', STARTED_AT)
+    await expect(attempt).rejects.toBeInstanceOf(PipelineBusyError)
+    await expect(attempt).rejects.toMatchObject({ holder })
+  })
+})
+
+describe('assertLease', () => {
+  it('passes while the lease is current', async () => {
+    vi.mocked(getPipelineLock).mockResolvedValue(holder)
+    await expect(assertLease(holder)).resolves.toBeUndefined()
+  })
+
+  it('fences off a run whose lease was taken over', async () => {
+    vi.mocked(getPipelineLock).mockResolvedValue({ ...holder, token: 8 })
+    await expect(assertLease(holder)).rejects.toBeInstanceOf(LeaseLostError)
+  })
+
+  it('fences off a run whose lease expired', async () => {
+    vi.mocked(getPipelineLock).mockResolvedValue(null)
+    await expect(assertLease(holder)).rejects.toBeInstanceOf(LeaseLostError)
+  })
+})
+
+describe('releaseLease', () => {
+  it('never throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(releasePipelineLock).mockRejectedValue(new Error('Redis down'))
+    await expect(releaseLease(holder)).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server'
+import type { PipelineLease, PollRunKind } from './types'
+import {
+  acquirePipelineLock,
+  getPipelineLock,
+  nextFencingToken,
+  releasePipelineLock,
+} from './redis'
+import { pollRunId } from './poll-log'
+
+/**
+ * A Redis lease lock so only one poll, refresh or settings re-seed writes
+ * listing state at a time.
+ *
+ * The lease expires on its own, so a run that crashes can't block the
+ * next one forever. A run that outlives its lease is fenced off: each
+ * lease carries a fencing token, and the pipeline checks it still holds
+ * its token before sending notifications or writing state.
+ */
+
+// Just over the routes' 60 second maxDuration (vercel.json): the platform
+// kills a run by then, and its lease shouldn't block the next for long
+const LEASE_TTL_MS = 90 * 1000
+
+export class PipelineBusyError extends Error {
+  constructor(readonly holder: PipelineLease | null) {
+    super(
+      holder
+        ? `A ${holder.kind} is in progress (started ${holder.startedAt})`
+        : 'A poll is in progress'
+    )
+    this.name = 'PipelineBusyError'
+  }
+}
+
+export class LeaseLostError extends Error {
+  constructor(readonly lease: PipelineLease) {
+    super(`Lease ${lease.token} expired before the ${lease.kind} finished`)
+    this.name = 'LeaseLostError'
+  }
+}
+
+/**
+ * Takes the pipeline lease for a run, or throws `PipelineBusyError`
+ * describing the run that holds it.
+ */
+export const acquireLease = async (
+  kind: PollRunKind,
+  startedAt: Date
+): Promise<PipelineLease> => {
+  const lease: PipelineLease = {
+    token: await nextFencingToken(),
+    runId: pollRunId(kind, startedAt),
+    kind,
+    startedAt: startedAt.toISOString(),
+    expiresAt: new Date(Date.now() + LEASE_TTL_MS).toISOString(),
+  }
+
+  if (await acquirePipelineLock(lease, LEASE_TTL_MS)) return lease
+
+  // The holder may have released it in between; callers just retry later
+  throw new PipelineBusyError(await getPipelineLock())
+}
+
+/**
+ * Throws `LeaseLostError` unless the lease is still the current one.
+ */
+export const assertLease = async (lease: PipelineLease): Promise<void> => {
+  const current = await getPipelineLock()
+  if (current?.token !== lease.token) throw new LeaseLostError(lease)
+}
+
+/**
+ * Releases the lease if it's still ours. Never throws; an unreleased
+ * lease simply expires.
+ */
+export const releaseLease = async (lease: PipelineLease): Promise<void> => {
+  try {
+    await releasePipelineLock(lease)
+  } catch (error) {
+    console.error('[lock] Failed to release pipeline lease:', error)
+  }
+}
+
+/**
+ * The "poll in progress" response for a caller that found the lease
+ * taken. `run.runId` is the ID the running run will have in /api/polls.
+ */
+export const busyResponse = (error: PipelineBusyError): NextResponse => {
+  const retryAfterMs = error.holder
+    ? Date.parse(error.holder.expiresAt) - Date.now()
+    : LEASE_TTL_MS
+  return NextResponse.json(
+    { error: 'Poll in progress', run: error.holder },
+    {
+      status: 409,
+      headers: {
+        'Retry-After': String(Math.max(1, Math.ceil(retryAfterMs / 1000))),
+      },
+    }
+  )
+}
@@ -0,0 +1,149 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Listing, Property } from './types'
+import { DEFAULT_FILTERS } from './types'
+import { runPipeline } from './pipeline'
+import { fetchAllListings } from './sources'
+import { toListing } from './sources/ehousing'
+import { enrichProperties } from './enrichment'
+import { notifyNewListings, notifyPriceDrops } from './push'
+import { LeaseLostError, releaseLease } from './lock'
+import {
+  getFilterSettings,
+  getListingLifecycles,
+  getPipelineLock,
+} from './redis'
+
+vi.mock('./sources', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./sources')>()),
+  fetchAllListings: vi.fn(),
+}))
+
+vi.mock('./enrichment', () => ({
+  enrichProperties: vi.fn(async () => new Map()),
+}))
+
+vi.mock('./push', () => ({
+  notifyNewListings: vi.fn(async (listings: Listing[]) => listings),
+  notifyPriceDrops: vi.fn(async () => []),
+  recordRelistings: vi.fn(),
+  notifySchemaDrift: vi.fn(),
+  notifyMonitoringBroken: vi.fn(),
+}))
+
+const FIXTURE_DIR = join(__dirname, '__fixtures__', 'ehousing')
+
+const readProperties = (name: string): Property[] =>
+  JSON.parse(
+    readFileSync(join(FIXTURE_DIR, `${name}.expected.json`), 'utf8')
+  ).properties
+
+const [first, second] = readProperties('single-page').map(toListing)
+const [other] = readProperties('weird-escaping').map(toListing)
+
+// Each run fetches exactly these listings
+const fetching = (...listings: Listing[]) =>
+  vi.mocked(fetchAllListings).mockResolvedValueOnce({
+    listings,
+    results: [
+      {
+        source: 'ehousing',
+        listings,
+        rejected: [],
+        total: listings.length,
+        pageCount: 1,
+        notModified: false,
+        truncated: false,
+      },
+    ],
+    failedSources: [],
+    degraded: false,
+  })
+
+const pushedKeys = () =>
+  vi.mocked(notifyNewListings).mock.calls.flatMap(([listings]) =>
+    listings.map((listing) => listing.key)
+  )
+
+describe('runPipeline', () => {
+  beforeEach(async () => {
+    vi.stubEnv('STORAGE_DRIVER', 'memory')
+    vi.stubEnv('STORAGE_FILE', '')
+    // A fresh memory store for every test
+    delete (globalThis as { storeDriver?: unknown }).storeDriver
+
+    // Start from a tracked search, the way every test scenario does
+    fetching(first)
+    await runPipeline('notify')
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('pushes a listing a refresh found on the next poll', async () => {
+    fetching(first, second)
+    await runPipeline('record')
+    expect(notifyNewListings).not.toHaveBeenCalled()
+
+    fetching(first, second)
+    await runPipeline('notify')
+    expect(pushedKeys()).toEqual([second.key])
+
+    // It's only announced once
+    fetching(first, second)
+    await runPipeline('notify')
+    expect(pushedKeys()).toEqual([second.key])
+  })
+
+  it('only pushes once a run has saved what it announces', async () => {
+    // The lease runs out while new listings are being scraped
+    vi.mocked(enrichProperties).mockImplementationOnce(async () => {
+      const lease = await getPipelineLock()
+      if (lease) await releaseLease(lease)
+      return new Map()
+    })
+
+    fetching(first, second)
+    await expect(runPipeline('notify')).rejects.toThrow(LeaseLostError)
+    expect(notifyNewListings).not.toHaveBeenCalled()
+
+    // The next poll announces the listing, and only once
+    fetching(first, second)
+    await runPipeline('notify')
+    fetching(first, second)
+    await runPipeline('notify')
+    expect(pushedKeys()).toEqual([second.key])
+  })
+
+  it('re-seeds a new search without pushing anything', async () => {
+    const filters = { ...DEFAULT_FILTERS, priceTo: 150000 }
+
+    fetching(other)
+    await runPipeline('reseed', filters)
+    expect(await getFilterSettings()).toEqual(filters)
+    expect(Array.from((await getListingLifecycles()).keys())).toEqual([
+      other.key,
+    ])
+
+    // The listings the new search found aren't announced as new later
+    fetching(other)
+    await runPipeline('notify')
+    expect(notifyNewListings).not.toHaveBeenCalled()
+    expect(notifyPriceDrops).not.toHaveBeenCalled()
+  })
+
+  it('keeps the old search when a re-seed fails to fetch', async () => {
+    vi.mocked(fetchAllListings).mockRejectedValueOnce(new Error('timeout'))
+
+    await expect(
+      runPipeline('reseed', { ...DEFAULT_FILTERS, priceTo: 150000 })
+    ).rejects.toThrow('timeout')
+    expect(await getFilterSettings()).toEqual(DEFAULT_FILTERS)
+    expect(Array.from((await getListingLifecycles()).keys())).toEqual([
+      first.key,
+    ])
+  })
+})
@@ -0,0 +1,429 @@
+import type {
+  FilterSettings,
+  Listing,
+  ListingLifecycle,
+  PipelineLease,
+  PollResult,
+  PollRunKind,
+  PriceChange,
+  PropertyDetails,
+  SourceResult,
+} from './types'
+import type { LifecycleUpdate } from './lifecycle'
+import type { PollRunSummary } from './poll-log'
+import type { PriceUpdate } from './prices'
+import type { FingerprintUpdate } from './fingerprint'
+import { fetchAllListings, listingKey } from './sources'
+import { toProperties } from './sources/ehousing'
+import { enrichProperties } from './enrichment'
+import {
+  getListingLifecycles,
+  saveListingLifecycles,
+  getListingPrices,
+  saveListingPrices,
+  getListingFingerprints,
+  saveListingFingerprints,
+  setCachedListings,
+  setLastPollTimestamp,
+  getFilterSettings,
+} from './redis'
+import { notifyNewListings, notifyPriceDrops, recordRelistings } from './push'
+import { recordSchemaDrift } from './drift'
+import { CircuitOpenError } from './http'
+import {
+  markAnnounced,
+  markRelistings,
+  markUnannounced,
+  reseedLifecycles,
+  unannouncedKeys,
+  updateLifecycles,
+} from './lifecycle'
+import { detectPriceChanges, isPriceDrop } from './prices'
+import { recordListingHistory } from './history'
+import { recordArchive } from './archive'
+import { recordMarketStats } from './stats'
+import { meetsDealThreshold, rateDeals } from './deal'
+import { matchFingerprints, relistingPriceChange } from './fingerprint'
+import { countPages, recordPollRun } from './poll-log'
+import { assessScrape, checkHealth } from './health'
+import { acquireLease, assertLease, releaseLease } from './lock'
+
+/**
+ * The poll pipeline shared by the scheduled poll, manual refresh and the
+ * settings re-seed: fetch every source, diff against what we know, update
+ * lifecycles, decide what to announce and write the cache back.
+ *
+ * - `notify` (scheduled poll) pushes new listings and price drops,
+ *   including listings a refresh spotted since the last poll.
+ * - `record` (manual refresh) updates state but leaves new listings
+ *   unannounced for the next poll, so nobody misses their push.
+ * - `reseed` (filters changed) saves the new filters and restarts tracking
+ *   from the current results without announcing anything.
+ *
+ * Runs hold the pipeline lease throughout, so they never interleave.
+ */
+export type PipelineMode = 'notify' | 'record' | 'reseed'
+
+const RUN_KINDS: Record<PipelineMode, PollRunKind> = {
+  notify: 'poll',
+  record: 'refresh',
+  reseed: 'reseed',
+}
+
+// New properties whose detail pages are scraped before notifying
+const MAX_ENRICHED_PER_POLL = 5
+// Time for scraping them, on top of the crawl's own budget
+const ENRICHMENT_BUDGET_MS = 15000
+
+export type PipelineRun = {
+  result: PollResult
+  listings: Listing[]
+  // Lifecycle records written this run
+  lifecycles: ListingLifecycle[]
+}
+
+/**
+ * Thrown when a scrape looks broken; nothing was written.
+ */
+export class BadScrapeError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly results: SourceResult[],
+    readonly totalListings: number
+  ) {
+    super(`Ignored a broken scrape: ${reason}`)
+    this.name = 'BadScrapeError'
+  }
+}
+
+type StageResult = PipelineRun & { summary: PollRunSummary }
+
+/**
+ * Runs the pipeline in the given mode and logs the run. Throws
+ * `PipelineBusyError` without running if another run holds the lease.
+ * Other errors are logged as failed runs and rethrown for the route to
+ * turn into a response.
+ */
+export const runPipeline = async (
+  mode: PipelineMode,
+  filters?: FilterSettings
+): Promise<PipelineRun> => {
+  const startedAt = new Date()
+  const kind = RUN_KINDS[mode]
+  const lease = await acquireLease(kind, startedAt)
+
+  try {
+    const { summary, ...run } = await runStages(mode, lease, filters)
+    await recordPollRun(kind, startedAt, summary)
+    if (mode === 'notify') await checkHealth()
+    return run
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    const badScrape = error instanceof BadScrapeError ? error : null
+    await recordPollRun(kind, startedAt, {
+      success: false,
+      degraded: error instanceof CircuitOpenError,
+      pageCount: badScrape ? countPages(badScrape.results) : 0,
+      totalListings: badScrape?.totalListings ?? 0,
+      error: message,
+    })
+    if (mode === 'notify') await checkHealth(badScrape?.reason ?? null)
+    throw error
+  } finally {
+    await releaseLease(lease)
+  }
+}
+
+const runStages = async (
+  mode: PipelineMode,
+  lease: PipelineLease,
+  filters?: FilterSettings
+): Promise<StageResult> => {
+  const tag = `[${RUN_KINDS[mode]}]`
+  const timestamp = lease.startedAt
+
+  // 1. Fetch current listings from every enabled source
+  console.log(`${tag} Starting at ${timestamp} (lease ${lease.token})`)
+  const { listings, results, failedSources, degraded } =
+    await fetchAllListings(filters)
+  for (const result of results) {
+    console.log(
+      `${tag} ${result.source}: fetched ${result.listings.length} listings across ${result.pageCount} page(s) (total: ${result.total ?? 'unknown'})`
+    )
+  }
+
+  // Record validation failures and alert if a source's format drifted
+  if (mode === 'notify') await recordSchemaDrift(results, timestamp)
+
+  // 2. A scrape that is obviously broken (the page structure vanished, or
+  // everything disappeared at once) would delist every known listing, so
+  // it's dropped before touching any state. After a filter change an
+  // empty result can be genuine.
+  const existing = await getListingLifecycles()
+  console.log(`${tag} Tracked listings in Redis: ${existing.size}`)
+  const activeListings =
+    mode === 'reseed'
+      ? 0
+      : Array.from(existing.values()).filter((record) => !record.delistedAt)
+          .length
+  const badScrape = assessScrape(results, listings, activeListings)
+  if (badScrape) {
+    console.warn(`${tag} Ignoring bad scrape: ${badScrape}`)
+    throw new BadScrapeError(badScrape, results, listings.length)
+  }
+
+  // 3. Apply this run's results to the lifecycle records. Listings from
+  // sources that failed this round aren't counted as missed.
+  const seenKeys = listings.map((l) => l.key)
+  const lifecycle =
+    mode === 'reseed'
+      ? reseedLifecycles(existing, seenKeys, timestamp)
+      : updateLifecycles(existing, seenKeys, timestamp, failedSources)
+  // Only announce once there's earlier data to compare with
+  const isFirstRun = existing.size === 0
+  if (isFirstRun && mode !== 'reseed') {
+    console.log(`${tag} First run - seeding lifecycles without notifications`)
+  }
+
+  const summary: PollRunSummary = {
+    degraded,
+    pageCount: countPages(results),
+    totalListings: listings.length,
+  }
+  const result: PollResult = {
+    success: true,
+    timestamp,
+    totalListings: listings.length,
+    newListings: 0,
+    newProperties: [],
+    delistedListings: lifecycle.delisted.length,
+    priceChanges: 0,
+    degraded,
+  }
+
+  // A run that outlived its lease must not write anything
+  await assertLease(lease)
+
+  let announcement: Announcement | null = null
+  if (mode === 'notify') {
+    announcement = await planAnnouncement(
+      listings,
+      existing,
+      lifecycle,
+      timestamp,
+      isFirstRun
+    )
+    result.newListings = announcement.newListings.length
+    result.newProperties = announcement.newListings
+    result.priceChanges = announcement.priceChanges
+    Object.assign(summary, {
+      newListings: announcement.newListings.length,
+      removedListings: lifecycle.delisted.length,
+      changedListings: announcement.priceChanges,
+    })
+  } else if (mode === 'record') {
+    // The next poll decides whether these are fresh, relisted or duplicates
+    if (!isFirstRun) {
+      lifecycle.records = markUnannounced(lifecycle.records, lifecycle.appeared)
+    }
+    Object.assign(summary, {
+      newListings: lifecycle.appeared.length,
+      removedListings: lifecycle.delisted.length,
+    })
+  } else {
+    Object.assign(summary, { removedListings: lifecycle.expiredKeys.length })
+  }
+
+  // 4. Write the current state back
+  await assertLease(lease)
+  // A re-seed's filters are only saved along with the lifecycles they
+  // produced, so a failed fetch leaves the old search fully in place
+  await saveListingLifecycles(
+    lifecycle.records,
+    lifecycle.expiredKeys,
+    mode === 'reseed' ? filters : undefined
+  )
+  if (announcement) {
+    await saveListingPrices(announcement.prices, lifecycle.expiredKeys)
+    await saveListingFingerprints(
+      announcement.fingerprints.records,
+      announcement.fingerprints.expired
+    )
+  }
+  if (mode === 'reseed') {
+    await saveListingPrices(new Map(), lifecycle.expiredKeys)
+  } else {
+    await recordListingHistory(listings, lifecycle.delisted, timestamp)
+  }
+  await setCachedListings(toProperties(listings))
+  await setLastPollTimestamp(timestamp)
+  // Listings dropped by a re-seed left the search, not e-housing
+  const dropped = mode === 'reseed' ? lifecycle.expiredKeys : []
+  const droppedRecords = dropped.flatMap((key) => existing.get(key) ?? [])
+  await recordArchive(
+    listings,
+    lifecycle.delisted,
+    dropped,
+    [...lifecycle.records, ...droppedRecords],
+    timestamp
+  )
+  // A partial cross-section would skew the day's market statistics, and a
+  // re-seed dates every listing new to the search as first seen today
+  if (!degraded && mode !== 'reseed') {
+    await recordMarketStats(listings, lifecycle.records, timestamp)
+  }
+
+  // 5. Push last, once everything it announces is saved as announced. A
+  // run that lost its lease by now leaves the pushing to the next one.
+  if (announcement) {
+    await assertLease(lease)
+    Object.assign(summary, {
+      notificationsSent: await sendAnnouncement(announcement),
+    })
+  }
+
+  console.log(`${tag} Completed successfully${degraded ? ' (degraded)' : ''}`)
+  return { result, listings, lifecycles: lifecycle.records, summary }
+}
+
+type Announcement = {
+  newListings: Listing[]
+  // New listings that meet the deal threshold, with their scraped details
+  worthPushing: Listing[]
+  detailsByKey: Map<string, PropertyDetails>
+  priceDrops: PriceChange[]
+  // Relistings that didn't get cheaper only go in the notification history
+  relistings: PriceChange[]
+  priceChanges: number
+  prices: PriceUpdate['prices']
+  fingerprints: FingerprintUpdate
+}
+
+/**
+ * Decides which listings and price drops to push, and works out the price
+ * and fingerprint records to save. Clears the unannounced flag on the
+ * lifecycle records it decided about. Nothing is pushed or saved yet.
+ */
+const planAnnouncement = async (
+  listings: Listing[],
+  existing: Map<string, ListingLifecycle>,
+  lifecycle: LifecycleUpdate,
+  timestamp: string,
+  isFirstRun: boolean
+): Promise<Announcement> => {
+  // Listings a manual refresh spotted since the last poll are as new as
+  // the ones appearing now
+  const appeared = new Set([...lifecycle.appeared, ...unannouncedKeys(existing)])
+
+  // Units we've seen before (under this or another ID) are relistings, and
+  // extra copies of current ones are duplicates; neither is announced as new
+  const fingerprints = matchFingerprints(
+    await getListingFingerprints(),
+    listings,
+    appeared,
+    timestamp
+  )
+  const newListings = fingerprints.fresh
+  lifecycle.records = markAnnounced(
+    markRelistings(lifecycle.records, fingerprints.relisted)
+  )
+  for (const { listing, previous } of fingerprints.duplicates) {
+    console.log(`[poll] ${listing.key} duplicates ${previous.key} - skipped`)
+  }
+  console.log(
+    `[poll] New listings found: ${newListings.length}, relisted: ${fingerprints.relisted.length}, duplicates: ${fingerprints.duplicates.length}, delisted: ${lifecycle.delisted.length}`
+  )
+
+  let worthPushing: Listing[] = []
+  let detailsByKey = new Map<string, PropertyDetails>()
+  if (newListings.length > 0 && !isFirstRun) {
+    // Listings rated below the deal threshold are tracked but not pushed
+    const { minDealScore } = await getFilterSettings()
+    const deals = rateDeals(listings)
+    worthPushing = newListings.filter((listing) =>
+      meetsDealThreshold(deals.get(listing.key), minDealScore)
+    )
+    if (worthPushing.length < newListings.length) {
+      console.log(
+        `[poll] ${newListings.length - worthPushing.length} new listing(s) below deal score ${minDealScore} - not pushed`
+      )
+    }
+
+    // Scrape each new property's own page first so the push can include
+    // availability and fees
+    const details = await enrichProperties(
+      toProperties(worthPushing),
+      MAX_ENRICHED_PER_POLL,
+      Date.now() + ENRICHMENT_BUDGET_MS
+    )
+    detailsByKey = new Map(
+      Array.from(details.values()).map((d) => [
+        listingKey('ehousing', d.propertyId),
+        d,
+      ])
+    )
+  }
+
+  // Compare prices with the last observed ones and alert on rent drops.
+  // Listings just announced as new already show their price.
+  const priceUpdate = detectPriceChanges(
+    await getListingPrices(),
+    listings,
+    timestamp
+  )
+  for (const change of priceUpdate.changes) {
+    console.log(
+      `[poll] Price change for ${change.listing.key}: ¥${change.previous.rentAmount} -> ¥${change.current.rentAmount} (key money ${change.previous.keyMoney} -> ${change.current.keyMoney}, deposit ${change.previous.securityDeposit} -> ${change.current.securityDeposit})`
+    )
+  }
+  const priceDrops = priceUpdate.changes.filter(
+    (change) => isPriceDrop(change) && !appeared.has(change.listing.key)
+  )
+
+  // A relisting that came back cheaper is alerted as a price drop; the
+  // rest only show up in the notification history
+  const relistings = isFirstRun
+    ? []
+    : fingerprints.relisted.map((match) =>
+        relistingPriceChange(match, timestamp)
+      )
+  priceDrops.push(...relistings.filter(isPriceDrop))
+
+  return {
+    newListings,
+    worthPushing,
+    detailsByKey,
+    priceDrops,
+    relistings: relistings.filter((change) => !isPriceDrop(change)),
+    priceChanges: priceUpdate.changes.length,
+    prices: priceUpdate.prices,
+    fingerprints,
+  }
+}
+
+/**
+ * Sends a planned announcement's pushes and returns how many went out.
+ */
+const sendAnnouncement = async (
+  announcement: Announcement
+): Promise<number> => {
+  let notificationsSent = 0
+  if (announcement.worthPushing.length > 0) {
+    const notifications = await notifyNewListings(
+      announcement.worthPushing,
+      announcement.detailsByKey
+    )
+    notificationsSent += notifications.length
+    console.log(`[poll] Sent ${notifications.length} notifications`)
+  }
+
+  await recordRelistings(announcement.relistings)
+
+  if (announcement.priceDrops.length > 0) {
+    const notifications = await notifyPriceDrops(announcement.priceDrops)
+    notificationsSent += notifications.length
+    console.log(`[poll] Sent ${notifications.length} price drop notifications`)
+  }
+
+  return notificationsSent
+}
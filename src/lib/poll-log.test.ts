@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { recordPollRun } from './poll-log'
+import { addPollRun } from './redis'
+
+vi.mock('./redis', () => ({
+  addPollRun: vi.fn(),
+}))
+
+describe('recordPollRun', () => {
+  beforeEach(() => {
+    vi.mocked(addPollRun).mockReset()
+  })
+
+  it('fills in defaults and the run duration', async () => {
+    const startedAt = new Date(Date.now() - 1500)
+    await recordPollRun('poll', startedAt, { totalListings: 12 })
+
+    const run = vi.mocked(addPollRun).mock.calls[0][0]
+    expect(run).toMatchObject({
+      kind: 'poll',
+      startedAt: startedAt.toISOString(),
+      success: true,
+      totalListings: 12,
+      newListings: 0,
+      error: null,
+    })
+    expect(run.durationMs).toBeGreaterThanOrEqual(1500)
+  })
+
+  it('never fails the run when logging fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(addPollRun).mockRejectedValue(new Error('Redis down'))
+
+    await expect(
+      recordPollRun('refresh', new Date(), { success: false })
+    ).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,51 @@
+import type { PollRun, PollRunKind, SourceResult } from './types'
+import { addPollRun } from './redis'
+
+export type PollRunSummary = Partial<
+  Omit<PollRun, 'id' | 'kind' | 'startedAt' | 'durationMs'>
+>
+
+/**
+ * Total result pages crawled across sources.
+ */
+export const countPages = (results: SourceResult[]): number =>
+  results.reduce((sum, result) => sum + result.pageCount, 0)
+
+/**
+ * The poll log ID of a run, known as soon as the run starts.
+ */
+export const pollRunId = (kind: PollRunKind, startedAt: Date): string =>
+  `${kind}-${startedAt.getTime()}`
+
+/**
+ * Appends a run to the poll log. A failure to log is reported but never
+ * fails the run itself.
+ */
+export const recordPollRun = async (
+  kind: PollRunKind,
+  startedAt: Date,
+  summary: PollRunSummary
+): Promise<void> => {
+  const run: PollRun = {
+    id: pollRunId(kind, startedAt),
+    kind,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    success: true,
+    degraded: false,
+    pageCount: 0,
+    totalListings: 0,
+    newListings: 0,
+    removedListings: 0,
+    changedListings: 0,
+    notificationsSent: 0,
+    error: null,
+    ...summary,
+  }
+
+  try {
+    await addPollRun(run)
+  } catch (error) {
+    console.error(`[poll-log] Failed to record ${kind} run:`, error)
+  }
+}
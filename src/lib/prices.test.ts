@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { detectPriceChanges, isPriceDrop } from './prices'
+import type { Listing, ListingPrice } from './types'
+
+const EARLIER = '2026-03-01T00:00:00.000Z'
+const NOW = '2026-03-02T00:00:00.000Z'
+
+const listing = (overrides: Partial<Listing> = {}): Listing =>
+  ({
+    source: 'ehousing',
+    id: '1',
+    key: 'ehousing:1',
+    rentAmount: 255000,
+    keyMoney: 0,
+    securityDeposit: 255000,
+    ...overrides,
+  }) as Listing
+
+const price = (overrides: Partial<ListingPrice> = {}): ListingPrice => ({
+  rentAmount: 280000,
+  keyMoney: 0,
+  securityDeposit: 255000,
+  observedAt: EARLIER,
+  ...overrides,
+})
+
+describe('detectPriceChanges', () => {
+  it('stores the first observed price without reporting a change', () => {
+    const update = detectPriceChanges(new Map(), [listing()], NOW)
+    expect(update.changes).toEqual([])
+    expect(update.prices.get('ehousing:1')).toEqual(
+      price({ rentAmount: 255000, observedAt: NOW })
+    )
+  })
+
+  it('reports a rent drop with the old and new price', () => {
+    const existing = new Map([['ehousing:1', price()]])
+    const update = detectPriceChanges(existing, [listing()], NOW)
+    expect(update.changes).toHaveLength(1)
+    expect(update.changes[0].previous.rentAmount).toBe(280000)
+    expect(update.changes[0].current.rentAmount).toBe(255000)
+    expect(isPriceDrop(update.changes[0])).toBe(true)
+  })
+
+  it('reports key money and deposit moves that are not rent drops', () => {
+    const existing = new Map([
+      ['ehousing:1', price({ rentAmount: 255000, keyMoney: 255000 })],
+    ])
+    const update = detectPriceChanges(existing, [listing()], NOW)
+    expect(update.changes).toHaveLength(1)
+    expect(isPriceDrop(update.changes[0])).toBe(false)
+  })
+
+  it('leaves unchanged prices alone', () => {
+    const existing = new Map([['ehousing:1', price({ rentAmount: 255000 })]])
+    const update = detectPriceChanges(existing, [listing()], NOW)
+    expect(update.changes).toEqual([])
+    expect(update.prices.size).toBe(0)
+  })
+})
@@ -0,0 +1,51 @@
+import type { Listing, ListingPrice, PriceChange } from './types'
+
+/**
+ * Compares each listing's move-in costs with the last observed ones.
+ * Pure; callers load the stored prices and write back `prices`.
+ */
+
+export type PriceUpdate = {
+  // Prices to store: listings seen for the first time or whose price moved
+  prices: Map<string, ListingPrice>
+  changes: PriceChange[]
+}
+
+const toPrice = (listing: Listing, observedAt: string): ListingPrice => ({
+  rentAmount: listing.rentAmount,
+  keyMoney: listing.keyMoney,
+  securityDeposit: listing.securityDeposit,
+  observedAt,
+})
+
+export const detectPriceChanges = (
+  existing: Map<string, ListingPrice>,
+  listings: Listing[],
+  timestamp: string
+): PriceUpdate => {
+  const update: PriceUpdate = { prices: new Map(), changes: [] }
+
+  for (const listing of listings) {
+    const previous = existing.get(listing.key)
+    const current = toPrice(listing, timestamp)
+
+    if (!previous) {
+      update.prices.set(listing.key, current)
+    } else if (
+      previous.rentAmount !== current.rentAmount ||
+      previous.keyMoney !== current.keyMoney ||
+      previous.securityDeposit !== current.securityDeposit
+    ) {
+      update.prices.set(listing.key, current)
+      update.changes.push({ listing, previous, current })
+    }
+  }
+
+  return update
+}
+
+/**
+ * Whether the rent went down - what a price-drop alert is about.
+ */
+export const isPriceDrop = (change: PriceChange): boolean =>
+  change.current.rentAmount < change.previous.rentAmount
@@ -0,0 +1,78 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import webpush from 'web-push'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Property, PushSubscriptionRecord } from './types'
+import { toListing } from './sources/ehousing'
+import { notifyNewListings } from './push'
+import { addNotifications, getAllSubscriptions } from './redis'
+
+vi.mock('./redis', () => ({
+  getAllSubscriptions: vi.fn(async () => []),
+  addNotifications: vi.fn(),
+  removeSubscription: vi.fn(),
+}))
+
+vi.mock('web-push', () => ({
+  default: {
+    setVapidDetails: vi.fn(),
+    sendNotification: vi.fn(),
+  },
+}))
+
+const [property]: Property[] = JSON.parse(
+  readFileSync(
+    join(__dirname, '__fixtures__', 'ehousing', 'single-page.expected.json'),
+    'utf8'
+  )
+).properties
+const listing = toListing(property)
+
+const SUBSCRIPTION: PushSubscriptionRecord = {
+  endpoint: 'https://push.example.com/device',
+  keys: { p256dh: 'p256dh', auth: 'auth' },
+  createdAt: '2026-01-01T00:00:00.000Z',
+}
+
+const recordedKeys = () =>
+  vi
+    .mocked(addNotifications)
+    .mock.calls.flatMap(([notifications]) =>
+      notifications.map((notification) => notification.listingKey)
+    )
+
+describe('notifyNewListings', () => {
+  beforeEach(() => {
+    vi.stubEnv('VAPID_PUBLIC_KEY', 'public')
+    vi.stubEnv('VAPID_PRIVATE_KEY', 'private')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.clearAllMocks()
+  })
+
+  it('pushes new listings and records them', async () => {
+    vi.mocked(getAllSubscriptions).mockResolvedValueOnce([SUBSCRIPTION])
+
+    const sent = await notifyNewListings([listing])
+    expect(sent).toHaveLength(1)
+    expect(webpush.sendNotification).toHaveBeenCalledOnce()
+    expect(recordedKeys()).toEqual([listing.key])
+  })
+
+  it('records new listings when no device is subscribed', async () => {
+    expect(await notifyNewListings([listing])).toEqual([])
+    expect(webpush.sendNotification).not.toHaveBeenCalled()
+    expect(recordedKeys()).toEqual([listing.key])
+  })
+
+  it('records new listings when push is not configured', async () => {
+    vi.stubEnv('VAPID_PUBLIC_KEY', '')
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(await notifyNewListings([listing])).toEqual([])
+    expect(getAllSubscriptions).not.toHaveBeenCalled()
+    expect(recordedKeys()).toEqual([listing.key])
+  })
+})
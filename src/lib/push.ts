@@ -1,7 +1,22 @@
 import webpush from 'web-push'
-import type { Property, PushSubscriptionRecord, AppNotification } from './types'
+import type {
+  DriftReport,
+  HealthBreach,
+  Listing,
+  Locale,
+  Property,
+  PriceChange,
+  PropertyDetails,
+  PushSubscriptionRecord,
+  AppNotification,
+} from './types'
 import { getAllSubscriptions, addNotifications } from './redis'
-import { buildPropertyUrl } from './ehousing'
+import {
+  DEFAULT_LOCALE,
+  describeHealthBreach,
+  localizeName,
+  translate,
+} from './i18n'
 
 // Configure VAPID keys
 const setupVapid = () => {
@@ -19,13 +34,21 @@ const setupVapid = () => {
 }
 
 /**
- * Sends push notifications for new properties to all subscribed devices.
- * Returns the list of notification records that were sent.
+ * Records new listings in the notification history and pushes them to
+ * all subscribed devices. Scraped property details, keyed by listing key,
+ * are folded in when available. The history is kept even when nothing
+ * can be pushed. Returns the notification records that were sent.
  */
-export const notifyNewProperties = async (
-  properties: Property[]
+export const notifyNewListings = async (
+  listings: Listing[],
+  details: Map<string, PropertyDetails> = new Map()
 ): Promise<AppNotification[]> => {
-  if (properties.length === 0) return []
+  if (listings.length === 0) return []
+
+  const notifications = listings.map((listing) =>
+    toNotification(listing, 'new-listing', details.get(listing.key))
+  )
+  await addNotifications(notifications)
 
   const vapidReady = setupVapid()
   if (!vapidReady) return []
@@ -36,83 +59,191 @@ export const notifyNewProperties = async (
     return []
   }
 
-  const notifications: AppNotification[] = properties.map((prop) => {
-    const nearestStation = prop.trainStations.reduce(
-      (nearest, station) => {
-        if (
-          !nearest ||
-          station.meta_data.pivot_walking_distance_minutes <
-            nearest.meta_data.pivot_walking_distance_minutes
-        ) {
-          return station
-        }
-        return nearest
-      },
-      null as typeof prop.trainStations[0] | null
-    )
+  await broadcastLocalized(subscriptions, (locale) => {
+    const nameOf = (listing: Listing) =>
+      localizeName(listing.name, listing.nameLangs, locale)
+
+    const title =
+      listings.length === 1
+        ? translate(locale, 'pushNewListing', { name: nameOf(listings[0]) })
+        : translate(locale, 'pushNewListings', { count: listings.length })
+
+    const body =
+      listings.length === 1
+        ? formatListingSummary(
+            listings[0],
+            locale,
+            details.get(listings[0].key)
+          )
+        : listings
+            .slice(0, 3)
+            .map((l) => `${nameOf(l)} - ¥${l.rentAmount.toLocaleString()}`)
+            .join('\n')
 
     return {
-      id: `${prop.id}-${Date.now()}`,
-      propertyId: prop.id,
-      propertyName: prop.name,
-      rentAmount: prop.rent_amount,
-      sizeSqm: prop.size_sqm,
-      bedRooms: prop.bed_rooms,
-      layout: prop.layout,
-      nearestStation: nearestStation?.name ?? 'Unknown',
-      walkingMinutes:
-        nearestStation?.meta_data.pivot_walking_distance_minutes ?? 0,
-      slug: prop.slug,
-      roomNumber: prop.room_number,
-      prefectureSlug: prop.prefecture.slug,
-      wardSlug: prop.ward.slug,
-      timestamp: new Date().toISOString(),
+      title,
+      body,
+      url: listings.length === 1 ? listings[0].url : '/',
+      propertyCount: listings.length,
     }
   })
 
-  // Build notification payload
-  const title =
-    properties.length === 1
-      ? `New listing: ${properties[0].name}`
-      : `${properties.length} new listings found`
-
-  const body =
-    properties.length === 1
-      ? formatPropertySummary(properties[0])
-      : properties
-          .slice(0, 3)
-          .map((p) => `${p.name} - ¥${p.rent_amount.toLocaleString()}`)
-          .join('\n')
-
-  const propertyUrl =
-    properties.length === 1
-      ? buildPropertyUrl(
-          properties[0].prefecture.slug,
-          properties[0].ward.slug,
-          properties[0].slug,
-          properties[0].room_number
-        )
-      : '/'
-
-  const payload = JSON.stringify({
-    title,
-    body,
-    url: propertyUrl,
-    propertyCount: properties.length,
+  return notifications
+}
+
+/**
+ * Records listings whose rent went down in the notification history and
+ * pushes them with the old and new price. The history is kept even when
+ * nothing can be pushed. Returns the notification records that were sent.
+ */
+export const notifyPriceDrops = async (
+  changes: PriceChange[]
+): Promise<AppNotification[]> => {
+  if (changes.length === 0) return []
+
+  const notifications = changes.map((change) => ({
+    ...toNotification(change.listing, 'price-drop'),
+    previousRentAmount: change.previous.rentAmount,
+  }))
+  await addNotifications(notifications)
+
+  const vapidReady = setupVapid()
+  if (!vapidReady) return []
+
+  const subscriptions = await getAllSubscriptions()
+  if (subscriptions.length === 0) return []
+
+  await broadcastLocalized(subscriptions, (locale) => {
+    const nameOf = (change: PriceChange) =>
+      localizeName(change.listing.name, change.listing.nameLangs, locale)
+
+    const title =
+      changes.length === 1
+        ? translate(locale, 'pushPriceDrop', { name: nameOf(changes[0]) })
+        : translate(locale, 'pushPriceDrops', { count: changes.length })
+
+    const body =
+      changes.length === 1
+        ? formatPriceDrop(changes[0], locale)
+        : changes
+            .slice(0, 3)
+            .map((c) => `${nameOf(c)} - ${formatPriceDrop(c, locale)}`)
+            .join('\n')
+
+    return {
+      title,
+      body,
+      url: changes.length === 1 ? changes[0].listing.url : '/',
+      propertyCount: changes.length,
+      tag: 'aparto-price-drop',
+    }
   })
 
-  // Send to all subscriptions
-  const sendPromises = subscriptions.map((sub) =>
-    sendPushNotification(sub, payload)
-  )
-  await Promise.allSettled(sendPromises)
+  return notifications
+}
+
+/**
+ * Adds relisted units to the notification history, flagged with their
+ * previous rent, without pushing them - they aren't new to us.
+ */
+export const recordRelistings = async (
+  changes: PriceChange[]
+): Promise<AppNotification[]> => {
+  if (changes.length === 0) return []
+
+  const notifications = changes.map((change) => ({
+    ...toNotification(change.listing, 'relisted'),
+    previousRentAmount: change.previous.rentAmount,
+  }))
 
-  // Store notification history
   await addNotifications(notifications)
 
   return notifications
 }
 
+/**
+ * Alerts subscribers that a large share of scraped records no longer match
+ * the expected schema - usually a sign the site changed its data format.
+ */
+export const notifySchemaDrift = async (report: DriftReport): Promise<void> => {
+  const vapidReady = setupVapid()
+  if (!vapidReady) return
+
+  const subscriptions = await getAllSubscriptions()
+  if (subscriptions.length === 0) return
+
+  const topReasons = Object.entries(report.reasons)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([field, count]) => `${field} (${count})`)
+    .join(', ')
+
+  await broadcastLocalized(subscriptions, (locale) => ({
+    title: translate(locale, 'pushDriftTitle', { source: report.source }),
+    body: translate(locale, 'pushDriftBody', {
+      invalid: report.invalid,
+      total: report.total,
+      percent: Math.round(report.invalidRatio * 100),
+      reasons: topReasons,
+    }),
+    url: '/',
+    tag: 'aparto-drift',
+  }))
+}
+
+/**
+ * Alerts subscribers that monitoring itself is broken, so a quiet phone
+ * isn't mistaken for a quiet market.
+ */
+export const notifyMonitoringBroken = async (
+  breaches: HealthBreach[]
+): Promise<void> => {
+  const vapidReady = setupVapid()
+  if (!vapidReady) return
+
+  const subscriptions = await getAllSubscriptions()
+  if (subscriptions.length === 0) return
+
+  await broadcastLocalized(subscriptions, (locale) => ({
+    title: translate(locale, 'pushHealthTitle'),
+    body: breaches
+      .map((breach) => describeHealthBreach(locale, breach))
+      .join('\n'),
+    url: '/status',
+    tag: 'aparto-health',
+  }))
+}
+
+/**
+ * Sends each subscriber the payload built for their chosen language.
+ */
+const broadcastLocalized = async (
+  subscriptions: PushSubscriptionRecord[],
+  buildPayload: (locale: Locale) => Record<string, unknown>
+): Promise<void> => {
+  const byLocale = new Map<Locale, PushSubscriptionRecord[]>()
+  for (const sub of subscriptions) {
+    const locale = sub.locale ?? DEFAULT_LOCALE
+    byLocale.set(locale, [...(byLocale.get(locale) ?? []), sub])
+  }
+
+  await Promise.all(
+    Array.from(byLocale, ([locale, group]) =>
+      broadcast(group, JSON.stringify(buildPayload(locale)))
+    )
+  )
+}
+
+const broadcast = async (
+  subscriptions: PushSubscriptionRecord[],
+  payload: string
+): Promise<void> => {
+  const sendPromises = subscriptions.map((sub) =>
+    sendPushNotification(sub, payload)
+  )
+  await Promise.allSettled(sendPromises)
+}
+
 const sendPushNotification = async (
   sub: PushSubscriptionRecord,
   payload: string
@@ -138,36 +269,92 @@ const sendPushNotification = async (
   }
 }
 
-const formatPropertySummary = (prop: Property): string => {
-  const nearestStation = prop.trainStations.reduce(
-    (nearest, station) => {
-      if (
-        !nearest ||
-        station.meta_data.pivot_walking_distance_minutes <
-          nearest.meta_data.pivot_walking_distance_minutes
-      ) {
-        return station
-      }
-      return nearest
-    },
-    null as typeof prop.trainStations[0] | null
-  )
+/**
+ * Builds the history record for a listing alert.
+ */
+const toNotification = (
+  listing: Listing,
+  type: AppNotification['type'],
+  details?: PropertyDetails
+): AppNotification => {
+  const property =
+    listing.source === 'ehousing' ? (listing.raw as Property) : null
 
+  return {
+    id: `${listing.key}-${Date.now()}`,
+    type,
+    source: listing.source,
+    listingKey: listing.key,
+    url: listing.url,
+    propertyId: property?.id ?? listing.id,
+    propertyName: listing.name,
+    propertyNameLangs: listing.nameLangs,
+    rentAmount: listing.rentAmount,
+    sizeSqm: listing.sizeSqm,
+    bedRooms: listing.bedRooms,
+    layout: listing.layout,
+    nearestStation: listing.nearestStation?.name ?? 'Unknown',
+    nearestStationLangs: listing.nearestStation?.nameLangs,
+    walkingMinutes: listing.nearestStation?.walkingMinutes ?? 0,
+    availableFrom: details?.availableFrom ?? null,
+    maintenanceFee: details?.maintenanceFee ?? null,
+    slug: property?.slug,
+    roomNumber: property?.room_number,
+    prefectureSlug: property?.prefecture.slug,
+    wardSlug: property?.ward.slug,
+    timestamp: new Date().toISOString(),
+  }
+}
+
+const formatPriceDrop = (change: PriceChange, locale: Locale): string =>
+  translate(locale, 'pushPriceDropBody', {
+    from: change.previous.rentAmount.toLocaleString(),
+    to: change.current.rentAmount.toLocaleString(),
+    saving: (
+      change.previous.rentAmount - change.current.rentAmount
+    ).toLocaleString(),
+  })
+
+const formatListingSummary = (
+  listing: Listing,
+  locale: Locale,
+  details?: PropertyDetails
+): string => {
   const parts = [
-    `¥${prop.rent_amount.toLocaleString()}/mo`,
-    `${prop.bed_rooms} bed`,
-    `${prop.size_sqm}m²`,
-    prop.layout,
+    `¥${listing.rentAmount.toLocaleString()}${translate(locale, 'perMonth')}`,
+    translate(locale, 'bedrooms', { count: listing.bedRooms }),
+    `${listing.sizeSqm}m²`,
+    listing.layout,
   ]
 
-  if (nearestStation) {
+  if (listing.nearestStation) {
+    parts.push(
+      translate(locale, 'pushStationWalk', {
+        station: localizeName(
+          listing.nearestStation.name,
+          listing.nearestStation.nameLangs,
+          locale
+        ),
+        count: listing.nearestStation.walkingMinutes,
+      })
+    )
+  }
+
+  if (details?.maintenanceFee) {
     parts.push(
-      `${nearestStation.name} ${nearestStation.meta_data.pivot_walking_distance_minutes}min`
+      translate(locale, 'pushManagementFee', {
+        amount: details.maintenanceFee.toLocaleString(),
+      })
     )
   }
+  if (details?.availableFrom) {
+    parts.push(translate(locale, 'pushAvailable', { date: details.availableFrom }))
+  }
 
-  if (prop.key_money === 0) parts.push('No key money')
-  if (prop.security_deposit === 0) parts.push('No deposit')
+  if (listing.keyMoney === 0) parts.push(translate(locale, 'pushNoKeyMoney'))
+  if (listing.securityDeposit === 0) {
+    parts.push(translate(locale, 'pushNoDeposit'))
+  }
 
   return parts.join(' · ')
 }
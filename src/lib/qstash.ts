@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { Receiver } from '@upstash/qstash'
+
+const receiver = new Receiver({
+  currentSigningKey: process.env.QSTASH_CURRENT_SIGNING_KEY || '',
+  nextSigningKey: process.env.QSTASH_NEXT_SIGNING_KEY || '',
+})
+
+/**
+ * Verifies that a scheduled request came from QStash (skipped outside
+ * production). Returns an error response to send back if verification
+ * fails, or null if the request may proceed.
+ */
+export const verifyQstashRequest = async (
+  request: Request
+): Promise<NextResponse | null> => {
+  if (process.env.NODE_ENV !== 'production') return null
+
+  try {
+    const signature = request.headers.get('upstash-signature')
+    if (!signature) {
+      return NextResponse.json({ error: 'Missing signature' }, { status: 401 })
+    }
+
+    const body = await request.text()
+    const isValid = await receiver.verify({
+      signature,
+      body,
+    })
+
+    if (!isValid) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    }
+  } catch {
+    return NextResponse.json(
+      { error: 'Signature verification failed' },
+      { status: 401 }
+    )
+  }
+
+  return null
+}
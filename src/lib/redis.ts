@@ -1,40 +1,319 @@
-import { Redis } from '@upstash/redis'
+import 'server-only'
+import { createHash } from 'node:crypto'
 import type {
   Property,
+  CachedSearchPage,
+  CatalogSnapshot,
+  CircuitState,
+  HttpValidators,
+  PropertyDetails,
+  DriftReport,
+  ListingSourceId,
+  QuarantinedRecord,
   PushSubscriptionRecord,
   AppNotification,
   FilterSettings,
   LivabilityScore,
+  ListingLifecycle,
+  ListingPrice,
+  FingerprintRecord,
+  PropertyHistoryEntry,
+  PollRun,
+  HealthState,
+  PipelineLease,
+  PollScheduleState,
+  MarketStats,
+  ArchiveEntry,
 } from './types'
 import { DEFAULT_FILTERS } from './types'
+import { store } from './store'
 
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL!,
-  token: process.env.UPSTASH_REDIS_REST_TOKEN!,
-})
+/**
+ * Every piece of app state, read and written through the configured
+ * store (see `./store`). Keys and layouts follow Redis conventions.
+ */
 
-// --- Known Property IDs ---
+// --- Listing Lifecycle ---
 
-const KNOWN_IDS_KEY = 'properties:known'
+const LIFECYCLE_KEY = 'listings:lifecycle'
 
-export const getKnownPropertyIds = async (): Promise<Set<number>> => {
-  const ids = await redis.smembers(KNOWN_IDS_KEY)
-  return new Set(ids.map(Number))
+/**
+ * Returns the lifecycle record of every tracked listing, keyed by
+ * listing key (`source:id`).
+ */
+export const getListingLifecycles = async (): Promise<
+  Map<string, ListingLifecycle>
+> => {
+  const data = await store.hgetall<ListingLifecycle>(
+    LIFECYCLE_KEY
+  )
+  return new Map(Object.entries(data))
+}
+
+export const getListingLifecycle = async (
+  key: string
+): Promise<ListingLifecycle | null> => {
+  return store.hget<ListingLifecycle>(LIFECYCLE_KEY, key)
+}
+
+/**
+ * Saves lifecycle records and drops expired ones. A re-seed passes the
+ * filters it searched with, saved in the same transaction so the filters
+ * and the records tracked under them never disagree.
+ */
+export const saveListingLifecycles = async (
+  records: ListingLifecycle[],
+  expiredKeys: string[] = [],
+  filters?: FilterSettings
+): Promise<void> => {
+  if (records.length === 0 && expiredKeys.length === 0 && !filters) return
+  const pipeline = store.transaction()
+  if (filters) pipeline.set(FILTERS_KEY, filters)
+  if (records.length > 0) {
+    pipeline.hset(
+      LIFECYCLE_KEY,
+      Object.fromEntries(records.map((record) => [record.key, record]))
+    )
+  }
+  if (expiredKeys.length > 0) {
+    pipeline.hdel(LIFECYCLE_KEY, ...expiredKeys)
+  }
+  await pipeline.exec()
+}
+
+// --- Listing Prices ---
+
+const PRICES_KEY = 'listings:prices'
+
+/**
+ * Returns the last observed price of every tracked listing, keyed by
+ * listing key.
+ */
+export const getListingPrices = async (): Promise<
+  Map<string, ListingPrice>
+> => {
+  const data = await store.hgetall<ListingPrice>(PRICES_KEY)
+  return new Map(Object.entries(data))
+}
+
+export const saveListingPrices = async (
+  prices: Map<string, ListingPrice>,
+  expiredKeys: string[] = []
+): Promise<void> => {
+  if (prices.size === 0 && expiredKeys.length === 0) return
+  const pipeline = store.pipeline()
+  if (prices.size > 0) {
+    pipeline.hset(PRICES_KEY, Object.fromEntries(prices))
+  }
+  if (expiredKeys.length > 0) {
+    pipeline.hdel(PRICES_KEY, ...expiredKeys)
+  }
+  await pipeline.exec()
+}
+
+// --- Listing Fingerprints ---
+
+const FINGERPRINTS_KEY = 'listings:fingerprints'
+
+export const getListingFingerprints = async (): Promise<
+  Map<string, FingerprintRecord>
+> => {
+  const data = await store.hgetall<FingerprintRecord>(
+    FINGERPRINTS_KEY
+  )
+  return new Map(Object.entries(data))
+}
+
+export const saveListingFingerprints = async (
+  records: Map<string, FingerprintRecord>,
+  expired: string[] = []
+): Promise<void> => {
+  if (records.size === 0 && expired.length === 0) return
+  const pipeline = store.pipeline()
+  if (records.size > 0) {
+    pipeline.hset(FINGERPRINTS_KEY, Object.fromEntries(records))
+  }
+  if (expired.length > 0) {
+    pipeline.hdel(FINGERPRINTS_KEY, ...expired)
+  }
+  await pipeline.exec()
+}
+
+// --- Property History ---
+
+const HISTORY_KEY_PREFIX = 'history:'
+const MAX_HISTORY_ENTRIES = 200
+// Kept well past delisting so relisted properties still show their past
+const HISTORY_TTL_SECONDS = 365 * 24 * 60 * 60 // 1 year
+
+export const getPropertyHistory = async (
+  key: string
+): Promise<PropertyHistoryEntry[]> => {
+  return store.lrange<PropertyHistoryEntry>(
+    `${HISTORY_KEY_PREFIX}${key}`,
+    0,
+    -1
+  )
+}
+
+/**
+ * Returns the most recent history entry of each listing, or null for
+ * listings without history.
+ */
+export const getLatestHistoryEntries = async (
+  keys: string[]
+): Promise<Map<string, PropertyHistoryEntry | null>> => {
+  if (keys.length === 0) return new Map()
+
+  const pipeline = store.pipeline()
+  for (const key of keys) {
+    pipeline.lindex(`${HISTORY_KEY_PREFIX}${key}`, -1)
+  }
+
+  const results = await pipeline.exec()
+  return new Map(
+    keys.map((key, i) => [key, results[i] as PropertyHistoryEntry | null])
+  )
+}
+
+/**
+ * Appends one entry per listing, oldest first, keeping the newest
+ * MAX_HISTORY_ENTRIES.
+ */
+export const appendHistoryEntries = async (
+  entries: Map<string, PropertyHistoryEntry>
+): Promise<void> => {
+  if (entries.size === 0) return
+  const pipeline = store.pipeline()
+  for (const [key, entry] of entries) {
+    const historyKey = `${HISTORY_KEY_PREFIX}${key}`
+    pipeline.rpush(historyKey, entry)
+    pipeline.ltrim(historyKey, -MAX_HISTORY_ENTRIES, -1)
+    pipeline.expire(historyKey, HISTORY_TTL_SECONDS)
+  }
+  await pipeline.exec()
+}
+
+// --- Market Statistics ---
+
+// One hash per day, with a field per ward/layout series
+const STATS_KEY_PREFIX = 'stats:'
+const STATS_TTL_SECONDS = 2 * 365 * 24 * 60 * 60 // 2 years
+
+const statsField = (ward: string, layout: string) => `${ward}/${layout}`
+
+/**
+ * Replaces a day's statistics with the latest aggregates.
+ */
+export const saveMarketStats = async (
+  date: string,
+  stats: MarketStats[]
+): Promise<void> => {
+  if (stats.length === 0) return
+  const key = `${STATS_KEY_PREFIX}${date}`
+  const pipeline = store.pipeline()
+  pipeline.del(key)
+  pipeline.hset(
+    key,
+    Object.fromEntries(stats.map((s) => [statsField(s.ward, s.layout), s]))
+  )
+  pipeline.expire(key, STATS_TTL_SECONDS)
+  await pipeline.exec()
+}
+
+/**
+ * Returns one series' statistics for each of the given days that has any,
+ * in the same order.
+ */
+export const getMarketStatsSeries = async (
+  dates: string[],
+  ward: string,
+  layout: string
+): Promise<MarketStats[]> => {
+  if (dates.length === 0) return []
+  const pipeline = store.pipeline()
+  for (const date of dates) {
+    pipeline.hget(`${STATS_KEY_PREFIX}${date}`, statsField(ward, layout))
+  }
+  const results = (await pipeline.exec()) as (MarketStats | null)[]
+  return results.filter((stats): stats is MarketStats => stats !== null)
+}
+
+/**
+ * Returns every series' statistics for one day.
+ */
+export const getMarketStatsForDay = async (
+  date: string
+): Promise<MarketStats[]> => {
+  const data = await store.hgetall<MarketStats>(
+    `${STATS_KEY_PREFIX}${date}`
+  )
+  return Object.values(data)
 }
 
-export const addKnownPropertyIds = async (ids: number[]): Promise<void> => {
-  if (ids.length === 0) return
-  await redis.sadd(KNOWN_IDS_KEY, ...ids as [number, ...number[]])
+// --- Property Archive ---
+
+// Searches read the small entries; full records are only fetched for the
+// results, so they live in a separate hash. Neither expires.
+const ARCHIVE_INDEX_KEY = 'archive:index'
+const ARCHIVE_PROPERTIES_KEY = 'archive:properties'
+
+export const getArchiveEntries = async (): Promise<ArchiveEntry[]> => {
+  const data = await store.hgetall<ArchiveEntry>(ARCHIVE_INDEX_KEY)
+  return Object.values(data)
+}
+
+/**
+ * Returns the archive entries of the given listings that have one.
+ */
+export const getArchiveEntriesByKey = async (
+  keys: string[]
+): Promise<Map<string, ArchiveEntry>> => {
+  if (keys.length === 0) return new Map()
+  const pipeline = store.pipeline()
+  for (const key of keys) pipeline.hget(ARCHIVE_INDEX_KEY, key)
+  const results = (await pipeline.exec()) as (ArchiveEntry | null)[]
+  return new Map(
+    results
+      .filter((entry): entry is ArchiveEntry => entry !== null)
+      .map((entry) => [entry.key, entry])
+  )
 }
 
-export const syncKnownPropertyIds = async (
-  currentIds: number[]
+/**
+ * Returns the last full record of each given listing that has one.
+ */
+export const getArchivedProperties = async (
+  keys: string[]
+): Promise<Map<string, Property>> => {
+  if (keys.length === 0) return new Map()
+  const pipeline = store.pipeline()
+  for (const key of keys) pipeline.hget(ARCHIVE_PROPERTIES_KEY, key)
+  const results = (await pipeline.exec()) as (Property | null)[]
+  const properties = new Map<string, Property>()
+  keys.forEach((key, i) => {
+    const property = results[i]
+    if (property) properties.set(key, property)
+  })
+  return properties
+}
+
+/**
+ * Writes archive entries, along with new full records for the listings
+ * that have one.
+ */
+export const saveArchive = async (
+  entries: ArchiveEntry[],
+  properties: Map<string, Property>
 ): Promise<void> => {
-  // Replace the full set with current IDs to remove stale ones
-  const pipeline = redis.pipeline()
-  pipeline.del(KNOWN_IDS_KEY)
-  if (currentIds.length > 0) {
-    pipeline.sadd(KNOWN_IDS_KEY, ...currentIds as [number, ...number[]])
+  if (entries.length === 0) return
+  const pipeline = store.pipeline()
+  pipeline.hset(
+    ARCHIVE_INDEX_KEY,
+    Object.fromEntries(entries.map((entry) => [entry.key, entry]))
+  )
+  if (properties.size > 0) {
+    pipeline.hset(ARCHIVE_PROPERTIES_KEY, Object.fromEntries(properties))
   }
   await pipeline.exec()
 }
@@ -45,24 +324,108 @@ const LISTINGS_KEY = 'properties:latest'
 const POLL_TIMESTAMP_KEY = 'poll:last_timestamp'
 
 export const getCachedListings = async (): Promise<Property[]> => {
-  const data = await redis.get<Property[]>(LISTINGS_KEY)
+  const data = await store.get<Property[]>(LISTINGS_KEY)
   return data ?? []
 }
 
 export const setCachedListings = async (
   properties: Property[]
 ): Promise<void> => {
-  await redis.set(LISTINGS_KEY, properties)
+  await store.set(LISTINGS_KEY, properties)
 }
 
 export const getLastPollTimestamp = async (): Promise<string | null> => {
-  return redis.get<string>(POLL_TIMESTAMP_KEY)
+  return store.get<string>(POLL_TIMESTAMP_KEY)
 }
 
 export const setLastPollTimestamp = async (
   timestamp: string
 ): Promise<void> => {
-  await redis.set(POLL_TIMESTAMP_KEY, timestamp)
+  await store.set(POLL_TIMESTAMP_KEY, timestamp)
+}
+
+// --- Poll Runs ---
+
+const POLL_RUNS_KEY = 'poll:runs'
+const MAX_POLL_RUNS = 200
+
+/**
+ * Returns the most recent poll runs, newest first.
+ */
+export const getPollRuns = async (
+  limit = MAX_POLL_RUNS
+): Promise<PollRun[]> => {
+  return store.lrange<PollRun>(
+    POLL_RUNS_KEY,
+    0,
+    Math.min(limit, MAX_POLL_RUNS) - 1
+  )
+}
+
+export const addPollRun = async (run: PollRun): Promise<void> => {
+  const pipeline = store.pipeline()
+  pipeline.lpush(POLL_RUNS_KEY, run)
+  pipeline.ltrim(POLL_RUNS_KEY, 0, MAX_POLL_RUNS - 1)
+  await pipeline.exec()
+}
+
+// --- Pipeline Lock ---
+
+const PIPELINE_LOCK_KEY = 'lock:pipeline'
+const PIPELINE_FENCE_KEY = 'lock:pipeline:fence'
+
+/**
+ * Issues the next fencing token. Tokens only ever increase.
+ */
+export const nextFencingToken = async (): Promise<number> => {
+  return store.incr(PIPELINE_FENCE_KEY)
+}
+
+/**
+ * Takes the pipeline lock if nobody holds it. Returns whether it was taken.
+ */
+export const acquirePipelineLock = async (
+  lease: PipelineLease,
+  ttlMs: number
+): Promise<boolean> => {
+  return store.set(PIPELINE_LOCK_KEY, lease, { nx: true, px: ttlMs })
+}
+
+export const getPipelineLock = async (): Promise<PipelineLease | null> => {
+  return store.get<PipelineLease>(PIPELINE_LOCK_KEY)
+}
+
+export const releasePipelineLock = async (
+  lease: PipelineLease
+): Promise<void> => {
+  // Only our own lease; an expired one may since have been replaced
+  await store.deleteIfEquals(PIPELINE_LOCK_KEY, lease)
+}
+
+// --- Poll Schedule ---
+
+const POLL_SCHEDULE_KEY = 'schedule:poll'
+
+export const getPollSchedule = async (): Promise<PollScheduleState | null> => {
+  return store.get<PollScheduleState>(POLL_SCHEDULE_KEY)
+}
+
+export const setPollSchedule = async (
+  state: PollScheduleState
+): Promise<void> => {
+  await store.set(POLL_SCHEDULE_KEY, state)
+}
+
+// --- Monitoring Health ---
+
+const HEALTH_KEY = 'health:status'
+
+export const getHealthState = async (): Promise<HealthState | null> => {
+  return store.get<HealthState>(HEALTH_KEY)
+}
+
+export const setHealthState = async (state: HealthState): Promise<void> => {
+  await store.set(HEALTH_KEY, state)
 }
 
 // --- Push Subscriptions ---
@@ -72,9 +435,8 @@ const SUBSCRIPTIONS_KEY = 'push:subscriptions'
 export const getAllSubscriptions = async (): Promise<
   PushSubscriptionRecord[]
 > => {
-  const data = await redis.hgetall(SUBSCRIPTIONS_KEY)
-  if (!data) return []
-  return Object.values(data) as PushSubscriptionRecord[]
+  const data = await store.hgetall<PushSubscriptionRecord>(SUBSCRIPTIONS_KEY)
+  return Object.values(data)
 }
 
 export const addSubscription = async (
@@ -82,12 +444,12 @@ export const addSubscription = async (
 ): Promise<void> => {
   // Use a hash of the endpoint as the key to prevent duplicates
   const key = hashEndpoint(sub.endpoint)
-  await redis.hset(SUBSCRIPTIONS_KEY, { [key]: sub })
+  await store.hset(SUBSCRIPTIONS_KEY, { [key]: sub })
 }
 
 export const removeSubscription = async (endpoint: string): Promise<void> => {
   const key = hashEndpoint(endpoint)
-  await redis.hdel(SUBSCRIPTIONS_KEY, key)
+  await store.hdel(SUBSCRIPTIONS_KEY, key)
 }
 
 const hashEndpoint = (endpoint: string): string => {
@@ -104,8 +466,11 @@ const MAX_NOTIFICATIONS = 50
 const NOTIFICATION_MAX_AGE_MS = 24 * 60 * 60 * 1000 // 24 hours
 
 export const getNotificationHistory = async (): Promise<AppNotification[]> => {
-  const data = await redis.lrange(NOTIFICATIONS_KEY, 0, MAX_NOTIFICATIONS - 1)
-  const all = (data ?? []) as unknown as AppNotification[]
+  const all = await store.lrange<AppNotification>(
+    NOTIFICATIONS_KEY,
+    0,
+    MAX_NOTIFICATIONS - 1
+  )
 
   // Filter out notifications older than 24 hours
   const cutoff = Date.now() - NOTIFICATION_MAX_AGE_MS
@@ -118,7 +483,7 @@ export const addNotifications = async (
   notifications: AppNotification[]
 ): Promise<void> => {
   if (notifications.length === 0) return
-  const pipeline = redis.pipeline()
+  const pipeline = store.pipeline()
   // Push newest first
   for (const notif of notifications) {
     pipeline.lpush(NOTIFICATIONS_KEY, notif)
@@ -133,16 +498,10 @@ export const addNotifications = async (
 const FILTERS_KEY = 'settings:filters'
 
 export const getFilterSettings = async (): Promise<FilterSettings> => {
-  const data = await redis.get<FilterSettings>(FILTERS_KEY)
+  const data = await store.get<FilterSettings>(FILTERS_KEY)
   return data ?? DEFAULT_FILTERS
 }
 
-export const setFilterSettings = async (
-  filters: FilterSettings
-): Promise<void> => {
-  await redis.set(FILTERS_KEY, filters)
-}
-
 // --- Livability Scores ---
 
 const SCORE_KEY_PREFIX = 'score:'
@@ -151,7 +510,7 @@ const SCORE_TTL_SECONDS = 7 * 24 * 60 * 60 // 7 days
 export const getCachedScore = async (
   propertyId: number
 ): Promise<LivabilityScore | null> => {
-  return redis.get<LivabilityScore>(`${SCORE_KEY_PREFIX}${propertyId}`)
+  return store.get<LivabilityScore>(`${SCORE_KEY_PREFIX}${propertyId}`)
 }
 
 export const getCachedScores = async (
@@ -159,7 +518,7 @@ export const getCachedScores = async (
 ): Promise<Map<number, LivabilityScore>> => {
   if (propertyIds.length === 0) return new Map()
 
-  const pipeline = redis.pipeline()
+  const pipeline = store.pipeline()
   for (const id of propertyIds) {
     pipeline.get(`${SCORE_KEY_PREFIX}${id}`)
   }
@@ -180,11 +539,191 @@ export const getCachedScores = async (
 export const setCachedScore = async (
   score: LivabilityScore
 ): Promise<void> => {
-  await redis.set(
+  await store.set(
     `${SCORE_KEY_PREFIX}${score.propertyId}`,
     score,
     { ex: SCORE_TTL_SECONDS }
   )
 }
 
-export default redis
+// --- Property Details ---
+
+const DETAILS_KEY_PREFIX = 'details:'
+const DETAILS_TTL_SECONDS = 3 * 24 * 60 * 60 // 3 days
+
+export const getCachedDetails = async (
+  propertyIds: number[]
+): Promise<Map<number, PropertyDetails>> => {
+  if (propertyIds.length === 0) return new Map()
+
+  const pipeline = store.pipeline()
+  for (const id of propertyIds) {
+    pipeline.get(`${DETAILS_KEY_PREFIX}${id}`)
+  }
+
+  const results = await pipeline.exec()
+  const detailsMap = new Map<number, PropertyDetails>()
+
+  for (let i = 0; i < propertyIds.length; i++) {
+    const details = results[i] as PropertyDetails | null
+    if (details) {
+      detailsMap.set(propertyIds[i], details)
+    }
+  }
+
+  return detailsMap
+}
+
+export const setCachedDetails = async (
+  details: PropertyDetails
+): Promise<void> => {
+  await store.set(`${DETAILS_KEY_PREFIX}${details.propertyId}`, details, {
+    ex: DETAILS_TTL_SECONDS,
+  })
+}
+
+// --- Scrape Validation ---
+
+const QUARANTINE_KEY = 'properties:quarantine'
+const MAX_QUARANTINED = 100
+const DRIFT_KEY_PREFIX = 'scrape:drift:'
+
+export const addQuarantinedRecords = async (
+  records: QuarantinedRecord[]
+): Promise<void> => {
+  if (records.length === 0) return
+  const pipeline = store.pipeline()
+  for (const record of records) {
+    pipeline.lpush(QUARANTINE_KEY, record)
+  }
+  pipeline.ltrim(QUARANTINE_KEY, 0, MAX_QUARANTINED - 1)
+  await pipeline.exec()
+}
+
+export const getQuarantinedRecords = async (): Promise<
+  QuarantinedRecord[]
+> => {
+  return store.lrange<QuarantinedRecord>(QUARANTINE_KEY, 0, MAX_QUARANTINED - 1)
+}
+
+export const getDriftReport = async (
+  source: ListingSourceId
+): Promise<DriftReport | null> => {
+  return store.get<DriftReport>(`${DRIFT_KEY_PREFIX}${source}`)
+}
+
+export const setDriftReport = async (report: DriftReport): Promise<void> => {
+  await store.set(`${DRIFT_KEY_PREFIX}${report.source}`, report)
+}
+
+// --- Ward & Station Catalog ---
+
+const CATALOG_CURRENT_KEY = 'catalog:current'
+const CATALOG_VERSIONS_KEY = 'catalog:versions'
+const CATALOG_SNAPSHOT_PREFIX = 'catalog:snapshot:'
+const MAX_CATALOG_VERSIONS = 5
+
+/**
+ * Returns the current catalog snapshot, or a specific version if given.
+ */
+export const getCatalogSnapshot = async (
+  version?: number
+): Promise<CatalogSnapshot | null> => {
+  const target = version ?? (await store.get<number>(CATALOG_CURRENT_KEY))
+  if (target === null || target === undefined) return null
+  return store.get<CatalogSnapshot>(`${CATALOG_SNAPSHOT_PREFIX}${target}`)
+}
+
+/**
+ * Returns the stored snapshot versions, newest first.
+ */
+export const getCatalogVersions = async (): Promise<number[]> => {
+  const versions = await store.lrange<number>(
+    CATALOG_VERSIONS_KEY,
+    0,
+    MAX_CATALOG_VERSIONS - 1
+  )
+  return versions.map(Number)
+}
+
+/**
+ * Stores a new snapshot, makes it current and drops the oldest versions
+ * beyond MAX_CATALOG_VERSIONS.
+ */
+export const saveCatalogSnapshot = async (
+  snapshot: CatalogSnapshot
+): Promise<void> => {
+  const previous = await getCatalogVersions()
+  const expired = [snapshot.version, ...previous].slice(MAX_CATALOG_VERSIONS)
+
+  const pipeline = store.pipeline()
+  pipeline.set(`${CATALOG_SNAPSHOT_PREFIX}${snapshot.version}`, snapshot)
+  pipeline.set(CATALOG_CURRENT_KEY, snapshot.version)
+  pipeline.lpush(CATALOG_VERSIONS_KEY, snapshot.version)
+  pipeline.ltrim(CATALOG_VERSIONS_KEY, 0, MAX_CATALOG_VERSIONS - 1)
+  for (const version of expired) {
+    pipeline.del(`${CATALOG_SNAPSHOT_PREFIX}${version}`)
+  }
+  await pipeline.exec()
+}
+
+// --- HTTP Client State ---
+
+const CIRCUIT_KEY_PREFIX = 'circuit:'
+const VALIDATORS_KEY_PREFIX = 'http:validators:'
+const VALIDATORS_TTL_SECONDS = 7 * 24 * 60 * 60 // 7 days
+
+export const getCircuitState = async (
+  name: string
+): Promise<CircuitState | null> => {
+  return store.get<CircuitState>(`${CIRCUIT_KEY_PREFIX}${name}`)
+}
+
+export const setCircuitState = async (state: CircuitState): Promise<void> => {
+  await store.set(`${CIRCUIT_KEY_PREFIX}${state.name}`, state)
+}
+
+export const clearCircuitState = async (name: string): Promise<void> => {
+  await store.del(`${CIRCUIT_KEY_PREFIX}${name}`)
+}
+
+// URLs carry every filter, so they're hashed into a fixed-length key
+const hashUrl = (url: string): string =>
+  createHash('sha1').update(url).digest('hex')
+
+export const getHttpValidators = async (
+  url: string
+): Promise<HttpValidators | null> => {
+  return store.get<HttpValidators>(`${VALIDATORS_KEY_PREFIX}${hashUrl(url)}`)
+}
+
+export const setHttpValidators = async (
+  url: string,
+  validators: HttpValidators
+): Promise<void> => {
+  await store.set(`${VALIDATORS_KEY_PREFIX}${hashUrl(url)}`, validators, {
+    ex: VALIDATORS_TTL_SECONDS,
+  })
+}
+
+// --- Search Page Cache ---
+
+const SEARCH_PAGE_KEY = 'ehousing:first_page'
+
+/**
+ * Returns the cached first search page, but only if it came from this
+ * URL. Validators are kept for every URL, so a 304 can answer for a
+ * search other than the one cached.
+ */
+export const getCachedSearchPage = async (
+  url: string
+): Promise<CachedSearchPage | null> => {
+  const page = await store.get<CachedSearchPage>(SEARCH_PAGE_KEY)
+  return page?.url === url ? page : null
+}
+
+export const setCachedSearchPage = async (
+  page: CachedSearchPage
+): Promise<void> => {
+  await store.set(SEARCH_PAGE_KEY, page, { ex: VALIDATORS_TTL_SECONDS })
+}
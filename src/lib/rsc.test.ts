@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { decodeFlightStream, findInTree, parseFlightRows } from './rsc'
+
+describe('parseFlightRows', () => {
+  it('reads tagged, text and model rows', () => {
+    const text = 'héllo\nworld'
+    const stream =
+      '1:I["chunk.js","default"]\n' +
+      '2:HL["/app.css","style"]\n' +
+      `3:T${Buffer.byteLength(text).toString(16)},${text}` +
+      '4:{"a":1}\n'
+
+    const rows = parseFlightRows(stream)
+
+    expect(rows.get('1')).toEqual({
+      id: '1',
+      tag: 'I',
+      value: ['chunk.js', 'default'],
+    })
+    expect(rows.get('2')?.tag).toBe('H')
+    expect(rows.get('3')).toEqual({ id: '3', tag: 'T', value: text })
+    expect(rows.get('4')).toEqual({ id: '4', tag: null, value: { a: 1 } })
+  })
+})
+
+describe('decodeFlightStream', () => {
+  it('resolves row references, paths and special values', () => {
+    const payload = decodeFlightStream(
+      '0:{"data":"$1","name":"$1:meta:name","lazy":"$L2","promise":"$@2"}\n' +
+        '1:{"meta":{"name":"Tokyo"},"missing":"$undefined","when":"$D2026-10-01T00:00:00.000Z"}\n' +
+        '2:{"escaped":"$$L1","big":"$n12","inf":"$Infinity","map":"$Q3"}\n' +
+        '3:[["k","v"]]\n'
+    )
+
+    expect(payload.root).toEqual({
+      data: {
+        meta: { name: 'Tokyo' },
+        missing: undefined,
+        when: '2026-10-01T00:00:00.000Z',
+      },
+      name: 'Tokyo',
+      lazy: {
+        escaped: '$L1',
+        big: BigInt(12),
+        inf: Infinity,
+        map: new Map([['k', 'v']]),
+      },
+      promise: payload.resolve('2'),
+    })
+  })
+
+  it('keeps a malformed BigInt as its raw string', () => {
+    const payload = decodeFlightStream('0:{"big":"$n12x","ok":"$n-3"}\n')
+    expect(payload.root).toEqual({ big: '$n12x', ok: BigInt(-3) })
+  })
+
+  it('resolves cyclic references to the same object', () => {
+    const payload = decodeFlightStream('0:{"self":"$0","child":"$1"}\n1:{"parent":"$0"}\n')
+    const root = payload.root as Record<string, Record<string, unknown>>
+    expect(root.self).toBe(root)
+    expect(root.child.parent).toBe(root)
+  })
+})
+
+describe('findInTree', () => {
+  it('finds the first matching object in document order', () => {
+    const tree = ['$', 'div', null, { children: [{ id: 1 }, { id: 2 }] }]
+    expect(findInTree(tree, (node) => typeof node.id === 'number')).toEqual({
+      id: 1,
+    })
+  })
+})
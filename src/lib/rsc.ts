@@ -0,0 +1,342 @@
+import * as cheerio from 'cheerio'
+
+/**
+ * Decoder for the React Server Components "flight" payload that Next.js
+ * App Router pages embed in their HTML.
+ *
+ * The server streams the payload as a series of inline scripts:
+ *
+ *   self.__next_f.push([0])                 bootstrap marker
+ *   self.__next_f.push([1, "<text>"])       chunk of the flight stream
+ *   self.__next_f.push([2, <form state>])   form state (ignored)
+ *   self.__next_f.push([3, "<base64>"])     binary chunk of the stream
+ *
+ * Joined together, the chunks form a stream of rows. Each row is
+ * `<hex id>:<optional tag><data>`, terminated by a newline, except text rows
+ * (`<id>:T<hex byte length>,<text>`) which are length-prefixed instead.
+ * Row data is JSON in which strings starting with `$` are references to
+ * other rows (`$1`, `$L2`, `$@3`, `$4:props:children`) or encoded special
+ * values (`$undefined`, `$D2024-01-01`, `$$literal`, ...).
+ *
+ * We rebuild the row table, resolve the references and expose the decoded
+ * tree so callers can find data by structure instead of by substring.
+ */
+
+export type FlightRow = {
+  id: string
+  // Row tag ('T' text, 'I' module import, 'E' error, 'H' hint, ...),
+  // or null for a plain JSON model row
+  tag: string | null
+  value: unknown
+}
+
+export type FlightPayload = {
+  rows: Map<string, FlightRow>
+  // The decoded root model (row 0)
+  root: unknown
+  // Resolves any row by ID, following its references
+  resolve: (id: string) => unknown
+}
+
+const NEWLINE = 0x0a
+const COLON = 0x3a
+const COMMA = 0x2c
+
+/**
+ * Collects the flight stream from the `self.__next_f.push()` scripts in an
+ * HTML document. Returns an empty string if the page carries no payload.
+ */
+export const extractFlightStream = (html: string): string => {
+  const $ = cheerio.load(html)
+  const chunks: string[] = []
+  const decoder = new TextDecoder()
+
+  $('script').each((_, el) => {
+    const text = $(el).text()
+    if (!text.includes('self.__next_f')) return
+
+    const args = parsePushArgs(text)
+    if (!args) return
+
+    const [type, data] = args
+    if (type === 1 && typeof data === 'string') {
+      chunks.push(data)
+    } else if (type === 3 && typeof data === 'string') {
+      chunks.push(decoder.decode(Buffer.from(data, 'base64')))
+    }
+  })
+
+  return chunks.join('')
+}
+
+/**
+ * Parses the array literal passed to `self.__next_f.push(...)`. Next.js
+ * serializes it as JSON (with `<` and friends escaped as `\u003c`).
+ */
+const parsePushArgs = (script: string): unknown[] | null => {
+  const pushIdx = script.indexOf('.push(')
+  if (pushIdx === -1) return null
+
+  const start = pushIdx + '.push('.length
+  const end = script.lastIndexOf(')')
+  if (end <= start) return null
+
+  try {
+    const args = JSON.parse(script.slice(start, end))
+    return Array.isArray(args) ? args : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Splits a flight stream into its rows. Works on UTF-8 bytes because the
+ * length prefix of text rows counts bytes, not characters.
+ */
+export const parseFlightRows = (stream: string): Map<string, FlightRow> => {
+  const bytes = new TextEncoder().encode(stream)
+  const decoder = new TextDecoder()
+  const rows = new Map<string, FlightRow>()
+
+  let pos = 0
+  while (pos < bytes.length) {
+    // Skip stray newlines between rows
+    if (bytes[pos] === NEWLINE) {
+      pos++
+      continue
+    }
+
+    const colonIdx = bytes.indexOf(COLON, pos)
+    if (colonIdx === -1) break
+
+    const id = decoder.decode(bytes.subarray(pos, colonIdx))
+    pos = colonIdx + 1
+
+    // A tag is a single uppercase letter; JSON never starts with one
+    let tag: string | null = null
+    const tagByte = bytes[pos]
+    if (tagByte >= 0x41 && tagByte <= 0x5a) {
+      tag = String.fromCharCode(tagByte)
+      pos++
+    }
+
+    if (tag === 'T') {
+      const commaIdx = bytes.indexOf(COMMA, pos)
+      if (commaIdx === -1) break
+      const length = parseInt(decoder.decode(bytes.subarray(pos, commaIdx)), 16)
+      const textStart = commaIdx + 1
+      const text = decoder.decode(bytes.subarray(textStart, textStart + length))
+      rows.set(id, { id, tag, value: text })
+      pos = textStart + length
+      continue
+    }
+
+    // Hints carry a second code letter (e.g. "HL" for preload links)
+    if (tag === 'H') pos++
+
+    let lineEnd = bytes.indexOf(NEWLINE, pos)
+    if (lineEnd === -1) lineEnd = bytes.length
+    const raw = decoder.decode(bytes.subarray(pos, lineEnd))
+    pos = lineEnd + 1
+
+    let value: unknown = raw
+    try {
+      value = JSON.parse(raw)
+    } catch {
+      // Leave unparseable rows as raw text so one bad row can't sink the rest
+    }
+    rows.set(id, { id, tag, value })
+  }
+
+  return rows
+}
+
+/**
+ * Decodes the flight payload embedded in an HTML page.
+ * Throws if the page has no flight data at all.
+ */
+export const decodeFlightPayload = (html: string): FlightPayload => {
+  const stream = extractFlightStream(html)
+  if (!stream) {
+    throw new Error('No RSC flight data found in HTML')
+  }
+  return decodeFlightStream(stream)
+}
+
+/**
+ * Decodes an already-extracted flight stream.
+ */
+export const decodeFlightStream = (stream: string): FlightPayload => {
+  const rows = parseFlightRows(stream)
+  const resolved = new Map<string, unknown>()
+
+  const resolveRow = (id: string): unknown => {
+    if (resolved.has(id)) return resolved.get(id)
+
+    const row = rows.get(id)
+    if (!row) return undefined
+
+    // Only model rows contain references; other rows are returned as-is
+    if (row.tag !== null) {
+      resolved.set(id, row.value)
+      return row.value
+    }
+
+    // Register containers before filling them so cyclic references
+    // resolve to the same object instead of recursing forever
+    const value = row.value
+    if (Array.isArray(value)) {
+      const out: unknown[] = []
+      resolved.set(id, out)
+      for (const item of value) out.push(resolveValue(item))
+      return out
+    }
+    if (value && typeof value === 'object') {
+      const out: Record<string, unknown> = {}
+      resolved.set(id, out)
+      for (const [key, item] of Object.entries(value)) {
+        out[key] = resolveValue(item)
+      }
+      return out
+    }
+
+    const out = resolveValue(value)
+    resolved.set(id, out)
+    return out
+  }
+
+  const resolveReference = (ref: string): unknown => {
+    const [id, ...path] = ref.split(':')
+    let target = resolveRow(id)
+    for (const key of path) {
+      if (target === null || typeof target !== 'object') return undefined
+      target = (target as Record<string, unknown>)[key]
+    }
+    return target
+  }
+
+  const resolveString = (value: string): unknown => {
+    // A lone "$" marks a React element tuple: ["$", type, key, props]
+    if (value.length < 2 || value[0] !== '$') return value
+
+    const marker = value[1]
+    const rest = value.slice(2)
+
+    switch (marker) {
+      case '$':
+        return value.slice(1)
+      case '@':
+      case 'L':
+      case 'F':
+        return resolveReference(rest)
+      case 'Q': {
+        const entries = resolveReference(rest)
+        return new Map(Array.isArray(entries) ? entries : [])
+      }
+      case 'W': {
+        const items = resolveReference(rest)
+        return new Set(Array.isArray(items) ? items : [])
+      }
+      case 'S':
+        return Symbol.for(rest)
+      case 'D':
+        return rest
+      case 'n':
+        // A malformed BigInt mustn't abort the whole payload
+        return /^-?\d+$/.test(rest) ? BigInt(rest) : value
+      case 'I':
+        return Infinity
+      case 'N':
+        return NaN
+      case 'u':
+        return undefined
+      case '-':
+        if (rest === '0') return -0
+        if (rest === 'Infinity') return -Infinity
+        return value
+      default:
+        // Plain "$<hex id>" reference, optionally with a path
+        if (/^[0-9a-f]/i.test(marker)) {
+          return resolveReference(value.slice(1))
+        }
+        // Anything else ($K form data, $B blobs, $T temporary refs, ...)
+        // has no meaning outside React, so keep the raw marker
+        return value
+    }
+  }
+
+  const resolveValue = (value: unknown): unknown => {
+    if (typeof value === 'string') return resolveString(value)
+    if (Array.isArray(value)) return value.map(resolveValue)
+    if (value && typeof value === 'object') {
+      const out: Record<string, unknown> = {}
+      for (const [key, item] of Object.entries(value)) {
+        out[key] = resolveValue(item)
+      }
+      return out
+    }
+    return value
+  }
+
+  return {
+    rows,
+    root: resolveRow('0'),
+    resolve: resolveRow,
+  }
+}
+
+/**
+ * Walks a decoded tree depth-first and returns the first object for which
+ * the predicate holds. Cycles and repeated subtrees are visited once.
+ */
+export const findInTree = (
+  tree: unknown,
+  predicate: (node: Record<string, unknown>) => boolean
+): Record<string, unknown> | undefined => {
+  const visited = new Set<object>()
+  const stack: unknown[] = [tree]
+
+  while (stack.length > 0) {
+    const node = stack.pop()
+    if (!node || typeof node !== 'object' || visited.has(node)) continue
+    visited.add(node)
+
+    if (!Array.isArray(node) && !(node instanceof Map) && !(node instanceof Set)) {
+      const record = node as Record<string, unknown>
+      if (predicate(record)) return record
+    }
+
+    const children: unknown[] =
+      node instanceof Map || node instanceof Set
+        ? Array.from(node.values())
+        : Object.values(node)
+
+    // Push in reverse so children are visited in document order
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push(children[i])
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Searches the whole payload for an object matching the predicate: first
+ * the tree reachable from the root, then every other model row (data can
+ * sit in rows the root only references lazily).
+ */
+export const findInPayload = (
+  payload: FlightPayload,
+  predicate: (node: Record<string, unknown>) => boolean
+): Record<string, unknown> | undefined => {
+  const fromRoot = findInTree(payload.root, predicate)
+  if (fromRoot) return fromRoot
+
+  for (const row of payload.rows.values()) {
+    if (row.tag !== null) continue
+    const found = findInTree(payload.resolve(row.id), predicate)
+    if (found) return found
+  }
+
+  return undefined
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_POLL_SCHEDULE,
+  buildPollCrons,
+  pollIntervalAt,
+  validateSchedule,
+} from './schedule'
+
+describe('buildPollCrons', () => {
+  it('splits the day into business and off hours in JST', () => {
+    expect(buildPollCrons(DEFAULT_POLL_SCHEDULE)).toEqual({
+      business: 'CRON_TZ=Asia/Tokyo */15 9-20 * * *',
+      offHours: 'CRON_TZ=Asia/Tokyo 0 0-8,21-23 * * *',
+    })
+  })
+
+  it('steps hourly intervals from the end of business hours', () => {
+    const crons = buildPollCrons({
+      ...DEFAULT_POLL_SCHEDULE,
+      offHoursIntervalMinutes: 180,
+    })
+    expect(crons.offHours).toBe('CRON_TZ=Asia/Tokyo 0 0,3,6,21 * * *')
+  })
+
+  it('drops the off-hours schedule when business hours cover the day', () => {
+    const crons = buildPollCrons({
+      ...DEFAULT_POLL_SCHEDULE,
+      businessHoursStart: 0,
+      businessHoursEnd: 24,
+    })
+    expect(crons.business).toBe('CRON_TZ=Asia/Tokyo */15 0-23 * * *')
+    expect(crons.offHours).toBeNull()
+  })
+})
+
+describe('validateSchedule', () => {
+  it('accepts the defaults', () => {
+    expect(validateSchedule(DEFAULT_POLL_SCHEDULE)).toBeNull()
+  })
+
+  it('rejects intervals that would make uneven crons', () => {
+    expect(
+      validateSchedule({ ...DEFAULT_POLL_SCHEDULE, businessIntervalMinutes: 7 })
+    ).toMatch(/Intervals/)
+  })
+
+  it('rejects business hours that end before they start', () => {
+    expect(
+      validateSchedule({
+        ...DEFAULT_POLL_SCHEDULE,
+        businessHoursStart: 20,
+        businessHoursEnd: 8,
+      })
+    ).toMatch(/Business hours/)
+  })
+})
+
+describe('pollIntervalAt', () => {
+  const state = {
+    settings: DEFAULT_POLL_SCHEDULE,
+    burstUntil: null,
+    syncedAt: null,
+  }
+
+  it('polls faster during business hours in Tokyo', () => {
+    // 10:00 and 23:00 JST
+    expect(pollIntervalAt(state, new Date('2026-03-02T01:00:00Z'))).toBe(15)
+    expect(pollIntervalAt(state, new Date('2026-03-02T14:00:00Z'))).toBe(60)
+  })
+
+  it('uses the burst interval until the burst ends', () => {
+    const burst = { ...state, burstUntil: '2026-03-02T15:00:00Z' }
+    expect(pollIntervalAt(burst, new Date('2026-03-02T14:00:00Z'))).toBe(5)
+    expect(pollIntervalAt(burst, new Date('2026-03-02T15:30:00Z'))).toBe(60)
+  })
+})
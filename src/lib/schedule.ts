@@ -0,0 +1,141 @@
+import type { PollScheduleSettings, PollScheduleState } from './types'
+
+/**
+ * Adaptive poll scheduling: frequent polls during Tokyo business hours,
+ * when new listings go up, fewer at night, and a burst after the search
+ * filters change. The functions here are pure and shared by the QStash
+ * sync, the local scheduler and the settings panel.
+ */
+
+export const SCHEDULE_TIME_ZONE = 'Asia/Tokyo'
+
+// JST has no daylight saving time
+const JST_OFFSET_HOURS = 9
+
+// Intervals that divide evenly into an hour or a day, so crons stay exact
+export const POLL_INTERVAL_OPTIONS = [5, 10, 15, 20, 30, 60, 120, 180]
+export const BURST_DURATION_OPTIONS = [0, 30, 60, 120]
+
+export const DEFAULT_POLL_SCHEDULE: PollScheduleSettings = {
+  businessIntervalMinutes: 15,
+  offHoursIntervalMinutes: 60,
+  businessHoursStart: 9,
+  businessHoursEnd: 21,
+  burstIntervalMinutes: 5,
+  burstDurationMinutes: 60,
+}
+
+/**
+ * Checks schedule settings sent by a client. Returns what's wrong with
+ * them, or null if they're usable.
+ */
+export const validateSchedule = (
+  settings: PollScheduleSettings
+): string | null => {
+  const intervals = [
+    settings.businessIntervalMinutes,
+    settings.offHoursIntervalMinutes,
+    settings.burstIntervalMinutes,
+  ]
+  if (!intervals.every((i) => POLL_INTERVAL_OPTIONS.includes(i))) {
+    return `Intervals must be one of ${POLL_INTERVAL_OPTIONS.join(', ')} minutes`
+  }
+  if (!BURST_DURATION_OPTIONS.includes(settings.burstDurationMinutes)) {
+    return `Burst duration must be one of ${BURST_DURATION_OPTIONS.join(', ')} minutes`
+  }
+
+  const { businessHoursStart: start, businessHoursEnd: end } = settings
+  if (
+    !Number.isInteger(start) ||
+    !Number.isInteger(end) ||
+    start < 0 ||
+    end > 24 ||
+    start >= end
+  ) {
+    return 'Business hours must start before they end, between 0 and 24'
+  }
+
+  return null
+}
+
+export type PollCrons = {
+  // Null when the period has no hours (e.g. business hours cover the day)
+  business: string | null
+  offHours: string | null
+}
+
+/**
+ * The QStash crons for the business-hours and off-hours polls.
+ */
+export const buildPollCrons = (settings: PollScheduleSettings): PollCrons => {
+  const { businessHoursStart: start, businessHoursEnd: end } = settings
+  const business: number[] = []
+  const offHours: number[] = []
+  // Off hours start when business hours end, so hourly steps line up
+  for (let i = 0; i < 24; i++) {
+    const hour = (end + i) % 24
+    if (hour >= start && hour < end) {
+      business.push(hour)
+    } else {
+      offHours.push(hour)
+    }
+  }
+  business.sort((a, b) => a - b)
+
+  return {
+    business: cronFor(settings.businessIntervalMinutes, business),
+    offHours: cronFor(settings.offHoursIntervalMinutes, offHours),
+  }
+}
+
+const cronFor = (intervalMinutes: number, hours: number[]): string | null => {
+  if (hours.length === 0) return null
+
+  if (intervalMinutes < 60) {
+    return `CRON_TZ=${SCHEDULE_TIME_ZONE} */${intervalMinutes} ${formatHours(hours)} * * *`
+  }
+
+  const step = intervalMinutes / 60
+  const selected = hours.filter((_, i) => i % step === 0)
+  return `CRON_TZ=${SCHEDULE_TIME_ZONE} 0 ${formatHours(selected)} * * *`
+}
+
+/**
+ * Writes a set of hours as a cron hour field, e.g. "0-8,21-23".
+ */
+const formatHours = (hours: number[]): string => {
+  const sorted = [...hours].sort((a, b) => a - b)
+  const ranges: string[] = []
+  let first = sorted[0]
+  let last = sorted[0]
+
+  for (const hour of [...sorted.slice(1), Infinity]) {
+    if (hour === last + 1) {
+      last = hour
+      continue
+    }
+    ranges.push(first === last ? String(first) : `${first}-${last}`)
+    first = hour
+    last = hour
+  }
+
+  return ranges.join(',')
+}
+
+/**
+ * Minutes between polls at a given moment.
+ */
+export const pollIntervalAt = (
+  state: PollScheduleState,
+  now: Date = new Date()
+): number => {
+  const { settings, burstUntil } = state
+  if (burstUntil && now.getTime() < Date.parse(burstUntil)) {
+    return settings.burstIntervalMinutes
+  }
+
+  const hour = (now.getUTCHours() + JST_OFFSET_HOURS) % 24
+  return hour >= settings.businessHoursStart && hour < settings.businessHoursEnd
+    ? settings.businessIntervalMinutes
+    : settings.offHoursIntervalMinutes
+}
@@ -0,0 +1,156 @@
+import { Client } from '@upstash/qstash'
+import type {
+  ManagedSchedule,
+  PollScheduleSettings,
+  PollScheduleState,
+  PollSchedulerMode,
+} from './types'
+import { getPollSchedule, setPollSchedule } from './redis'
+import { DEFAULT_POLL_SCHEDULE, buildPollCrons } from './schedule'
+
+/**
+ * Keeps the QStash poll schedules in line with the schedule settings.
+ * Managing them needs `QSTASH_TOKEN` and the app's public `APP_URL`;
+ * without them, polls come from the local scheduler in development or
+ * from schedules set up by hand in the QStash dashboard.
+ */
+
+const POLL_SCHEDULE_IDS = {
+  business: 'aparto-poll-business',
+  offHours: 'aparto-poll-off-hours',
+} as const
+
+let client: Client | null = null
+
+const getClient = (): Client | null => {
+  const token = process.env.QSTASH_TOKEN
+  if (!token || !process.env.APP_URL) return null
+  client ??= new Client({ token })
+  return client
+}
+
+const pollUrl = (): string =>
+  `${process.env.APP_URL?.replace(/\/$/, '')}/api/poll`
+
+export const getSchedulerMode = (): PollSchedulerMode => {
+  if (getClient()) return 'qstash'
+  if (
+    process.env.NODE_ENV === 'development' &&
+    process.env.DEV_SCHEDULER !== 'off'
+  ) {
+    return 'local'
+  }
+  return 'manual'
+}
+
+export const loadPollSchedule = async (): Promise<PollScheduleState> => {
+  return (
+    (await getPollSchedule()) ?? {
+      settings: DEFAULT_POLL_SCHEDULE,
+      burstUntil: null,
+      syncedAt: null,
+    }
+  )
+}
+
+/**
+ * Stores new schedule settings and, when QStash is managed from here,
+ * creates or updates the poll schedules to match.
+ */
+export const savePollSchedule = async (
+  settings: PollScheduleSettings
+): Promise<PollScheduleState> => {
+  const state: PollScheduleState = { ...(await loadPollSchedule()), settings }
+
+  const qstash = getClient()
+  if (qstash) {
+    const crons = buildPollCrons(settings)
+    for (const period of ['business', 'offHours'] as const) {
+      const scheduleId = POLL_SCHEDULE_IDS[period]
+      const cron = crons[period]
+      if (cron) {
+        await qstash.schedules.create({
+          scheduleId,
+          destination: pollUrl(),
+          cron,
+        })
+        console.log(`[scheduler] Schedule ${scheduleId} set to "${cron}"`)
+      } else {
+        await deleteSchedule(qstash, scheduleId)
+      }
+    }
+    state.syncedAt = new Date().toISOString()
+  }
+
+  await setPollSchedule(state)
+  return state
+}
+
+// Deleting a schedule that was never created is fine
+const deleteSchedule = async (qstash: Client, scheduleId: string) => {
+  try {
+    await qstash.schedules.delete(scheduleId)
+    console.log(`[scheduler] Schedule ${scheduleId} removed`)
+  } catch (error) {
+    console.warn(`[scheduler] Could not remove ${scheduleId}:`, error)
+  }
+}
+
+/**
+ * The poll schedules currently in QStash, or null when they aren't
+ * managed from here.
+ */
+export const listPollSchedules = async (): Promise<ManagedSchedule[] | null> => {
+  const qstash = getClient()
+  if (!qstash) return null
+
+  const ids: string[] = Object.values(POLL_SCHEDULE_IDS)
+  const schedules = await qstash.schedules.list()
+  return schedules
+    .filter((schedule) => ids.includes(schedule.scheduleId))
+    .map((schedule) => ({
+      id: schedule.scheduleId,
+      cron: schedule.cron,
+      paused: schedule.isPaused,
+    }))
+}
+
+/**
+ * Polls more often for a while, e.g. right after the search filters
+ * change. With QStash this queues one-off delayed polls; the local
+ * scheduler reads `burstUntil` itself. A burst that's already running is
+ * extended rather than doubled. Never throws.
+ */
+export const startBurst = async (): Promise<void> => {
+  try {
+    const state = await loadPollSchedule()
+    const { burstIntervalMinutes, burstDurationMinutes } = state.settings
+    if (burstDurationMinutes === 0) return
+
+    const now = Date.now()
+    const queuedUntil = state.burstUntil ? Date.parse(state.burstUntil) : now
+    const burstUntil = Math.max(queuedUntil, now + burstDurationMinutes * 60000)
+
+    const qstash = getClient()
+    if (qstash) {
+      for (
+        let delay = burstIntervalMinutes;
+        delay <= burstDurationMinutes;
+        delay += burstIntervalMinutes
+      ) {
+        if (now + delay * 60000 <= queuedUntil) continue
+        await qstash.publishJSON({ url: pollUrl(), delay: delay * 60 })
+      }
+    }
+
+    await setPollSchedule({
+      ...state,
+      burstUntil: new Date(burstUntil).toISOString(),
+    })
+    console.log(
+      `[scheduler] Polling every ${burstIntervalMinutes} min until ${new Date(burstUntil).toISOString()}`
+    )
+  } catch (error) {
+    console.error('[scheduler] Failed to start burst polling:', error)
+  }
+}
@@ -0,0 +1,138 @@
+import type {
+  DealRating,
+  Listing,
+  ListingLifecycle,
+  ListingSource,
+  Property,
+  TrainStation,
+} from '../types'
+import { fetchProperties } from '../ehousing'
+import { buildPropertyUrl, buildSearchUrl } from '../ehousing-urls'
+import { buildFingerprint } from '../fingerprint'
+
+/**
+ * Returns the train station with the shortest walk from the property.
+ */
+export const getNearestStation = (
+  property: Property
+): TrainStation | null => {
+  return property.trainStations.reduce(
+    (nearest, station) => {
+      if (
+        !nearest ||
+        station.meta_data.pivot_walking_distance_minutes <
+          nearest.meta_data.pivot_walking_distance_minutes
+      ) {
+        return station
+      }
+      return nearest
+    },
+    null as TrainStation | null
+  )
+}
+
+/**
+ * Normalizes an e-housing property into a source-agnostic listing.
+ */
+export const toListing = (property: Property): Listing<Property> => {
+  const nearestStation = getNearestStation(property)
+
+  return {
+    source: 'ehousing',
+    id: String(property.id),
+    key: `ehousing:${property.id}`,
+    name: property.name,
+    nameLangs: property.name_langs ?? {},
+    url: buildPropertyUrl(
+      property.prefecture.slug,
+      property.ward.slug,
+      property.slug,
+      property.room_number
+    ),
+    address: property.obscured_address,
+    addressLangs: property.obscured_address_langs ?? {},
+    ward: property.ward.slug,
+    rentAmount: property.rent_amount,
+    keyMoney: property.key_money,
+    securityDeposit: property.security_deposit,
+    sizeSqm: property.size_sqm,
+    bedRooms: property.bed_rooms,
+    layout: property.layout,
+    latitude: property.latitude,
+    longitude: property.longitude,
+    nearestStation: nearestStation
+      ? {
+          name: nearestStation.name,
+          nameLangs: nearestStation.name_langs ?? {},
+          walkingMinutes:
+            nearestStation.meta_data.pivot_walking_distance_minutes,
+        }
+      : null,
+    imageUrl: property.featured_image_url || null,
+    imageUrls: property.images_url ?? [],
+    status: property.status !== undefined ? String(property.status) : null,
+    fingerprint: buildFingerprint({
+      slug: property.slug,
+      roomNumber: property.room_number ?? '',
+      latitude: property.latitude,
+      longitude: property.longitude,
+      sizeSqm: property.size_sqm,
+      layout: property.layout ?? '',
+    }),
+    createdAt: property.created_at,
+    raw: property,
+  }
+}
+
+/**
+ * Picks the raw e-housing properties back out of a mixed listing set.
+ * The dashboard still renders e-housing's own property shape.
+ */
+export const toProperties = (listings: Listing[]): Property[] =>
+  listings
+    .filter((listing) => listing.source === 'ehousing')
+    .map((listing) => listing.raw as Property)
+
+/**
+ * Picks the e-housing lifecycle records out of a mixed set, keyed by
+ * property ID like the dashboard's other per-property data.
+ */
+export const lifecyclesById = (
+  records: Iterable<ListingLifecycle>
+): Record<string, ListingLifecycle> =>
+  Object.fromEntries(
+    Array.from(records)
+      .filter((record) => record.key.startsWith('ehousing:'))
+      .map((record) => [record.key.slice('ehousing:'.length), record])
+  )
+
+/**
+ * Picks the e-housing deal ratings out of a mixed set, keyed by property ID.
+ */
+export const dealsById = (
+  deals: Map<string, DealRating>
+): Record<string, DealRating> =>
+  Object.fromEntries(
+    Array.from(deals.entries())
+      .filter(([key]) => key.startsWith('ehousing:'))
+      .map(([key, rating]) => [key.slice('ehousing:'.length), rating])
+  )
+
+export const ehousingSource: ListingSource<Property> = {
+  id: 'ehousing',
+  name: 'e-housing.jp',
+  buildSearchUrl,
+  fetchListings: async (filters) => {
+    const { properties, rejected, meta, pageCount, notModified, truncated } =
+      await fetchProperties(filters)
+    return {
+      source: 'ehousing',
+      listings: properties.map(toListing),
+      rejected,
+      total: meta?.total ?? null,
+      pageCount,
+      notModified,
+      truncated,
+    }
+  },
+}
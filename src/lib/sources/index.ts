@@ -0,0 +1,141 @@
+import type {
+  FilterSettings,
+  Listing,
+  ListingSource,
+  ListingSourceId,
+  SourceResult,
+} from '../types'
+import { DEFAULT_FILTERS } from '../types'
+import { getFilterSettings } from '../redis'
+import { ehousingSource } from './ehousing'
+import { getSearchArea, isPointInPolygon } from '../geo'
+import { CircuitOpenError } from '../http'
+
+/**
+ * Every listing source the app knows about, keyed by source ID.
+ * To monitor another site, implement `ListingSource` and register it here.
+ */
+const SOURCES: Record<ListingSourceId, ListingSource> = {
+  ehousing: ehousingSource as ListingSource,
+}
+
+/**
+ * Returns the sources enabled via the comma-separated LISTING_SOURCES env var
+ * (defaults to e-housing only). Unknown IDs are ignored with a warning.
+ */
+export const getEnabledSources = (): ListingSource[] => {
+  const ids = (process.env.LISTING_SOURCES || 'ehousing')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  const sources: ListingSource[] = []
+  for (const id of ids) {
+    const source = SOURCES[id as ListingSourceId]
+    if (!source) {
+      console.warn(`[sources] Unknown listing source "${id}" - skipping`)
+      continue
+    }
+    sources.push(source)
+  }
+  return sources
+}
+
+/**
+ * Builds the namespaced key used to track a listing across polls.
+ */
+export const listingKey = (source: ListingSourceId, id: string | number) =>
+  `${source}:${id}`
+
+/**
+ * Returns the source ID portion of a listing key.
+ */
+export const sourceOfKey = (key: string): ListingSourceId =>
+  key.slice(0, key.indexOf(':')) as ListingSourceId
+
+export type AllListingsResult = {
+  listings: Listing[]
+  results: SourceResult[]
+  failedSources: ListingSourceId[]
+  // Some source was skipped because its circuit breaker is open, or ran
+  // out of time mid-crawl
+  degraded: boolean
+}
+
+/**
+ * Fetches listings from every enabled source and de-duplicates them by key.
+ * Listings outside the search area polygon are dropped even if a source
+ * returned them, so they can never be announced.
+ * A failing source is reported in `failedSources` so callers can leave its
+ * known state untouched, as is one whose crawl ran out of time; if every
+ * source fails, the first error is thrown.
+ */
+export const fetchAllListings = async (
+  filterSettings?: FilterSettings
+): Promise<AllListingsResult> => {
+  let filters: FilterSettings
+  try {
+    filters = filterSettings ?? (await getFilterSettings())
+  } catch {
+    filters = DEFAULT_FILTERS
+  }
+
+  const sources = getEnabledSources()
+  const results: SourceResult[] = []
+  const failedSources: ListingSourceId[] = []
+  let degraded = false
+  let firstError: unknown = null
+
+  // Sources are crawled one at a time to keep request volume polite
+  for (const source of sources) {
+    try {
+      const result = await source.fetchListings(filters)
+      results.push(result)
+      // Listings past where the crawl stopped weren't checked, so they
+      // mustn't count as missed
+      if (result.truncated) {
+        failedSources.push(source.id)
+        degraded = true
+      }
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        console.warn(`[sources] Skipping ${source.name}: ${error.message}`)
+        degraded = true
+      } else {
+        console.error(`[sources] ${source.name} failed:`, error)
+      }
+      failedSources.push(source.id)
+      firstError ??= error
+    }
+  }
+
+  if (results.length === 0 && firstError) {
+    throw firstError
+  }
+
+  const area = getSearchArea(filters)
+  const byKey = new Map<string, Listing>()
+  for (const result of results) {
+    let outside = 0
+    for (const listing of result.listings) {
+      const point = { lat: listing.latitude, lng: listing.longitude }
+      if (!isPointInPolygon(point, area)) {
+        outside++
+        continue
+      }
+      if (!byKey.has(listing.key)) byKey.set(listing.key, listing)
+    }
+    if (outside > 0) {
+      console.log(
+        `[sources] ${result.source}: dropped ${outside} listing(s) outside the search area`
+      )
+    }
+  }
+
+  return {
+    listings: Array.from(byKey.values()),
+    results,
+    failedSources,
+    degraded,
+  }
+}
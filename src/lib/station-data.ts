@@ -3,8 +3,14 @@
  * Extracted from e-housing's filter UI. Each line has an ID and an array of stations,
  * each with their own ID and name. These IDs correspond to the `station` and `sname`
  * query parameters used in e-housing search URLs.
+ *
+ * This is the bundled fallback for the live catalog (see catalog.ts), which is
+ * refreshed from e-housing on a schedule. Read wards and lines through the
+ * catalog rather than importing these tables directly.
  */
 
+import type { CatalogSnapshot } from './types'
+
 export type StationEntry = {
   id: number
   name: string
@@ -55,8 +61,8 @@ export const TRAIN_LINES: TrainLineEntry[] = [
 ]
 
 /**
- * All 32 wards available on e-housing.jp.
- * Can also be fetched live from GET api.e-housing.jp/wards.
+ * Wards available on e-housing.jp when this table was extracted.
+ * The live catalog fetches the current list from GET api.e-housing.jp/wards.
  */
 export type WardEntry = {
   id: number
@@ -98,3 +104,15 @@ export const WARDS: WardEntry[] = [
   { id: 33, name: 'Kanagawa', slug: 'kanagawa' },
   { id: 34, name: 'Chofu', slug: 'chofu' },
 ]
+
+/**
+ * Catalog snapshot built from the tables above, used until a live snapshot
+ * has been synced and whenever the live one can't be loaded.
+ */
+export const BUNDLED_CATALOG: CatalogSnapshot = {
+  version: 0,
+  source: 'bundled',
+  fetchedAt: null,
+  wards: WARDS,
+  lines: TRAIN_LINES,
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { Listing, ListingLifecycle } from './types'
+import {
+  ALL,
+  aggregateMarketStats,
+  percentile,
+  recentStatsDates,
+  statsDate,
+} from './stats'
+
+vi.mock('./redis', () => ({
+  saveMarketStats: vi.fn(),
+}))
+
+const NOW = '2025-03-10T03:00:00.000Z'
+
+const listing = (
+  key: string,
+  ward: string,
+  layout: string,
+  rentAmount: number,
+  sizeSqm: number
+): Listing => ({ key, ward, layout, rentAmount, sizeSqm }) as Listing
+
+const lifecycle = (key: string, firstSeenAt: string): ListingLifecycle =>
+  ({ key, firstSeenAt }) as ListingLifecycle
+
+describe('percentile', () => {
+  it('interpolates between neighbouring values', () => {
+    expect(percentile([100, 200, 300, 400], 0.5)).toBe(250)
+    expect(percentile([100, 200, 300, 400], 0.25)).toBe(175)
+    expect(percentile([100, 200, 300, 400], 1)).toBe(400)
+  })
+
+  it('handles single and empty lists', () => {
+    expect(percentile([150], 0.9)).toBe(150)
+    expect(percentile([], 0.5)).toBe(0)
+  })
+})
+
+describe('statsDate', () => {
+  it('counts days in JST', () => {
+    expect(statsDate('2025-03-09T14:59:59.000Z')).toBe('2025-03-09')
+    expect(statsDate('2025-03-09T15:00:00.000Z')).toBe('2025-03-10')
+  })
+})
+
+describe('recentStatsDates', () => {
+  it('lists days oldest first, ending today', () => {
+    expect(recentStatsDates(3, Date.parse(NOW))).toEqual([
+      '2025-03-08',
+      '2025-03-09',
+      '2025-03-10',
+    ])
+  })
+})
+
+describe('aggregateMarketStats', () => {
+  const listings = [
+    listing('a', 'minato', '1ldk', 300000, 50),
+    listing('b', 'minato', '1LDK', 200000, 40),
+    listing('c', 'shibuya', '2LDK', 400000, 80),
+  ]
+  const lifecycles = new Map([
+    ['a', lifecycle('a', '2025-03-01T03:00:00.000Z')],
+    ['b', lifecycle('b', '2025-03-10T01:00:00.000Z')],
+  ])
+
+  const stats = aggregateMarketStats(listings, lifecycles, NOW)
+  const find = (ward: string, layout: string) =>
+    stats.find((s) => s.ward === ward && s.layout === layout)
+
+  it('groups by ward and layout, with combined series', () => {
+    expect(stats.map((s) => `${s.ward}/${s.layout}`).sort()).toEqual([
+      'all/1LDK',
+      'all/2LDK',
+      'all/all',
+      'minato/1LDK',
+      'minato/all',
+      'shibuya/2LDK',
+      'shibuya/all',
+    ])
+    expect(find(ALL, ALL)?.listingCount).toBe(3)
+    expect(find('minato', '1LDK')?.listingCount).toBe(2)
+  })
+
+  it('computes rent percentiles and rent per square metre', () => {
+    const minato = find('minato', '1LDK')
+    expect(minato?.date).toBe('2025-03-10')
+    expect(minato?.rent.median).toBe(250000)
+    expect(minato?.rent.p25).toBe(225000)
+    expect(minato?.medianRentPerSqm).toBe(5500)
+  })
+
+  it('counts listings first seen today as new', () => {
+    const minato = find('minato', ALL)
+    expect(minato?.newListings).toBe(1)
+    expect(minato?.newListingRate).toBe(0.5)
+    expect(minato?.medianDaysOnMarket).toBe(4.5)
+    // Listings without a lifecycle record are first seen by this poll
+    expect(find('shibuya', ALL)?.newListings).toBe(1)
+  })
+})
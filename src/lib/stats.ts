@@ -0,0 +1,134 @@
+import type { Listing, ListingLifecycle, MarketStats } from './types'
+import { saveMarketStats } from './redis'
+import { daysSince } from './lifecycle'
+
+/**
+ * Daily rent market statistics. Every poll sees a full cross-section of
+ * the listings matching the search; these aggregates keep it as a time
+ * series per ward and layout, so a listing's rent can be judged against
+ * its neighbourhood.
+ */
+
+// Stands for every ward or every layout in a series
+export const ALL = 'all'
+
+const UNKNOWN = 'unknown'
+
+// Days are counted in JST, which has no daylight saving time
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * The JST calendar day (YYYY-MM-DD) a timestamp falls on.
+ */
+export const statsDate = (timestamp: string): string =>
+  new Date(Date.parse(timestamp) + JST_OFFSET_MS).toISOString().slice(0, 10)
+
+/**
+ * The last `days` JST days up to and including today, oldest first.
+ */
+export const recentStatsDates = (days: number, now = Date.now()): string[] =>
+  Array.from({ length: days }, (_, i) =>
+    statsDate(new Date(now - (days - 1 - i) * DAY_MS).toISOString())
+  )
+
+/**
+ * Linearly interpolated percentile (0-1) of an ascending list.
+ */
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0
+  const index = (sorted.length - 1) * p
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+export const normalizeLayout = (layout: string): string =>
+  layout.trim().toUpperCase() || UNKNOWN
+
+const ascending = (values: number[]) => [...values].sort((a, b) => a - b)
+
+/**
+ * Aggregates one poll's listings into statistics per ward and layout,
+ * plus the combined series for all wards and all layouts.
+ */
+export const aggregateMarketStats = (
+  listings: Listing[],
+  lifecycles: Map<string, ListingLifecycle>,
+  timestamp: string
+): MarketStats[] => {
+  const date = statsDate(timestamp)
+  const groups = new Map<
+    string,
+    { ward: string; layout: string; listings: Listing[] }
+  >()
+
+  for (const listing of listings) {
+    const ward = listing.ward ?? UNKNOWN
+    const layout = normalizeLayout(listing.layout)
+    for (const [w, l] of [
+      [ward, layout],
+      [ward, ALL],
+      [ALL, layout],
+      [ALL, ALL],
+    ]) {
+      const key = `${w}/${l}`
+      const group = groups.get(key) ?? { ward: w, layout: l, listings: [] }
+      group.listings.push(listing)
+      groups.set(key, group)
+    }
+  }
+
+  const now = Date.parse(timestamp)
+  return Array.from(groups.values(), ({ ward, layout, listings: group }) => {
+    const rents = ascending(group.map((l) => l.rentAmount))
+    const rentsPerSqm = ascending(
+      group.filter((l) => l.sizeSqm > 0).map((l) => l.rentAmount / l.sizeSqm)
+    )
+    const firstSeen = group.map(
+      (l) => lifecycles.get(l.key)?.firstSeenAt ?? timestamp
+    )
+    const newListings = firstSeen.filter((t) => statsDate(t) === date).length
+    const daysOnMarket = ascending(firstSeen.map((t) => daysSince(t, now)))
+
+    return {
+      date,
+      ward,
+      layout,
+      listingCount: group.length,
+      newListings,
+      newListingRate: Math.round((newListings / group.length) * 1000) / 1000,
+      rent: {
+        p10: Math.round(percentile(rents, 0.1)),
+        p25: Math.round(percentile(rents, 0.25)),
+        median: Math.round(percentile(rents, 0.5)),
+        p75: Math.round(percentile(rents, 0.75)),
+        p90: Math.round(percentile(rents, 0.9)),
+      },
+      medianRentPerSqm: Math.round(percentile(rentsPerSqm, 0.5)),
+      medianDaysOnMarket: percentile(daysOnMarket, 0.5),
+    }
+  })
+}
+
+/**
+ * Stores today's statistics from a poll's listings, replacing any from an
+ * earlier poll the same day. Never throws; statistics mustn't fail a poll.
+ */
+export const recordMarketStats = async (
+  listings: Listing[],
+  lifecycles: ListingLifecycle[],
+  timestamp: string
+): Promise<void> => {
+  try {
+    const stats = aggregateMarketStats(
+      listings,
+      new Map(lifecycles.map((record) => [record.key, record])),
+      timestamp
+    )
+    await saveMarketStats(statsDate(timestamp), stats)
+    console.log(`[stats] Recorded ${stats.length} market series`)
+  } catch (error) {
+    console.error('[stats] Failed to record market statistics:', error)
+  }
+}
@@ -0,0 +1,161 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { PipelineLease, StoreCommand, StoreDriver } from './types'
+import { createMemoryDriver } from './store/memory'
+import { getStorageDriverId } from './store'
+
+const exec = (driver: StoreDriver, ...commands: StoreCommand[]) =>
+  driver.exec(commands)
+
+describe('getStorageDriverId', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('uses the configured driver', () => {
+    vi.stubEnv('STORAGE_DRIVER', 'redis')
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://example.upstash.io')
+    expect(getStorageDriverId()).toBe('redis')
+  })
+
+  it('picks a driver from the credentials that are set', () => {
+    vi.stubEnv('STORAGE_DRIVER', '')
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '')
+    vi.stubEnv('REDIS_URL', 'redis://localhost:6379')
+    expect(getStorageDriverId()).toBe('redis')
+
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://example.upstash.io')
+    expect(getStorageDriverId()).toBe('upstash')
+  })
+
+  it('falls back to memory', () => {
+    vi.stubEnv('STORAGE_DRIVER', '')
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '')
+    vi.stubEnv('REDIS_URL', '')
+    expect(getStorageDriverId()).toBe('memory')
+  })
+
+  it('only uses memory in production when asked to', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubEnv('STORAGE_DRIVER', '')
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '')
+    vi.stubEnv('REDIS_URL', '')
+    expect(() => getStorageDriverId()).toThrow(/No storage configured/)
+
+    vi.stubEnv('STORAGE_DRIVER', 'memory')
+    expect(getStorageDriverId()).toBe('memory')
+  })
+})
+
+describe('createMemoryDriver', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('stores copies of values', async () => {
+    const driver = createMemoryDriver()
+    const value = { rent: 200000 }
+    await exec(driver, { name: 'set', key: 'a', value })
+    value.rent = 1
+
+    expect(
+      await exec(driver, { name: 'get', key: 'a' }, { name: 'get', key: 'b' })
+    ).toEqual([{ rent: 200000 }, null])
+  })
+
+  it('only sets missing keys with nx, and expires them', async () => {
+    vi.useFakeTimers()
+    const driver = createMemoryDriver()
+    const set = (value: string) =>
+      exec(driver, {
+        name: 'set',
+        key: 'lock',
+        value,
+        options: { nx: true, px: 1000 },
+      })
+
+    expect(await set('first')).toEqual([true])
+    expect(await set('second')).toEqual([false])
+    vi.advanceTimersByTime(1000)
+    expect(await set('third')).toEqual([true])
+    expect(await exec(driver, { name: 'get', key: 'lock' })).toEqual(['third'])
+  })
+
+  it('increments counters', async () => {
+    const driver = createMemoryDriver()
+    expect(
+      await exec(driver, { name: 'incr', key: 'n' }, { name: 'incr', key: 'n' })
+    ).toEqual([1, 2])
+  })
+
+  it('keeps hashes', async () => {
+    const driver = createMemoryDriver()
+    await exec(
+      driver,
+      { name: 'hset', key: 'h', values: { a: 1, b: 2, c: 3 } },
+      { name: 'hdel', key: 'h', fields: ['b'] }
+    )
+
+    expect(
+      await exec(
+        driver,
+        { name: 'hget', key: 'h', field: 'a' },
+        { name: 'hget', key: 'h', field: 'b' },
+        { name: 'hgetall', key: 'h' },
+        { name: 'hgetall', key: 'missing' }
+      )
+    ).toEqual([1, null, { a: 1, c: 3 }, {}])
+  })
+
+  it('keeps lists with Redis indexing', async () => {
+    const driver = createMemoryDriver()
+    await exec(
+      driver,
+      { name: 'lpush', key: 'l', values: ['b', 'a'] },
+      { name: 'rpush', key: 'l', values: ['c', 'd'] },
+      { name: 'ltrim', key: 'l', start: 0, stop: 2 }
+    )
+
+    expect(
+      await exec(
+        driver,
+        { name: 'lrange', key: 'l', start: 0, stop: -1 },
+        { name: 'lrange', key: 'l', start: -2, stop: -1 },
+        { name: 'lindex', key: 'l', index: -1 },
+        { name: 'lindex', key: 'l', index: 5 }
+      )
+    ).toEqual([['a', 'b', 'c'], ['b', 'c'], 'c', null])
+  })
+
+  it('deletes a key only while it holds the given value', async () => {
+    const driver = createMemoryDriver()
+    const lease = { token: 1, runId: 'poll-1' } as PipelineLease
+    await exec(driver, { name: 'set', key: 'lock', value: lease })
+
+    expect(await driver.deleteIfEquals('lock', { ...lease, token: 2 })).toBe(
+      false
+    )
+    expect(await driver.deleteIfEquals('lock', lease)).toBe(true)
+    expect(await exec(driver, { name: 'get', key: 'lock' })).toEqual([null])
+  })
+
+  it('persists to a JSON file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'aparto-store-'))
+    try {
+      const file = join(dir, 'store.json')
+      await exec(createMemoryDriver(file), {
+        name: 'hset',
+        key: 'h',
+        values: { a: { rent: 1 } },
+      })
+
+      expect(
+        await exec(createMemoryDriver(file), { name: 'hgetall', key: 'h' })
+      ).toEqual([{ a: { rent: 1 } }])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
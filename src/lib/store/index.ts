@@ -0,0 +1,166 @@
+import 'server-only'
+import type {
+  StorageDriverId,
+  StoreCommand,
+  StoreDriver,
+  StoreSetOptions,
+} from '../types'
+
+/**
+ * The key-value store behind every piece of app state. The backend is
+ * chosen by the STORAGE_DRIVER env var (`upstash`, `redis` or `memory`);
+ * without it, Upstash is used when its REST credentials are set, a Redis
+ * server when REDIS_URL is, and memory otherwise - except in production,
+ * where each serverless instance would keep its own throwaway state, so
+ * memory has to be asked for explicitly. Set STORAGE_FILE to keep the
+ * memory store in a JSON file across restarts.
+ *
+ * The driver is created on first use, so importing storage code doesn't
+ * need any credentials.
+ */
+
+const DRIVER_IDS: StorageDriverId[] = ['upstash', 'redis', 'memory']
+
+export const getStorageDriverId = (): StorageDriverId => {
+  const configured = process.env.STORAGE_DRIVER
+  if (configured) {
+    if (DRIVER_IDS.includes(configured as StorageDriverId)) {
+      return configured as StorageDriverId
+    }
+    console.warn(`[store] Unknown storage driver "${configured}" - ignoring`)
+  }
+  if (process.env.UPSTASH_REDIS_REST_URL) return 'upstash'
+  if (process.env.REDIS_URL) return 'redis'
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(
+      'No storage configured: set UPSTASH_REDIS_REST_URL, REDIS_URL or STORAGE_DRIVER=memory'
+    )
+  }
+  return 'memory'
+}
+
+const loadDriver = async (id: StorageDriverId): Promise<StoreDriver> => {
+  switch (id) {
+    case 'upstash': {
+      const { createUpstashDriver } = await import('./upstash')
+      return createUpstashDriver()
+    }
+    case 'redis': {
+      const { createRedisDriver } = await import('./ioredis')
+      return createRedisDriver()
+    }
+    case 'memory': {
+      const { createMemoryDriver } = await import('./memory')
+      return createMemoryDriver(process.env.STORAGE_FILE)
+    }
+  }
+}
+
+// Survives hot reloads, so the memory store keeps its data and Redis
+// connections aren't leaked
+const state = globalThis as typeof globalThis & {
+  storeDriver?: Promise<StoreDriver>
+}
+
+const getDriver = (): Promise<StoreDriver> => {
+  state.storeDriver ??= loadDriver(getStorageDriverId()).then(
+    (driver) => {
+      console.log(`[store] Using ${driver.id} storage`)
+      return driver
+    },
+    (error) => {
+      // Let the next call retry, e.g. once credentials are fixed
+      state.storeDriver = undefined
+      throw error
+    }
+  )
+  return state.storeDriver
+}
+
+/**
+ * Commands queued to run together, like a Redis pipeline, or a MULTI
+ * transaction when made with `store.transaction()`.
+ */
+export type StorePipeline = {
+  get: (key: string) => StorePipeline
+  set: (key: string, value: unknown, options?: StoreSetOptions) => StorePipeline
+  del: (key: string) => StorePipeline
+  expire: (key: string, seconds: number) => StorePipeline
+  hget: (key: string, field: string) => StorePipeline
+  hset: (key: string, values: Record<string, unknown>) => StorePipeline
+  hdel: (key: string, ...fields: string[]) => StorePipeline
+  lindex: (key: string, index: number) => StorePipeline
+  lpush: (key: string, ...values: unknown[]) => StorePipeline
+  rpush: (key: string, ...values: unknown[]) => StorePipeline
+  ltrim: (key: string, start: number, stop: number) => StorePipeline
+  exec: () => Promise<unknown[]>
+}
+
+export type Store = {
+  get: <T>(key: string) => Promise<T | null>
+  // Returns whether the value was written (always, unless `nx` is set)
+  set: (
+    key: string,
+    value: unknown,
+    options?: StoreSetOptions
+  ) => Promise<boolean>
+  del: (key: string) => Promise<void>
+  incr: (key: string) => Promise<number>
+  hget: <T>(key: string, field: string) => Promise<T | null>
+  hgetall: <T>(key: string) => Promise<Record<string, T>>
+  hset: (key: string, values: Record<string, unknown>) => Promise<void>
+  hdel: (key: string, ...fields: string[]) => Promise<void>
+  lrange: <T>(key: string, start: number, stop: number) => Promise<T[]>
+  deleteIfEquals: (key: string, value: unknown) => Promise<boolean>
+  pipeline: () => StorePipeline
+  transaction: () => StorePipeline
+}
+
+const run = async (
+  commands: StoreCommand[],
+  atomic = false
+): Promise<unknown[]> =>
+  commands.length === 0 ? [] : (await getDriver()).exec(commands, atomic)
+
+const runOne = async <T>(command: StoreCommand): Promise<T> =>
+  (await run([command]))[0] as T
+
+const createPipeline = (atomic = false): StorePipeline => {
+  const commands: StoreCommand[] = []
+  const queue = (command: StoreCommand) => {
+    commands.push(command)
+    return pipeline
+  }
+
+  const pipeline: StorePipeline = {
+    get: (key) => queue({ name: 'get', key }),
+    set: (key, value, options) => queue({ name: 'set', key, value, options }),
+    del: (key) => queue({ name: 'del', key }),
+    expire: (key, seconds) => queue({ name: 'expire', key, seconds }),
+    hget: (key, field) => queue({ name: 'hget', key, field }),
+    hset: (key, values) => queue({ name: 'hset', key, values }),
+    hdel: (key, ...fields) => queue({ name: 'hdel', key, fields }),
+    lindex: (key, index) => queue({ name: 'lindex', key, index }),
+    lpush: (key, ...values) => queue({ name: 'lpush', key, values }),
+    rpush: (key, ...values) => queue({ name: 'rpush', key, values }),
+    ltrim: (key, start, stop) => queue({ name: 'ltrim', key, start, stop }),
+    exec: () => run(commands, atomic),
+  }
+  return pipeline
+}
+
+export const store: Store = {
+  get: (key) => runOne({ name: 'get', key }),
+  set: (key, value, options) => runOne({ name: 'set', key, value, options }),
+  del: (key) => runOne({ name: 'del', key }),
+  incr: (key) => runOne({ name: 'incr', key }),
+  hget: (key, field) => runOne({ name: 'hget', key, field }),
+  hgetall: (key) => runOne({ name: 'hgetall', key }),
+  hset: (key, values) => runOne({ name: 'hset', key, values }),
+  hdel: (key, ...fields) => runOne({ name: 'hdel', key, fields }),
+  lrange: (key, start, stop) => runOne({ name: 'lrange', key, start, stop }),
+  deleteIfEquals: async (key, value) =>
+    (await getDriver()).deleteIfEquals(key, value),
+  pipeline: () => createPipeline(),
+  transaction: () => createPipeline(true),
+}
@@ -0,0 +1,129 @@
+import 'server-only'
+import Redis from 'ioredis'
+import type { StoreCommand, StoreDriver } from '../types'
+
+/**
+ * Any Redis server over TCP (REDIS_URL), for self-hosting. Values are
+ * serialized the way the Upstash client does it, so data can move between
+ * the two.
+ */
+
+const DELETE_IF_EQUALS_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`
+
+const serialize = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value)
+
+const parse = (raw: unknown): unknown => {
+  if (typeof raw !== 'string') return raw ?? null
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
+
+const toArgs = (command: StoreCommand): (string | number)[] => {
+  switch (command.name) {
+    case 'get':
+    case 'del':
+    case 'incr':
+    case 'hgetall':
+      return [command.name, command.key]
+    case 'set': {
+      const { ex, px, nx } = command.options ?? {}
+      return [
+        'set',
+        command.key,
+        serialize(command.value),
+        ...(ex ? ['EX', ex] : []),
+        ...(px ? ['PX', px] : []),
+        ...(nx ? ['NX'] : []),
+      ]
+    }
+    case 'expire':
+      return ['expire', command.key, command.seconds]
+    case 'hget':
+      return ['hget', command.key, command.field]
+    case 'hset':
+      return [
+        'hset',
+        command.key,
+        ...Object.entries(command.values).flatMap(([field, value]) => [
+          field,
+          serialize(value),
+        ]),
+      ]
+    case 'hdel':
+      return ['hdel', command.key, ...command.fields]
+    case 'lrange':
+    case 'ltrim':
+      return [command.name, command.key, command.start, command.stop]
+    case 'lindex':
+      return ['lindex', command.key, command.index]
+    case 'lpush':
+    case 'rpush':
+      return [command.name, command.key, ...command.values.map(serialize)]
+  }
+}
+
+const decode = (command: StoreCommand, result: unknown): unknown => {
+  switch (command.name) {
+    case 'get':
+    case 'hget':
+    case 'lindex':
+      return parse(result)
+    case 'set':
+      return result === 'OK'
+    case 'hgetall': {
+      // Raw replies are flat field/value arrays
+      const entries = Array.isArray(result)
+        ? Array.from({ length: result.length / 2 }, (_, i) => [
+            result[i * 2],
+            result[i * 2 + 1],
+          ])
+        : Object.entries((result as Record<string, string>) ?? {})
+      return Object.fromEntries(
+        entries.map(([field, value]) => [field, parse(value)])
+      )
+    }
+    case 'lrange':
+      return ((result as string[]) ?? []).map(parse)
+    case 'incr':
+      return Number(result)
+    default:
+      return result
+  }
+}
+
+export const createRedisDriver = (): StoreDriver => {
+  const url = process.env.REDIS_URL
+  if (!url) throw new Error('Redis storage needs REDIS_URL')
+  const redis = new Redis(url)
+
+  return {
+    id: 'redis',
+    exec: async (commands, atomic) => {
+      const args = commands.map(toArgs)
+      const batch = atomic ? redis.multi(args) : redis.pipeline(args)
+      const results = (await batch.exec()) ?? []
+      return results.map(([error, result], i) => {
+        if (error) throw error
+        return decode(commands[i], result)
+      })
+    },
+    deleteIfEquals: async (key, value) => {
+      const deleted = await redis.eval(
+        DELETE_IF_EQUALS_SCRIPT,
+        1,
+        key,
+        serialize(value)
+      )
+      return deleted === 1
+    },
+  }
+}
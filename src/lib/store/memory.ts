@@ -0,0 +1,175 @@
+import 'server-only'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import type { StoreCommand, StoreDriver } from '../types'
+
+/**
+ * An in-process store with Redis semantics, for local development and
+ * tests. Given a file path, it loads its data from that JSON file and
+ * writes it back after every change. Values are copied through JSON like
+ * a real store would, so callers can't mutate what's stored.
+ */
+
+type Entry =
+  | { type: 'string'; value: unknown; expiresAt?: number }
+  | { type: 'hash'; value: Record<string, unknown>; expiresAt?: number }
+  | { type: 'list'; value: unknown[]; expiresAt?: number }
+
+const READ_COMMANDS = new Set<StoreCommand['name']>([
+  'get',
+  'hget',
+  'hgetall',
+  'lrange',
+  'lindex',
+])
+
+const copy = <T>(value: T): T =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value))
+
+// Resolves Redis-style inclusive indexes, where -1 is the last item
+const resolveRange = (length: number, start: number, stop: number) => [
+  Math.max(0, start < 0 ? length + start : start),
+  Math.min(length - 1, stop < 0 ? length + stop : stop),
+]
+
+export const createMemoryDriver = (file?: string): StoreDriver => {
+  const data = new Map<string, Entry>(
+    file && existsSync(file)
+      ? Object.entries(JSON.parse(readFileSync(file, 'utf8')))
+      : []
+  )
+
+  const save = () => {
+    if (!file) return
+    mkdirSync(dirname(file), { recursive: true })
+    writeFileSync(file, JSON.stringify(Object.fromEntries(data)))
+  }
+
+  // The entry under a key, unless it has expired
+  const live = (key: string) => {
+    const entry = data.get(key)
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      data.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  const read = <T extends Entry['type']>(key: string, type: T) => {
+    const entry = live(key)
+    if (entry && entry.type !== type) {
+      throw new Error(`WRONGTYPE ${key} holds a ${entry.type}, not a ${type}`)
+    }
+    return entry as Extract<Entry, { type: T }> | undefined
+  }
+
+  const list = (key: string) => {
+    const entry = read(key, 'list') ?? { type: 'list', value: [] }
+    data.set(key, entry)
+    return entry.value
+  }
+
+  const run = (command: StoreCommand): unknown => {
+    switch (command.name) {
+      case 'get':
+        return copy(read(command.key, 'string')?.value ?? null)
+      case 'set': {
+        const { ex, px, nx } = command.options ?? {}
+        if (nx && live(command.key)) return false
+        const ttlMs = px ?? (ex ? ex * 1000 : undefined)
+        data.set(command.key, {
+          type: 'string',
+          value: copy(command.value),
+          ...(ttlMs && { expiresAt: Date.now() + ttlMs }),
+        })
+        return true
+      }
+      case 'del':
+        return data.delete(command.key) ? 1 : 0
+      case 'expire': {
+        const entry = live(command.key)
+        if (entry) entry.expiresAt = Date.now() + command.seconds * 1000
+        return entry ? 1 : 0
+      }
+      case 'incr': {
+        const value = Number(read(command.key, 'string')?.value ?? 0) + 1
+        const expiresAt = data.get(command.key)?.expiresAt
+        data.set(command.key, { type: 'string', value, expiresAt })
+        return value
+      }
+      case 'hget':
+        return copy(read(command.key, 'hash')?.value[command.field] ?? null)
+      case 'hgetall':
+        return copy(read(command.key, 'hash')?.value ?? {})
+      case 'hset': {
+        const entry = read(command.key, 'hash') ?? { type: 'hash', value: {} }
+        Object.assign(entry.value, copy(command.values))
+        data.set(command.key, entry)
+        return Object.keys(command.values).length
+      }
+      case 'hdel': {
+        const entry = read(command.key, 'hash')
+        if (!entry) return 0
+        for (const field of command.fields) delete entry.value[field]
+        if (Object.keys(entry.value).length === 0) data.delete(command.key)
+        return command.fields.length
+      }
+      case 'lrange': {
+        const items = read(command.key, 'list')?.value ?? []
+        const [start, stop] = resolveRange(
+          items.length,
+          command.start,
+          command.stop
+        )
+        return copy(items.slice(start, stop + 1))
+      }
+      case 'lindex': {
+        const items = read(command.key, 'list')?.value ?? []
+        const index =
+          command.index < 0 ? items.length + command.index : command.index
+        return copy(items[index] ?? null)
+      }
+      case 'lpush': {
+        const items = list(command.key)
+        for (const value of command.values) items.unshift(copy(value))
+        return items.length
+      }
+      case 'rpush': {
+        const items = list(command.key)
+        items.push(...copy(command.values))
+        return items.length
+      }
+      case 'ltrim': {
+        const items = read(command.key, 'list')?.value ?? []
+        const [start, stop] = resolveRange(
+          items.length,
+          command.start,
+          command.stop
+        )
+        const kept = items.slice(start, stop + 1)
+        if (kept.length === 0) data.delete(command.key)
+        else items.splice(0, items.length, ...kept)
+        return 'OK'
+      }
+    }
+  }
+
+  return {
+    id: 'memory',
+    // Runs synchronously, so every batch is already atomic
+    exec: async (commands) => {
+      const results = commands.map(run)
+      if (commands.some((command) => !READ_COMMANDS.has(command.name))) save()
+      return results
+    },
+    deleteIfEquals: async (key, value) => {
+      const current = read(key, 'string')
+      if (!current || JSON.stringify(current.value) !== JSON.stringify(value)) {
+        return false
+      }
+      data.delete(key)
+      save()
+      return true
+    },
+  }
+}
@@ -0,0 +1,99 @@
+import 'server-only'
+import { Redis } from '@upstash/redis'
+import type { SetCommandOptions } from '@upstash/redis'
+import type { StoreCommand, StoreDriver } from '../types'
+
+/**
+ * Upstash Redis over its REST API, for serverless deployments. Each batch
+ * of commands is one pipelined request, or one MULTI transaction.
+ */
+
+// Deletes the key only if it still holds the given value
+const DELETE_IF_EQUALS_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`
+
+export const createUpstashDriver = (): StoreDriver => {
+  const url = process.env.UPSTASH_REDIS_REST_URL
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN
+  if (!url || !token) {
+    throw new Error(
+      'Upstash storage needs UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN'
+    )
+  }
+  const redis = new Redis({ url, token })
+
+  const queue = (
+    pipeline: ReturnType<Redis['pipeline']>,
+    command: StoreCommand
+  ) => {
+    switch (command.name) {
+      case 'get':
+        return pipeline.get(command.key)
+      case 'set': {
+        const { ex, px, nx } = command.options ?? {}
+        if (!ex && !px && !nx) return pipeline.set(command.key, command.value)
+        return pipeline.set(command.key, command.value, {
+          ...(ex && { ex }),
+          ...(px && { px }),
+          ...(nx && { nx }),
+        } as SetCommandOptions)
+      }
+      case 'del':
+        return pipeline.del(command.key)
+      case 'expire':
+        return pipeline.expire(command.key, command.seconds)
+      case 'incr':
+        return pipeline.incr(command.key)
+      case 'hget':
+        return pipeline.hget(command.key, command.field)
+      case 'hgetall':
+        return pipeline.hgetall(command.key)
+      case 'hset':
+        return pipeline.hset(command.key, command.values)
+      case 'hdel':
+        return pipeline.hdel(command.key, ...command.fields)
+      case 'lrange':
+        return pipeline.lrange(command.key, command.start, command.stop)
+      case 'lindex':
+        return pipeline.lindex(command.key, command.index)
+      case 'lpush':
+        return pipeline.lpush(command.key, ...command.values)
+      case 'rpush':
+        return pipeline.rpush(command.key, ...command.values)
+      case 'ltrim':
+        return pipeline.ltrim(command.key, command.start, command.stop)
+    }
+  }
+
+  return {
+    id: 'upstash',
+    exec: async (commands, atomic) => {
+      const pipeline = atomic ? redis.multi() : redis.pipeline()
+      for (const command of commands) queue(pipeline, command)
+      const results = await pipeline.exec()
+      return results.map((result, i) => {
+        switch (commands[i].name) {
+          case 'set':
+            return result === 'OK'
+          case 'hgetall':
+            return result ?? {}
+          case 'lrange':
+            return result ?? []
+          default:
+            return result ?? null
+        }
+      })
+    },
+    deleteIfEquals: async (key, value) => {
+      // Values are stored serialized the same way
+      const deleted = await redis.eval(DELETE_IF_EQUALS_SCRIPT, [key], [
+        JSON.stringify(value),
+      ])
+      return deleted === 1
+    },
+  }
+}
@@ -1,3 +1,5 @@
+import type { WardEntry, TrainLineEntry } from './station-data'
+
 export type TrainLine = {
   id: number
   name: string
@@ -70,6 +72,24 @@ export type Property = {
   images_url: string[]
 }
 
+/**
+ * Extra fields scraped from a property's own page, which the search
+ * results payload doesn't include.
+ */
+export type PropertyDetails = {
+  propertyId: number
+  availableFrom: string | null
+  floor: number | null
+  totalFloors: number | null
+  yearBuilt: number | null
+  buildingAgeYears: number | null
+  maintenanceFee: number | null
+  contractLength: string | null
+  agencyFee: number | null
+  features: string[]
+  fetchedAt: string
+}
+
 export type PropertiesMeta = {
   total: number
   per_page: number
@@ -82,29 +102,480 @@ export type PropertiesMeta = {
   previous_page_url: string | null
 }
 
+/**
+ * Identifier of a rental site we monitor. Listing keys are namespaced by it.
+ */
+export type ListingSourceId = 'ehousing'
+
+/**
+ * A rental listing normalized across sources. `raw` holds the record in
+ * the source's own shape (e.g. an e-housing `Property`).
+ */
+export type Listing<TRaw = unknown> = {
+  source: ListingSourceId
+  id: string
+  key: string
+  name: string
+  // Translations of the name and address, keyed by language ("en", "ja")
+  nameLangs: Record<string, string>
+  url: string
+  address: string
+  addressLangs: Record<string, string>
+  // Ward slug (e.g. "meguro"), for per-ward statistics
+  ward: string | null
+  rentAmount: number
+  keyMoney: number
+  securityDeposit: number
+  sizeSqm: number
+  bedRooms: number
+  layout: string
+  latitude: number
+  longitude: number
+  nearestStation: {
+    name: string
+    nameLangs: Record<string, string>
+    walkingMinutes: number
+  } | null
+  imageUrl: string | null
+  imageUrls: string[]
+  // The source's own listing status code, if it has one
+  status: string | null
+  // Identifies the physical unit across IDs, for relisting detection
+  fingerprint: string | null
+  createdAt: string
+  raw: TRaw
+}
+
+export type SourceResult<TRaw = unknown> = {
+  source: ListingSourceId
+  listings: Listing<TRaw>[]
+  rejected: QuarantinedRecord[]
+  total: number | null
+  pageCount: number
+  // The source reported no changes since the last poll
+  notModified: boolean
+  // The crawl ran out of time, so some current listings may be missing
+  truncated: boolean
+}
+
+/**
+ * A scraped record that failed schema validation and was kept out of the
+ * poll pipeline.
+ */
+export type QuarantinedRecord = {
+  source: ListingSourceId
+  id: string | null
+  reason: string
+  record: unknown
+  quarantinedAt: string
+}
+
+/**
+ * Summary of how many scraped records failed validation in one poll,
+ * grouped by the offending field.
+ */
+export type DriftReport = {
+  source: ListingSourceId
+  timestamp: string
+  total: number
+  valid: number
+  invalid: number
+  invalidRatio: number
+  reasons: Record<string, number>
+}
+
+/**
+ * A rental site that can be searched for listings. Each source maps the
+ * shared filter settings onto its own search URL and parses its own
+ * result pages into normalized listings.
+ */
+export type ListingSource<TRaw = unknown> = {
+  id: ListingSourceId
+  name: string
+  buildSearchUrl: (filters: FilterSettings, page?: number) => string
+  fetchListings: (filters: FilterSettings) => Promise<SourceResult<TRaw>>
+}
+
+/**
+ * Where app state is kept: Upstash over REST, any Redis server over TCP,
+ * or process memory (optionally saved to a JSON file) for local
+ * development and tests.
+ */
+export type StorageDriverId = 'upstash' | 'redis' | 'memory'
+
+export type StoreSetOptions = {
+  // Expiry in seconds or milliseconds
+  ex?: number
+  px?: number
+  // Only set the key if it doesn't exist yet
+  nx?: boolean
+}
+
+/**
+ * One storage command, named after the Redis command it maps to. Values
+ * are JSON-serializable and come back parsed.
+ */
+export type StoreCommand =
+  | { name: 'get'; key: string }
+  | { name: 'set'; key: string; value: unknown; options?: StoreSetOptions }
+  | { name: 'del'; key: string }
+  | { name: 'expire'; key: string; seconds: number }
+  | { name: 'incr'; key: string }
+  | { name: 'hget'; key: string; field: string }
+  | { name: 'hgetall'; key: string }
+  | { name: 'hset'; key: string; values: Record<string, unknown> }
+  | { name: 'hdel'; key: string; fields: string[] }
+  | { name: 'lrange'; key: string; start: number; stop: number }
+  | { name: 'lindex'; key: string; index: number }
+  | { name: 'lpush'; key: string; values: unknown[] }
+  | { name: 'rpush'; key: string; values: unknown[] }
+  | { name: 'ltrim'; key: string; start: number; stop: number }
+
+/**
+ * A storage backend. `exec` runs commands in order, in one round trip
+ * where the backend allows, and returns each command's result: the parsed
+ * value for reads (null or empty when missing), whether the key was
+ * written for `set`, the new value for `incr`. With `atomic` the commands
+ * run as one transaction, so no other client sees them half applied.
+ */
+export type StoreDriver = {
+  id: StorageDriverId
+  exec: (commands: StoreCommand[], atomic?: boolean) => Promise<unknown[]>
+  // Deletes the key only while it still holds `value`, atomically
+  deleteIfEquals: (key: string, value: unknown) => Promise<boolean>
+}
+
+/**
+ * Circuit breaker state for an upstream host, persisted so every
+ * serverless invocation sees the same failures.
+ */
+export type CircuitState = {
+  name: string
+  // Consecutive failed requests (after retries)
+  failures: number
+  // While set and in the future, requests are refused without trying
+  openUntil: string | null
+  lastError: string | null
+  lastFailureAt: string | null
+}
+
+/**
+ * The first page of the last e-housing search, as parsed, along with the
+ * URL it came from.
+ */
+export type CachedSearchPage = {
+  url: string
+  properties: Property[]
+  meta: PropertiesMeta | null
+}
+
+/**
+ * Cache validators from a previous response, for conditional requests.
+ */
+export type HttpValidators = {
+  etag: string | null
+  lastModified: string | null
+}
+
+/**
+ * When a listing appeared in and disappeared from our search results.
+ * A listing only counts as delisted after several consecutive missed
+ * polls, so a flaky page doesn't make it look new when it comes back.
+ */
+export type ListingLifecycle = {
+  key: string
+  firstSeenAt: string
+  lastSeenAt: string
+  // Consecutive polls the listing has been missing from
+  missedPolls: number
+  delistedAt: string | null
+  // Set when this listing is a unit we'd seen before (possibly under
+  // another ID) that came back after leaving the results
+  relistOf?: {
+    key: string
+    rentAmount: number
+  }
+  // First spotted by a manual refresh; the next scheduled poll still
+  // decides whether to announce it
+  unannounced?: boolean
+}
+
+/**
+ * The listing last seen with a given fingerprint, and what it cost.
+ */
+export type FingerprintRecord = {
+  key: string
+  rentAmount: number
+  keyMoney: number
+  securityDeposit: number
+  lastSeenAt: string
+}
+
+/**
+ * The move-in costs last observed for a listing, and since when.
+ */
+export type ListingPrice = {
+  rentAmount: number
+  keyMoney: number
+  securityDeposit: number
+  observedAt: string
+}
+
+/**
+ * A listing whose rent, key money or deposit moved since the last poll.
+ */
+export type PriceChange = {
+  listing: Listing
+  previous: ListingPrice
+  current: ListingPrice
+}
+
+/**
+ * The parts of a listing tracked in its history.
+ */
+export type PropertySnapshot = {
+  rentAmount: number
+  keyMoney: number
+  securityDeposit: number
+  status: string | null
+  sizeSqm: number
+  bedRooms: number
+  layout: string
+  imageUrls: string[]
+}
+
+export type PropertyHistoryEvent = 'listed' | 'changed' | 'delisted' | 'relisted'
+
+/**
+ * One entry in a listing's append-only history. Delisted entries carry no
+ * snapshot since the listing is no longer in the results.
+ */
+export type PropertyHistoryEntry = {
+  timestamp: string
+  event: PropertyHistoryEvent
+  snapshot: PropertySnapshot | null
+  // Snapshot fields that differ from the previous entry
+  changes: (keyof PropertySnapshot)[]
+}
+
+/**
+ * The searchable summary of a listing in the permanent archive. Its dates
+ * outlive the lifecycle record, which expires a while after delisting.
+ */
+export type ArchiveEntry = {
+  key: string
+  name: string
+  nameLangs: Record<string, string>
+  address: string
+  addressLangs: Record<string, string>
+  ward: string | null
+  layout: string
+  rentAmount: number
+  sizeSqm: number
+  nearestStation: Listing['nearestStation']
+  firstSeenAt: string
+  lastSeenAt: string
+  delistedAt: string | null
+}
+
+/**
+ * An archive entry with the last full record seen for the property.
+ */
+export type ArchivedProperty = ArchiveEntry & {
+  property: Property
+}
+
+export type ArchiveStatus = 'active' | 'delisted'
+
+export type ArchiveQuery = {
+  // Words that must all appear in the name, address, station or layout
+  text?: string
+  ward?: string
+  priceFrom?: number
+  priceTo?: number
+  // JST days (YYYY-MM-DD); keeps listings that were in the results at some
+  // point in this range
+  seenFrom?: string
+  seenTo?: string
+  status?: ArchiveStatus
+}
+
 export type PollResult = {
   success: boolean
   timestamp: string
   totalListings: number
   newListings: number
-  newProperties: Property[]
+  newProperties: Listing[]
+  delistedListings: number
+  priceChanges: number
+  // Set when a source was skipped because its circuit breaker is open
+  degraded?: boolean
   error?: string
 }
 
+/**
+ * Which listings a deal rating was compared against, from the most
+ * specific group with enough listings in it.
+ */
+export type DealScope = 'ward-layout-size' | 'ward-size' | 'size' | 'all'
+
+/**
+ * How a listing's rent per m² and move-in cost compare with similar
+ * listings in the current results. `score` runs from 0 (well above the
+ * going rate) to 10 (well below), with 5 at the median.
+ */
+export type DealRating = {
+  score: number
+  rentPerSqm: number
+  // Medians over the comparable listings; move-in cost is scaled to this
+  // listing's size
+  comparableRentPerSqm: number
+  moveInCost: number
+  comparableMoveInCost: number
+  comparables: number
+  scope: DealScope
+}
+
+export type PollRunKind = 'poll' | 'refresh' | 'reseed'
+
+/**
+ * Rent statistics for one ward and layout on one day (JST), taken from
+ * the listings in that day's latest poll. `ward` and `layout` are 'all'
+ * for the series that combine every ward or layout.
+ */
+export type MarketStats = {
+  date: string
+  ward: string
+  layout: string
+  listingCount: number
+  // Listings first seen that day
+  newListings: number
+  newListingRate: number
+  rent: {
+    p10: number
+    p25: number
+    median: number
+    p75: number
+    p90: number
+  }
+  medianRentPerSqm: number
+  medianDaysOnMarket: number
+}
+
+/**
+ * The lease held by the pipeline run that is currently allowed to write
+ * listing state. Tokens increase with every lease granted, so a run whose
+ * lease expired can tell it has been superseded.
+ */
+export type PipelineLease = {
+  token: number
+  // ID the run will have in the poll log once it finishes
+  runId: string
+  kind: PollRunKind
+  startedAt: string
+  expiresAt: string
+}
+
+/**
+ * How often the scheduled poll runs. Hours are in JST.
+ */
+export type PollScheduleSettings = {
+  businessIntervalMinutes: number
+  offHoursIntervalMinutes: number
+  // Business hours run from `businessHoursStart` up to `businessHoursEnd`
+  businessHoursStart: number
+  businessHoursEnd: number
+  // Faster polling for a while after the search filters change (0 = off)
+  burstIntervalMinutes: number
+  burstDurationMinutes: number
+}
+
+export type PollScheduleState = {
+  settings: PollScheduleSettings
+  burstUntil: string | null
+  syncedAt: string | null
+}
+
+/**
+ * Who triggers the scheduled poll: schedules managed through the QStash
+ * API, the in-process stand-in during local development, or schedules
+ * set up by hand.
+ */
+export type PollSchedulerMode = 'qstash' | 'local' | 'manual'
+
+/**
+ * A poll schedule as QStash has it.
+ */
+export type ManagedSchedule = {
+  id: string
+  cron: string
+  paused: boolean
+}
+
+/**
+ * A record of one scheduled poll, manual refresh or settings re-seed,
+ * kept so we can tell whether monitoring is actually working.
+ */
+export type PollRun = {
+  id: string
+  kind: PollRunKind
+  startedAt: string
+  durationMs: number
+  success: boolean
+  // A source was skipped because its circuit breaker is open
+  degraded: boolean
+  pageCount: number
+  totalListings: number
+  newListings: number
+  removedListings: number
+  changedListings: number
+  notificationsSent: number
+  error: string | null
+}
+
+export type HealthRule = 'consecutive-failures' | 'bad-scrape' | 'stale-poll'
+
+/**
+ * A monitoring health rule that is currently broken. `params` fill in the
+ * localized alert text.
+ */
+export type HealthBreach = {
+  rule: HealthRule
+  params: Record<string, string | number>
+  since: string
+}
+
+export type HealthState = {
+  breaches: HealthBreach[]
+  // When subscribers were last alerted about each rule
+  alertedAt: Partial<Record<HealthRule, string>>
+  checkedAt: string
+}
+
 export type AppNotification = {
   id: string
-  propertyId: number
+  // Entries without a type predate price-drop alerts and are new listings
+  type?: 'new-listing' | 'price-drop' | 'relisted'
+  source?: ListingSourceId
+  listingKey?: string
+  url?: string
+  propertyId: number | string
   propertyName: string
+  propertyNameLangs?: Record<string, string>
   rentAmount: number
+  previousRentAmount?: number
   sizeSqm: number
   bedRooms: number
   layout: string
   nearestStation: string
+  nearestStationLangs?: Record<string, string>
   walkingMinutes: number
-  slug: string
-  roomNumber: string
-  prefectureSlug: string
-  wardSlug: string
+  availableFrom?: string | null
+  maintenanceFee?: number | null
+  slug?: string
+  roomNumber?: string
+  prefectureSlug?: string
+  wardSlug?: string
   timestamp: string
 }
 
@@ -115,6 +586,15 @@ export type PushSubscriptionRecord = {
     auth: string
   }
   createdAt: string
+  // Language for push notification text (English if unset)
+  locale?: Locale
+}
+
+export type Locale = 'en' | 'ja' | 'both'
+
+export type GeoPoint = {
+  lat: number
+  lng: number
 }
 
 export type FilterSettings = {
@@ -129,6 +609,22 @@ export type FilterSettings = {
   walkingDistanceTo: number
   features: number[]
   bedRooms?: number
+  // Polygon to search within; the default Tokyo rectangle if unset
+  searchArea?: GeoPoint[]
+  // Only push new listings with at least this deal score (0-10)
+  minDealScore?: number
+}
+
+/**
+ * A versioned snapshot of the wards, train lines and stations e-housing
+ * accepts as search filters. Version 0 is the bundled fallback.
+ */
+export type CatalogSnapshot = {
+  version: number
+  source: 'live' | 'bundled'
+  fetchedAt: string | null
+  wards: WardEntry[]
+  lines: TrainLineEntry[]
 }
 
 export type LivabilityScore = {
@@ -0,0 +1,61 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { reasonKey, validateProperty } from './validation'
+
+const [fixtureProperty] = JSON.parse(
+  readFileSync(
+    join(__dirname, '__fixtures__', 'ehousing', 'single-page.expected.json'),
+    'utf8'
+  )
+).properties
+
+describe('validateProperty', () => {
+  it('accepts a scraped property', () => {
+    expect(validateProperty(fixtureProperty)).toEqual({
+      ok: true,
+      value: fixtureProperty,
+    })
+  })
+
+  it('rejects a renamed rent field', () => {
+    const { rent_amount, ...rest } = fixtureProperty
+    const result = validateProperty({ ...rest, rent: rent_amount })
+    expect(result).toEqual({
+      ok: false,
+      reason: 'rent_amount: expected number, got undefined',
+    })
+  })
+
+  it('reports the path of a broken nested field', () => {
+    const result = validateProperty({
+      ...fixtureProperty,
+      trainStations: [
+        {
+          ...fixtureProperty.trainStations[0],
+          meta_data: { pivot_walking_distance_minutes: '7' },
+        },
+      ],
+    })
+    expect(result).toEqual({
+      ok: false,
+      reason:
+        'trainStations[0].meta_data.pivot_walking_distance_minutes: expected number, got string',
+    })
+  })
+
+  it('rejects non-object records', () => {
+    expect(validateProperty(null)).toEqual({
+      ok: false,
+      reason: 'record: expected object, got null',
+    })
+  })
+})
+
+describe('reasonKey', () => {
+  it('groups reasons by field path', () => {
+    expect(reasonKey('trainStations[3].name: expected string, got null')).toBe(
+      'trainStations[].name'
+    )
+  })
+})
@@ -0,0 +1,109 @@
+import type { Property } from './types'
+
+/**
+ * Runtime validation for scraped records. We only check the fields the app
+ * actually reads (cards, notifications, scores); drift in anything else is
+ * harmless and shouldn't quarantine a listing.
+ */
+
+type Check = (value: unknown, path: string) => string | null
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+const number: Check = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? null
+    : `${path}: expected number, got ${describe(value)}`
+
+const string: Check = (value, path) =>
+  typeof value === 'string' ? null : `${path}: expected string, got ${describe(value)}`
+
+const nullable =
+  (check: Check): Check =>
+  (value, path) =>
+    value === null || value === undefined ? null : check(value, path)
+
+const arrayOf =
+  (check: Check): Check =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      return `${path}: expected array, got ${describe(value)}`
+    }
+    for (let i = 0; i < value.length; i++) {
+      const error = check(value[i], `${path}[${i}]`)
+      if (error) return error
+    }
+    return null
+  }
+
+const object =
+  (shape: Record<string, Check>): Check =>
+  (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return `${path || 'record'}: expected object, got ${describe(value)}`
+    }
+    const record = value as Record<string, unknown>
+    for (const [key, check] of Object.entries(shape)) {
+      const error = check(record[key], path ? `${path}.${key}` : key)
+      if (error) return error
+    }
+    return null
+  }
+
+const trainStation = object({
+  id: number,
+  name: string,
+  meta_data: object({
+    pivot_walking_distance_minutes: number,
+  }),
+})
+
+const property = object({
+  id: number,
+  name: string,
+  obscured_address: string,
+  rent_amount: number,
+  key_money: number,
+  security_deposit: number,
+  size_sqm: number,
+  bed_rooms: number,
+  layout: string,
+  latitude: number,
+  longitude: number,
+  slug: string,
+  room_number: string,
+  created_at: string,
+  ward: object({ id: number, slug: string }),
+  prefecture: object({ slug: string }),
+  trainStations: arrayOf(trainStation),
+  featured_image_url: nullable(string),
+  images_url: arrayOf(string),
+  floor_plan_images: nullable(arrayOf(string)),
+})
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: string }
+
+/**
+ * Checks a scraped record against the runtime schema for `Property`.
+ * The reason names the first offending field, e.g.
+ * "rent_amount: expected number, got undefined".
+ */
+export const validateProperty = (
+  value: unknown
+): ValidationResult<Property> => {
+  const error = property(value, '')
+  return error ? { ok: false, reason: error } : { ok: true, value: value as Property }
+}
+
+/**
+ * Collapses a validation reason into its field path so reports group
+ * "trainStations[0].name" and "trainStations[3].name" together.
+ */
+export const reasonKey = (reason: string): string =>
+  reason.replace(/\[\d+\]/g, '[]').split(':')[0]